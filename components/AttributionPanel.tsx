@@ -0,0 +1,127 @@
+import clsx from 'clsx';
+import { Unlink, Users } from 'lucide-react';
+import { useMemo } from 'react';
+import { DomainRule, RedirectItem } from '../types/redirect';
+import { analyzeAttribution } from '../utils/attribution';
+import CategoryChip from './CategoryChip';
+
+interface AttributionPanelProps {
+  path: RedirectItem[];
+  registry?: DomainRule[];
+  darkMode?: boolean;
+}
+
+export default function AttributionPanel({
+  path,
+  registry,
+  darkMode = false,
+}: AttributionPanelProps) {
+  const { parties, lostParams } = useMemo(
+    () => analyzeAttribution(path, registry),
+    [path, registry]
+  );
+  if (parties.length === 0 && lostParams.length === 0) return null;
+
+  const mutedClass = darkMode ? 'text-slate-400' : 'text-slate-500';
+  const paramClass = 'px-1.5 py-0.5 rounded font-mono text-[11px]';
+
+  return (
+    <section
+      className={clsx(
+        'rounded-xl p-4 border',
+        darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
+      )}
+    >
+      <h3 className="font-medium mb-3 flex items-center gap-2">
+        <Users className="w-4 h-4 text-violet-500" />
+        {chrome.i18n.getMessage('attribution')} ({parties.length})
+      </h3>
+
+      <div className="space-y-2">
+        {parties.map(party => (
+          <div
+            key={party.name}
+            className={clsx('p-3 rounded-lg', darkMode ? 'bg-slate-900/50' : 'bg-slate-50')}
+          >
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="font-medium text-sm">{party.name}</span>
+              <CategoryChip category={party.category} darkMode={darkMode} />
+              <span className="flex-1" />
+              <span className={clsx('text-xs', mutedClass)}>
+                {chrome.i18n.getMessage('attributionHops')}:{' '}
+                {party.hops.map(hop => `#${hop + 1}`).join(', ')}
+              </span>
+            </div>
+            {party.hosts.length > 0 && party.hosts[0] !== party.name && (
+              <p className={clsx('text-xs font-mono mt-1 break-all', mutedClass)}>
+                {party.hosts.join(', ')}
+              </p>
+            )}
+            {(party.paramsAdded.length > 0 || party.paramsStripped.length > 0) && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {party.paramsAdded.map(param => (
+                  <span
+                    key={`+${param}`}
+                    title={chrome.i18n.getMessage('paramsAdded')}
+                    className={clsx(
+                      paramClass,
+                      darkMode ? 'bg-green-900/40 text-green-300' : 'bg-green-100 text-green-700'
+                    )}
+                  >
+                    +{param}
+                  </span>
+                ))}
+                {party.paramsStripped.map(param => (
+                  <span
+                    key={`-${param}`}
+                    title={chrome.i18n.getMessage('paramsStripped')}
+                    className={clsx(
+                      paramClass,
+                      darkMode ? 'bg-red-900/40 text-red-300' : 'bg-red-100 text-red-700'
+                    )}
+                  >
+                    -{param}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {lostParams.length > 0 && (
+        <div className="mt-3">
+          <h4
+            className={clsx(
+              'text-xs font-medium uppercase tracking-wide mb-2 flex items-center gap-1.5',
+              darkMode ? 'text-red-400' : 'text-red-600'
+            )}
+          >
+            <Unlink className="w-3.5 h-3.5" />
+            {chrome.i18n.getMessage('lostParams')} ({lostParams.length})
+          </h4>
+          <ul className="space-y-1">
+            {lostParams.map((lost, idx) => (
+              <li key={idx} className="text-xs flex items-start gap-2">
+                <span
+                  className={clsx(
+                    paramClass,
+                    'shrink-0',
+                    darkMode ? 'bg-red-900/40 text-red-300' : 'bg-red-100 text-red-700'
+                  )}
+                  title={lost.value}
+                >
+                  {lost.param}
+                </span>
+                <span className={clsx('break-all', mutedClass)}>
+                  {chrome.i18n.getMessage('droppedAtHop')} #{lost.hop + 1} (
+                  {lost.party ?? lost.host})
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,39 @@
+import clsx from 'clsx';
+import { DomainCategory } from '../types/redirect';
+
+interface CategoryChipProps {
+  category: DomainCategory;
+  darkMode?: boolean;
+}
+
+const CATEGORY_COLORS: Record<DomainCategory, { light: string; dark: string }> = {
+  shortener: { light: 'bg-sky-100 text-sky-700', dark: 'bg-sky-900/50 text-sky-300' },
+  ad_network: { light: 'bg-pink-100 text-pink-700', dark: 'bg-pink-900/50 text-pink-300' },
+  affiliate: { light: 'bg-violet-100 text-violet-700', dark: 'bg-violet-900/50 text-violet-300' },
+  analytics: { light: 'bg-teal-100 text-teal-700', dark: 'bg-teal-900/50 text-teal-300' },
+  internal: { light: 'bg-slate-200 text-slate-600', dark: 'bg-slate-700 text-slate-300' },
+};
+
+export const CATEGORY_MESSAGE_KEYS: Record<DomainCategory, string> = {
+  shortener: 'categoryShortener',
+  ad_network: 'categoryAdNetwork',
+  affiliate: 'categoryAffiliate',
+  analytics: 'categoryAnalytics',
+  internal: 'categoryInternal',
+};
+
+export default function CategoryChip({ category, darkMode = false }: CategoryChipProps) {
+  const colors = CATEGORY_COLORS[category];
+  if (!colors) return null;
+
+  return (
+    <span
+      className={clsx(
+        'text-[10px] font-medium px-1.5 py-0.5 rounded whitespace-nowrap',
+        darkMode ? colors.dark : colors.light
+      )}
+    >
+      {chrome.i18n.getMessage(CATEGORY_MESSAGE_KEYS[category])}
+    </span>
+  );
+}
@@ -2,6 +2,7 @@ import clsx from 'clsx';
 import { AlertTriangle, CheckCircle, ChevronDown, ChevronRight, XCircle } from 'lucide-react';
 import { useState } from 'react';
 import { ChainScore } from '../types/redirect';
+import { getIssueMessage } from '../utils/report-i18n';
 
 interface ChainScoreCardProps {
   score: ChainScore;
@@ -106,7 +107,7 @@ export default function ChainScoreCard({ score, darkMode = false }: ChainScoreCa
                   ? 'bg-slate-700/50 text-slate-300 border border-slate-600/50'
                   : 'bg-slate-200/70 text-slate-600 border border-slate-300/50'
               )}
-              title={filteredIssues.map(issue => `• ${issue.message}`).join('\n')}
+              title={filteredIssues.map(issue => `• ${getIssueMessage(issue)}`).join('\n')}
             >
               {filteredIssues.length} {filteredIssues.length === 1 ? chrome.i18n.getMessage('scoreIssueSingle') : chrome.i18n.getMessage('scoreIssuePlural')}
             </span>
@@ -136,7 +137,7 @@ export default function ChainScoreCard({ score, darkMode = false }: ChainScoreCa
               <div key={idx} className="flex items-start gap-2">
                 {getIssueIcon(issue.type)}
                 <span className={clsx('text-xs', darkMode ? 'text-slate-300' : 'text-slate-700')}>
-                  {issue.message}
+                  {getIssueMessage(issue)}
                 </span>
               </div>
             ))}
@@ -1,12 +1,14 @@
 import clsx from 'clsx';
-import { Check, Copy, FileDown, FileSpreadsheet } from 'lucide-react';
+import { Check, Copy, FileDown, FileSpreadsheet, Network, Wrench } from 'lucide-react';
 import { useState } from 'react';
 import { RedirectItem } from '../types/redirect';
+import { downloadChainHar } from '../utils/history-export';
 
 interface CopyButtonsProps {
   redirectPath: RedirectItem[];
   darkMode?: boolean;
   onExportPDF?: () => Promise<void>;
+  onGenerateFix?: () => void;
 }
 
 type CopyFormat = 'text' | 'csv';
@@ -15,6 +17,7 @@ export default function CopyButtons({
   redirectPath,
   darkMode = false,
   onExportPDF,
+  onGenerateFix,
 }: CopyButtonsProps) {
   const [copiedFormat, setCopiedFormat] = useState<CopyFormat | null>(null);
   const [exporting, setExporting] = useState(false);
@@ -34,6 +37,11 @@ export default function CopyButtons({
           statusString = `${item.status_code}: ${redirectType} redirect to ${item.redirect_url}`;
         }
 
+        if (item.type === 'client_redirect') {
+          const redirectType = item.redirect_type === 'meta' ? 'Meta refresh' : 'JavaScript';
+          statusString = `${item.status_code}: ${redirectType} redirect to ${item.redirect_url}`;
+        }
+
         return `${idx + 1}. ${item.url} - ${statusString}`;
       })
       .join('\n');
@@ -153,6 +161,35 @@ export default function CopyButtons({
         )}
       </button>
 
+      <button
+        onClick={() => downloadChainHar(redirectPath)}
+        title={chrome.i18n.getMessage('exportChainHar')}
+        className={clsx(
+          'flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-all',
+          darkMode
+            ? 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+        )}
+      >
+        <Network className="w-3.5 h-3.5" />
+        {chrome.i18n.getMessage('harFormat')}
+      </button>
+
+      {onGenerateFix && (
+        <button
+          onClick={onGenerateFix}
+          title={chrome.i18n.getMessage('generateFix')}
+          className={clsx(
+            'flex items-center px-2 py-1.5 rounded-md transition-all',
+            darkMode
+              ? 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+              : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+          )}
+        >
+          <Wrench className="w-3.5 h-3.5" />
+        </button>
+      )}
+
       {onExportPDF && (
         <>
           <div className={clsx('w-px h-5', darkMode ? 'bg-slate-600' : 'bg-slate-300')} />
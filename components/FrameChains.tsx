@@ -0,0 +1,170 @@
+import clsx from 'clsx';
+import { ChevronDown, ChevronRight, Layers } from 'lucide-react';
+import { useState } from 'react';
+import { FrameRedirectChain } from '../types/redirect';
+import RedirectItemCard from './RedirectItemCard';
+
+interface FrameChainsProps {
+  frames: Record<number, FrameRedirectChain>;
+  darkMode?: boolean;
+}
+
+interface FrameNode {
+  chain: FrameRedirectChain;
+  children: FrameNode[];
+}
+
+// Nest frames under their parent frame; frames whose parent was not captured go to the top
+function buildFrameTree(frames: Record<number, FrameRedirectChain>): FrameNode[] {
+  const nodes = new Map<number, FrameNode>();
+  for (const chain of Object.values(frames)) {
+    nodes.set(chain.frameId, { chain, children: [] });
+  }
+
+  const roots: FrameNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = nodes.get(node.chain.parentFrameId);
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots.sort((a, b) => a.chain.startTime - b.chain.startTime);
+}
+
+function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+export default function FrameChains({ frames, darkMode = false }: FrameChainsProps) {
+  const tree = buildFrameTree(frames);
+  if (tree.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <span
+        className={clsx(
+          'text-xs font-medium uppercase tracking-wide flex items-center gap-1.5',
+          darkMode ? 'text-slate-400' : 'text-slate-500'
+        )}
+      >
+        <Layers className="w-3.5 h-3.5" />
+        {chrome.i18n.getMessage('frameChains')} ({Object.keys(frames).length})
+      </span>
+      {tree.map(node => (
+        <FrameChainNode key={node.chain.frameId} node={node} darkMode={darkMode} />
+      ))}
+    </div>
+  );
+}
+
+function FrameChainNode({ node, darkMode }: { node: FrameNode; darkMode: boolean }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { chain } = node;
+
+  const firstUrl = chain.path[0]?.url || '';
+  const lastItem = chain.path[chain.path.length - 1];
+  const redirectCount = chain.path.filter(item => item.statusObject.isRedirect).length;
+
+  return (
+    <div
+      className={clsx(
+        'rounded-lg border',
+        darkMode ? 'bg-slate-800/50 border-slate-700' : 'bg-white border-slate-200'
+      )}
+    >
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left"
+        title={firstUrl}
+      >
+        {isOpen ? (
+          <ChevronDown className="w-4 h-4 text-slate-400 shrink-0" />
+        ) : (
+          <ChevronRight className="w-4 h-4 text-slate-400 shrink-0" />
+        )}
+        <span
+          className={clsx(
+            'text-[10px] font-mono px-1.5 py-0.5 rounded shrink-0',
+            darkMode ? 'bg-slate-700 text-slate-400' : 'bg-slate-100 text-slate-500'
+          )}
+        >
+          {chrome.i18n.getMessage('frameLabel')} {chain.frameId}
+        </span>
+        <span
+          className={clsx(
+            'text-xs truncate flex-1',
+            darkMode ? 'text-slate-300' : 'text-slate-700'
+          )}
+        >
+          {getHostname(firstUrl)}
+        </span>
+        {redirectCount > 0 && (
+          <span
+            className={clsx(
+              'text-[10px] px-1.5 py-0.5 rounded-full shrink-0',
+              darkMode ? 'bg-amber-900/50 text-amber-300' : 'bg-amber-100 text-amber-700'
+            )}
+          >
+            {redirectCount}{' '}
+            {redirectCount === 1
+              ? chrome.i18n.getMessage('redirectSingle')
+              : chrome.i18n.getMessage('redirectsPlural')}
+          </span>
+        )}
+        {lastItem && (
+          <span
+            className={clsx(
+              'text-xs font-mono font-bold shrink-0',
+              lastItem.statusObject.isSuccess && 'text-green-500',
+              lastItem.statusObject.isRedirect && 'text-amber-500',
+              (lastItem.statusObject.isClientError || lastItem.statusObject.isServerError) &&
+                'text-red-500'
+            )}
+          >
+            {lastItem.status_code}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          className={clsx(
+            'px-3 pb-3 space-y-2 border-t pt-2',
+            darkMode ? 'border-slate-700' : 'border-slate-100'
+          )}
+        >
+          {chain.path.map((item, index) => (
+            <RedirectItemCard
+              key={item.id}
+              item={item}
+              index={index}
+              isLast={index === chain.path.length - 1}
+              isExpanded={expandedId === item.id}
+              onToggle={() => setExpandedId(expandedId === item.id ? null : item.id)}
+              darkMode={darkMode}
+            />
+          ))}
+          {node.children.length > 0 && (
+            <div
+              className={clsx(
+                'pl-3 border-l-2 space-y-2',
+                darkMode ? 'border-slate-700' : 'border-slate-200'
+              )}
+            >
+              {node.children.map(child => (
+                <FrameChainNode key={child.chain.frameId} node={child} darkMode={darkMode} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
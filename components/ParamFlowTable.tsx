@@ -0,0 +1,137 @@
+import clsx from 'clsx';
+import { Table2 } from 'lucide-react';
+import { useMemo } from 'react';
+import { RedirectItem } from '../types/redirect';
+import { ParamCellState, buildParamFlow } from '../utils/param-flow';
+
+interface ParamFlowTableProps {
+  path: RedirectItem[];
+  darkMode?: boolean;
+}
+
+const STATE_STYLES: Record<ParamCellState, { light: string; dark: string; symbol: string }> = {
+  original: { light: 'text-slate-700', dark: 'text-slate-200', symbol: '' },
+  added: {
+    light: 'bg-green-100 text-green-700',
+    dark: 'bg-green-900/40 text-green-300',
+    symbol: '+',
+  },
+  changed: {
+    light: 'bg-amber-100 text-amber-700',
+    dark: 'bg-amber-900/40 text-amber-300',
+    symbol: '~',
+  },
+  removed: { light: 'bg-red-100 text-red-700', dark: 'bg-red-900/40 text-red-300', symbol: '-' },
+  preserved: { light: 'text-slate-500', dark: 'text-slate-400', symbol: '=' },
+  absent: { light: 'text-slate-300', dark: 'text-slate-600', symbol: '' },
+};
+
+const STATE_MESSAGE_KEYS: Record<ParamCellState, string> = {
+  original: 'paramOriginal',
+  added: 'paramAdded',
+  changed: 'paramChanged',
+  removed: 'paramRemoved',
+  preserved: 'paramPreserved',
+  absent: 'paramAbsent',
+};
+
+export default function ParamFlowTable({ path, darkMode = false }: ParamFlowTableProps) {
+  const { columns, rows } = useMemo(() => buildParamFlow(path), [path]);
+  if (rows.length === 0) return null;
+
+  return (
+    <section
+      className={clsx(
+        'rounded-xl p-4 border',
+        darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
+      )}
+    >
+      <h3 className="font-medium mb-3 flex items-center gap-2">
+        <Table2 className="w-4 h-4 text-blue-500" />
+        {chrome.i18n.getMessage('paramFlow')} ({rows.length})
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="text-xs border-collapse">
+          <thead>
+            <tr className={darkMode ? 'text-slate-400' : 'text-slate-500'}>
+              <th className="text-left font-medium pr-3 pb-2">
+                {chrome.i18n.getMessage('paramLabel')}
+              </th>
+              {columns.map((column, idx) => (
+                <th
+                  key={idx}
+                  title={column.url}
+                  className={clsx(
+                    'font-medium px-2 pb-2 text-center',
+                    !column.captured && 'italic'
+                  )}
+                >
+                  #{idx + 1}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr
+                key={row.param}
+                className={clsx('border-t', darkMode ? 'border-slate-700' : 'border-slate-100')}
+              >
+                <td
+                  className={clsx(
+                    'font-mono pr-3 py-1.5 whitespace-nowrap',
+                    row.tracking && 'font-semibold'
+                  )}
+                >
+                  {row.param}
+                </td>
+                {row.cells.map((cell, idx) => {
+                  const style = STATE_STYLES[cell.state];
+                  return (
+                    <td key={idx} className="px-1 py-1 text-center">
+                      <span
+                        title={`${chrome.i18n.getMessage(STATE_MESSAGE_KEYS[cell.state])}${
+                          cell.value != null ? `: ${cell.value}` : ''
+                        }`}
+                        className={clsx(
+                          'inline-block max-w-32 truncate px-1.5 py-0.5 rounded font-mono align-middle',
+                          darkMode ? style.dark : style.light
+                        )}
+                      >
+                        {cell.state === 'absent'
+                          ? '·'
+                          : cell.state === 'removed' || cell.state === 'preserved'
+                            ? style.symbol
+                            : `${style.symbol}${cell.value ?? ''}`}
+                      </span>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div
+        className={clsx(
+          'flex flex-wrap gap-3 mt-3 text-[11px]',
+          darkMode ? 'text-slate-400' : 'text-slate-500'
+        )}
+      >
+        {(['added', 'changed', 'removed', 'preserved'] as const).map(state => (
+          <span key={state} className="flex items-center gap-1">
+            <span
+              className={clsx(
+                'px-1 rounded font-mono',
+                darkMode ? STATE_STYLES[state].dark : STATE_STYLES[state].light
+              )}
+            >
+              {STATE_STYLES[state].symbol}
+            </span>
+            {chrome.i18n.getMessage(STATE_MESSAGE_KEYS[state])}
+          </span>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -6,11 +6,13 @@ import {
   Copy,
   ExternalLink,
   Info,
+  Repeat,
   Shield,
   Zap,
 } from 'lucide-react';
 import { useState } from 'react';
 import { RedirectItem, formatDuration } from '../types/redirect';
+import CategoryChip from './CategoryChip';
 import HeadersList from './HeadersList';
 
 interface RedirectItemCardProps {
@@ -71,6 +73,11 @@ export default function RedirectItemCard({
         ? chrome.i18n.getMessage('hstsRedirect')
         : chrome.i18n.getMessage('temporaryRedirect');
     }
+    if (item.type === 'client_redirect') {
+      return item.redirect_type === 'meta'
+        ? chrome.i18n.getMessage('metaRefreshRedirect')
+        : chrome.i18n.getMessage('javascriptRedirect');
+    }
     return item.status_line;
   };
 
@@ -103,7 +110,8 @@ export default function RedirectItemCard({
       className={clsx(
         'rounded-lg border transition-colors',
         getStatusBgColor(),
-        isExpanded && (darkMode ? 'border-slate-600' : 'border-slate-300')
+        isExpanded && (darkMode ? 'border-slate-600' : 'border-slate-300'),
+        item.in_loop && 'ring-2 ring-red-500/60'
       )}
     >
       <button onClick={onToggle} className="w-full text-left p-3 flex items-start gap-3">
@@ -136,6 +144,19 @@ export default function RedirectItemCard({
             >
               {getStatusLabel()}
             </span>
+            {item.in_loop && (
+              <span
+                className={clsx(
+                  'flex items-center gap-1 text-[10px] font-medium px-1.5 py-0.5 rounded uppercase',
+                  darkMode ? 'bg-red-900/50 text-red-300' : 'bg-red-100 text-red-700'
+                )}
+                title={chrome.i18n.getMessage('redirectLoopHint')}
+              >
+                <Repeat className="w-3 h-3" />
+                {chrome.i18n.getMessage('redirectLoop')}
+              </span>
+            )}
+            {item.category && <CategoryChip category={item.category} darkMode={darkMode} />}
             <span className="flex-1" />
             <span
               className={clsx(
@@ -264,6 +285,36 @@ export default function RedirectItemCard({
               <strong>{chrome.i18n.getMessage('hstsRedirect')}:</strong> {chrome.i18n.getMessage('hstsRedirectDesc')}
             </div>
           )}
+
+          {item.type === 'client_redirect' && (
+            <div
+              className={clsx(
+                'mt-3 p-2 rounded text-xs space-y-1',
+                darkMode
+                  ? 'bg-orange-900/30 border border-orange-800 text-orange-300'
+                  : 'bg-orange-50 border border-orange-200 text-orange-700'
+              )}
+            >
+              {item.redirect_url && (
+                <p className="break-all">
+                  <ArrowRight className="w-3 h-3 inline mr-1" />
+                  {item.redirect_url}
+                </p>
+              )}
+              {item.redirect_delay != null && (
+                <p>
+                  <strong>{chrome.i18n.getMessage('clientRedirectDelay')}:</strong>{' '}
+                  {formatDuration(item.redirect_delay)}
+                </p>
+              )}
+              {item.redirect_source && (
+                <p>
+                  <strong>{chrome.i18n.getMessage('clientRedirectSource')}:</strong>{' '}
+                  <code className="break-all">{item.redirect_source}</code>
+                </p>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -2,19 +2,22 @@ import clsx from 'clsx';
 import { Clock } from 'lucide-react';
 import { Fragment, useState } from 'react';
 import {
+  FrameRedirectChain,
   RedirectItem,
   calculateGapDuration,
   calculateTotalDuration,
   formatDuration,
 } from '../types/redirect';
+import FrameChains from './FrameChains';
 import RedirectItemCard from './RedirectItemCard';
 
 interface RedirectPathProps {
   items: RedirectItem[];
+  frames?: Record<number, FrameRedirectChain>;
   darkMode?: boolean;
 }
 
-export default function RedirectPath({ items, darkMode = false }: RedirectPathProps) {
+export default function RedirectPath({ items, frames, darkMode = false }: RedirectPathProps) {
   const [expandedId, setExpandedId] = useState<string | null>(null);
 
   const handleToggle = (id: string) => {
@@ -32,11 +35,13 @@ export default function RedirectPath({ items, darkMode = false }: RedirectPathPr
             darkMode ? 'text-slate-400' : 'text-slate-500'
           }`}
         >
-          Redirect Path ({items.length} {items.length === 1 ? 'step' : 'steps'})
+          {`${chrome.i18n.getMessage('redirectPath')} (${items.length} ${chrome.i18n.getMessage(
+            items.length === 1 ? 'stepSingle' : 'stepsLabel'
+          )})`}
         </span>
         {totalTime > 0 && (
           <span className={`text-xs ${darkMode ? 'text-slate-500' : 'text-slate-400'}`}>
-            Total Request Time: {formatDuration(totalTime)}
+            {chrome.i18n.getMessage('totalRequestTime')}: {formatDuration(totalTime)}
           </span>
         )}
       </div>
@@ -86,6 +91,12 @@ export default function RedirectPath({ items, darkMode = false }: RedirectPathPr
           })}
         </div>
       </div>
+
+      {frames && Object.keys(frames).length > 0 && (
+        <div className="pt-3">
+          <FrameChains frames={frames} darkMode={darkMode} />
+        </div>
+      )}
     </div>
   );
 }
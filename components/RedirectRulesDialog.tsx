@@ -0,0 +1,152 @@
+import clsx from 'clsx';
+import { ArrowRight, Check, Copy, Wrench, X } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import {
+  DirectRedirect,
+  REDIRECT_RULE_FORMATS,
+  RedirectRuleFormat,
+  generateRedirectRules,
+} from '../utils/redirect-rules';
+
+interface RedirectRulesDialogProps {
+  redirects: DirectRedirect[];
+  darkMode?: boolean;
+  onClose: () => void;
+}
+
+export default function RedirectRulesDialog({
+  redirects,
+  darkMode = false,
+  onClose,
+}: RedirectRulesDialogProps) {
+  const [activeFormat, setActiveFormat] = useState<RedirectRuleFormat>('nginx');
+  const [copied, setCopied] = useState(false);
+  const rules = useMemo(
+    () => generateRedirectRules(redirects, activeFormat),
+    [redirects, activeFormat]
+  );
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(rules);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-3"
+      onClick={onClose}
+    >
+      <div
+        onClick={e => e.stopPropagation()}
+        className={clsx(
+          'w-full max-w-2xl max-h-full flex flex-col rounded-xl border shadow-xl',
+          darkMode ? 'bg-slate-800 border-slate-700 text-slate-100' : 'bg-white border-slate-200'
+        )}
+      >
+        <div
+          className={clsx(
+            'shrink-0 flex items-center gap-2 px-4 py-3 border-b',
+            darkMode ? 'border-slate-700' : 'border-slate-200'
+          )}
+        >
+          <Wrench className="w-4 h-4 text-blue-500" />
+          <h3 className="font-medium mr-auto">{chrome.i18n.getMessage('generateFix')}</h3>
+          <button
+            onClick={onClose}
+            className={clsx(
+              'p-1 rounded-md transition-colors',
+              darkMode ? 'hover:bg-slate-700' : 'hover:bg-slate-100'
+            )}
+            title={chrome.i18n.getMessage('close')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {redirects.length === 0 ? (
+          <p
+            className={clsx(
+              'px-4 py-6 text-sm text-center',
+              darkMode ? 'text-slate-400' : 'text-slate-500'
+            )}
+          >
+            {chrome.i18n.getMessage('noRedirectsToCollapse')}
+          </p>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col gap-3 p-4">
+            <p className={clsx('text-xs', darkMode ? 'text-slate-400' : 'text-slate-500')}>
+              {chrome.i18n.getMessage('generateFixDesc')}
+            </p>
+            {redirects.length === 1 ? (
+              <div className="text-xs font-mono flex items-center gap-2 min-w-0">
+                <span className="truncate" title={redirects[0].sourceUrl}>
+                  {redirects[0].sourceUrl}
+                </span>
+                <ArrowRight className="w-3.5 h-3.5 shrink-0 text-green-500" />
+                <span className="truncate" title={redirects[0].targetUrl}>
+                  {redirects[0].targetUrl}
+                </span>
+              </div>
+            ) : (
+              <p className="text-xs">
+                {chrome.i18n.getMessage('redirectRulesCount')}: {redirects.length}
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-1">
+              {REDIRECT_RULE_FORMATS.map(format => (
+                <button
+                  key={format.id}
+                  onClick={() => {
+                    setActiveFormat(format.id);
+                    setCopied(false);
+                  }}
+                  className={clsx(
+                    'px-2.5 py-1 rounded-md text-xs font-medium transition-colors',
+                    activeFormat === format.id
+                      ? 'bg-blue-500 text-white'
+                      : darkMode
+                        ? 'bg-slate-700 hover:bg-slate-600'
+                        : 'bg-slate-100 hover:bg-slate-200'
+                  )}
+                >
+                  {format.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="relative flex-1 min-h-0">
+              <pre
+                className={clsx(
+                  'h-full max-h-80 overflow-auto rounded-lg p-3 text-xs font-mono whitespace-pre',
+                  darkMode ? 'bg-slate-900 text-slate-200' : 'bg-slate-50 text-slate-800'
+                )}
+              >
+                {rules}
+              </pre>
+              <button
+                onClick={handleCopy}
+                className={clsx(
+                  'absolute top-2 right-2 flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium transition-all',
+                  copied
+                    ? 'bg-green-100 text-green-700'
+                    : darkMode
+                      ? 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                      : 'bg-white text-slate-700 hover:bg-slate-100 border border-slate-200'
+                )}
+              >
+                {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+                {copied ? chrome.i18n.getMessage('copied') : chrome.i18n.getMessage('copyRules')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
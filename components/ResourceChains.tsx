@@ -0,0 +1,165 @@
+import clsx from 'clsx';
+import { ChevronDown, ChevronRight, Network } from 'lucide-react';
+import { useState } from 'react';
+import {
+  ChainScore,
+  ResourceRedirectChain,
+  ScoringProfile,
+  calculateChainScore,
+} from '../types/redirect';
+import RedirectItemCard from './RedirectItemCard';
+
+interface ResourceChainsProps {
+  chains: ResourceRedirectChain[];
+  showScore?: boolean;
+  scoringProfile?: ScoringProfile;
+  darkMode?: boolean;
+}
+
+const GRADE_COLORS: Record<ChainScore['grade'], string> = {
+  A: 'bg-green-500 text-white',
+  B: 'bg-lime-500 text-slate-900',
+  C: 'bg-yellow-500 text-slate-900',
+  D: 'bg-orange-500 text-white',
+  F: 'bg-red-500 text-white',
+};
+
+export default function ResourceChains({
+  chains,
+  showScore = true,
+  scoringProfile,
+  darkMode = false,
+}: ResourceChainsProps) {
+  if (chains.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <span
+        className={clsx(
+          'text-xs font-medium uppercase tracking-wide flex items-center gap-1.5',
+          darkMode ? 'text-slate-400' : 'text-slate-500'
+        )}
+      >
+        <Network className="w-3.5 h-3.5" />
+        {chrome.i18n.getMessage('resourceRedirects')} ({chains.length})
+      </span>
+      {chains.map(chain => (
+        <ResourceChainRow
+          key={chain.requestId}
+          chain={chain}
+          showScore={showScore}
+          scoringProfile={scoringProfile}
+          darkMode={darkMode}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ResourceChainRow({
+  chain,
+  showScore,
+  scoringProfile,
+  darkMode,
+}: {
+  chain: ResourceRedirectChain;
+  showScore: boolean;
+  scoringProfile?: ScoringProfile;
+  darkMode: boolean;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const score = calculateChainScore(chain.path, scoringProfile);
+  const firstUrl = chain.path[0]?.url || '';
+  const lastItem = chain.path[chain.path.length - 1];
+
+  return (
+    <div
+      className={clsx(
+        'rounded-lg border',
+        darkMode ? 'bg-slate-800/50 border-slate-700' : 'bg-white border-slate-200'
+      )}
+    >
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left"
+        title={firstUrl}
+      >
+        {isOpen ? (
+          <ChevronDown className="w-4 h-4 text-slate-400 shrink-0" />
+        ) : (
+          <ChevronRight className="w-4 h-4 text-slate-400 shrink-0" />
+        )}
+        {showScore && (
+          <span
+            className={clsx(
+              'font-bold px-1.5 py-0.5 rounded text-[10px] shrink-0',
+              GRADE_COLORS[score.grade]
+            )}
+          >
+            {score.grade}
+          </span>
+        )}
+        <span
+          className={clsx(
+            'text-[10px] font-mono px-1.5 py-0.5 rounded shrink-0',
+            darkMode ? 'bg-slate-700 text-slate-400' : 'bg-slate-100 text-slate-500'
+          )}
+        >
+          {chain.resourceType}
+        </span>
+        <span
+          className={clsx(
+            'text-xs font-mono truncate flex-1',
+            darkMode ? 'text-slate-300' : 'text-slate-700'
+          )}
+        >
+          {firstUrl}
+        </span>
+        <span
+          className={clsx('text-[10px] shrink-0', darkMode ? 'text-slate-500' : 'text-slate-400')}
+        >
+          {chain.path.length}{' '}
+          {chain.path.length === 1
+            ? chrome.i18n.getMessage('hopSingle')
+            : chrome.i18n.getMessage('hopsPlural')}
+        </span>
+        {lastItem && (
+          <span
+            className={clsx(
+              'text-xs font-mono font-bold shrink-0',
+              lastItem.statusObject.isSuccess && 'text-green-500',
+              lastItem.statusObject.isRedirect && 'text-amber-500',
+              (lastItem.statusObject.isClientError || lastItem.statusObject.isServerError) &&
+                'text-red-500'
+            )}
+          >
+            {lastItem.status_code}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          className={clsx(
+            'px-3 pb-3 space-y-2 border-t pt-2',
+            darkMode ? 'border-slate-700' : 'border-slate-100'
+          )}
+        >
+          {chain.path.map((item, index) => (
+            <RedirectItemCard
+              key={item.id}
+              item={item}
+              index={index}
+              isLast={index === chain.path.length - 1}
+              isExpanded={expandedId === item.id}
+              onToggle={() => setExpandedId(expandedId === item.id ? null : item.id)}
+              darkMode={darkMode}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import clsx from 'clsx';
+import { AlertTriangle, ArrowRight, Crosshair, Loader2 } from 'lucide-react';
+import { FormEvent, useState } from 'react';
+import { ChainScore, HistoryEntry } from '../types/redirect';
+import { getTraceErrorMessage } from '../utils/url-tracer';
+
+interface TraceUrlFormProps {
+  darkMode?: boolean;
+  onTraced?: (entry: HistoryEntry) => void;
+  onOpenEntry?: (entry: HistoryEntry) => void;
+}
+
+const GRADE_COLORS: Record<ChainScore['grade'], string> = {
+  A: 'bg-green-500 text-white',
+  B: 'bg-lime-500 text-slate-900',
+  C: 'bg-yellow-500 text-slate-900',
+  D: 'bg-orange-500 text-white',
+  F: 'bg-red-500 text-white',
+};
+
+export default function TraceUrlForm({
+  darkMode = false,
+  onTraced,
+  onOpenEntry,
+}: TraceUrlFormProps) {
+  const [url, setUrl] = useState('');
+  const [tracing, setTracing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<HistoryEntry | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (tracing || !url.trim()) return;
+
+    setTracing(true);
+    setError(null);
+    setResult(null);
+    try {
+      const response = await chrome.runtime.sendMessage({ name: 'traceUrl', url });
+      if (response?.entry) {
+        setResult(response.entry);
+        onTraced?.(response.entry);
+      }
+      if (response?.error) {
+        setError(getTraceErrorMessage(response.error));
+      }
+    } catch (err) {
+      console.error('[RedirectWise] Error tracing URL:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setTracing(false);
+    }
+  };
+
+  return (
+    <div>
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={url}
+          onChange={e => setUrl(e.target.value)}
+          placeholder={chrome.i18n.getMessage('traceUrlPlaceholder')}
+          disabled={tracing}
+          className={clsx(
+            'flex-1 min-w-0 px-3 py-1.5 rounded-lg border text-xs font-mono transition-colors',
+            darkMode
+              ? 'bg-slate-700 border-slate-600 focus:border-blue-500'
+              : 'bg-slate-50 border-slate-200 focus:border-blue-500'
+          )}
+        />
+        <button
+          type="submit"
+          disabled={tracing || !url.trim()}
+          className={clsx(
+            'flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors shrink-0',
+            tracing
+              ? 'bg-blue-100 text-blue-700 cursor-wait'
+              : 'bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50'
+          )}
+        >
+          {tracing ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          ) : (
+            <Crosshair className="w-3.5 h-3.5" />
+          )}
+          {tracing ? chrome.i18n.getMessage('tracingUrl') : chrome.i18n.getMessage('traceUrl')}
+        </button>
+      </form>
+
+      {error && (
+        <div
+          className={clsx(
+            'mt-2 flex items-center gap-2 text-[11px]',
+            darkMode ? 'text-red-300' : 'text-red-600'
+          )}
+        >
+          <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+          <code className="break-all">{error}</code>
+        </div>
+      )}
+
+      {result && (
+        <button
+          onClick={() => onOpenEntry?.(result)}
+          disabled={!onOpenEntry}
+          className={clsx(
+            'mt-2 w-full flex items-center gap-2 px-2 py-1.5 rounded-lg border text-left text-xs',
+            darkMode ? 'border-slate-700 bg-slate-800/50' : 'border-slate-200 bg-white',
+            onOpenEntry && (darkMode ? 'hover:bg-slate-700' : 'hover:bg-slate-50')
+          )}
+          title={onOpenEntry ? chrome.i18n.getMessage('headerOpenDashboard') : undefined}
+        >
+          <span
+            className={clsx(
+              'font-bold px-1.5 py-0.5 rounded text-[10px] shrink-0',
+              GRADE_COLORS[result.chainScore.grade]
+            )}
+          >
+            {result.chainScore.grade}
+          </span>
+          <span className={clsx('shrink-0', darkMode ? 'text-slate-400' : 'text-slate-500')}>
+            {result.redirectCount}{' '}
+            {result.redirectCount === 1
+              ? chrome.i18n.getMessage('hopSingle')
+              : chrome.i18n.getMessage('hopsPlural')}
+          </span>
+          <ArrowRight className="w-3 h-3 text-slate-400 shrink-0" />
+          <span
+            className={clsx(
+              'font-mono truncate flex-1',
+              darkMode ? 'text-slate-300' : 'text-slate-700'
+            )}
+          >
+            {result.finalUrl}
+          </span>
+          <span className={clsx('shrink-0', darkMode ? 'text-slate-500' : 'text-slate-400')}>
+            {chrome.i18n.getMessage('traceSaved')}
+          </span>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,47 @@
 import {
+  ClientRedirectHint,
   RedirectHeader,
   RedirectItem,
   RedirectTiming,
+  TRACKABLE_RESOURCE_TYPES,
   TabRedirectPath,
+  MAX_REDIRECT_HOPS,
+  TrackableResourceType,
+  calculateGapDuration,
   generateId,
+  getCurrentChainStart,
+  getDomainCategory,
   getStatusObject,
+  markRedirectLoop,
 } from '../types/redirect';
-import { getSettings, saveHistoryEntry } from '../utils/storage';
+import {
+  BATCH_RUNNER_ALARM,
+  createBatchJob,
+  deleteBatchJob,
+  runBatchJobs,
+  setBatchJobStatus,
+} from '../utils/batch-runner';
+import { CaptureAction, getChainCaptureAction } from '../utils/capture-rules';
+import { RETENTION_ALARM, applyRetentionPolicy, scheduleRetention } from '../utils/retention';
+import {
+  Settings,
+  getHistoryEntry,
+  getSettings,
+  migrateIssueParams,
+  onSettingsChanged,
+  saveHistoryEntry,
+} from '../utils/storage';
+import {
+  URL_MONITOR_ALARM,
+  WATCH_NOTIFICATION_PREFIX,
+  markWatchDue,
+  runDueWatches,
+  scheduleUrlMonitor,
+  setWatchSchedule,
+  unwatchUrl,
+  watchUrl,
+} from '../utils/url-monitor';
+import { normalizeTraceUrl, traceError, traceUrl } from '../utils/url-tracer';
 
 // Store redirect paths for each tab
 const tabPaths: Map<number, TabRedirectPath> = new Map();
@@ -37,6 +72,28 @@ interface PendingRequest {
 
 const requestMetadata: Map<string, PendingRequest> = new Map();
 
+// Upper bound of iframe chains kept per tab (ad-heavy pages can embed dozens)
+const MAX_FRAME_CHAINS = 50;
+
+// Upper bound of redirecting sub-resource chains kept per tab, oldest are dropped first
+const MAX_RESOURCE_CHAINS = 200;
+
+// Cached settings for the webRequest listeners
+let settings: Settings | null = null;
+let settingsPromise: Promise<Settings> | null = null;
+
+// Meta refresh / inline script candidates reported by the content script, per tab
+const clientRedirectHints: Map<number, ClientRedirectHint[]> = new Map();
+
+// Hidden tabs opened by the URL tracer; their chains are returned to the caller, not auto-saved
+const traceTabIds: Set<number> = new Set();
+
+// Incognito tabs, known up front so the synchronous webRequest listeners can skip them
+const incognitoTabIds: Set<number> = new Set();
+
+// How long a traced page may sit after load before we assume no client-side redirect follows
+const TRACE_SETTLE_MS = 1500;
+
 // Cleanup stale request timings older than 60 seconds
 const TIMING_CLEANUP_INTERVAL = 60000;
 const TIMING_MAX_AGE = 60000;
@@ -111,12 +168,16 @@ async function clearTabPath(tabId: number): Promise<void> {
   saveTabPathToSession(tabId, newPath);
 }
 
-async function addRedirectItem(
-  tabId: number,
-  item: Partial<RedirectItem> & { timing?: Partial<RedirectTiming> },
-  options?: { requestId?: string; eventTime?: number }
-): Promise<RedirectItem> {
-  const tabPath = await getOrCreateTabPath(tabId);
+type RedirectItemInput = Omit<Partial<RedirectItem>, 'timing'> & {
+  timing?: Partial<RedirectTiming>;
+};
+
+interface RedirectItemOptions {
+  requestId?: string;
+  eventTime?: number;
+}
+
+function buildRedirectItem(item: RedirectItemInput, options?: RedirectItemOptions): RedirectItem {
   const metadata = options?.requestId ? requestMetadata.get(options.requestId) : undefined;
   const rawStartTime = item.timing?.startTime ?? metadata?.startTime ?? options?.eventTime ?? Date.now();
   const rawEndTime = item.timing?.endTime ?? options?.eventTime ?? Date.now();
@@ -124,7 +185,7 @@ async function addRedirectItem(
   const endTime = Math.max(startTime, Math.round(rawEndTime));
   const duration = Math.max(0, Math.round(item.timing?.duration ?? endTime - startTime));
 
-  const fullItem: RedirectItem = {
+  return {
     id: generateId(),
     url: item.url || '',
     status_code: item.status_code || 0,
@@ -133,6 +194,7 @@ async function addRedirectItem(
     type: item.type || 'navigation',
     redirect_type: item.redirect_type,
     redirect_url: item.redirect_url,
+    category: getDomainCategory(item.url || '', settings?.domainRegistry),
     headers: item.headers || [],
     timestamp: endTime,
     timing: {
@@ -142,17 +204,51 @@ async function addRedirectItem(
     },
     statusObject: getStatusObject(item.status_code || 0),
   };
+}
 
-  tabPath.path.push(fullItem);
+// Remember which item a request produced so later events (IP, errors) can find it
+function linkRequestToItem(requestId: string | undefined, itemId: string): void {
+  if (!requestId) return;
+  const pendingRequest = requestMetadata.get(requestId);
+  if (pendingRequest) {
+    pendingRequest.itemId = itemId;
+    requestMetadata.set(requestId, pendingRequest);
+  }
+}
+
+// Tell open views which hops form the loop so they can highlight the segment
+function flagRedirectLoop(tabId: number, tabPath: TabRedirectPath): void {
+  broadcastMessage({
+    name: 'redirectLoop',
+    tabId,
+    path: tabPath.path,
+  });
+  console.log('[RedirectWise] Redirect loop detected in tab:', tabId);
+}
+
+async function addRedirectItem(
+  tabId: number,
+  item: RedirectItemInput,
+  options?: RedirectItemOptions
+): Promise<RedirectItem> {
+  const tabPath = await getOrCreateTabPath(tabId);
+  const fullItem = buildRedirectItem(item, options);
 
-  if (options?.requestId) {
-    const pendingRequest = requestMetadata.get(options.requestId);
-    if (pendingRequest) {
-      pendingRequest.itemId = fullItem.id;
-      requestMetadata.set(options.requestId, pendingRequest);
+  // A chain that keeps going past the browser's own limit is looping (client-side loops never stop)
+  const chainLength = tabPath.path.length - getCurrentChainStart([...tabPath.path, fullItem]);
+  if (chainLength > MAX_REDIRECT_HOPS) {
+    if (!tabPath.path[tabPath.path.length - 1]?.in_loop) {
+      markRedirectLoop(tabPath.path, true);
+      flagRedirectLoop(tabId, tabPath);
+      saveTabPathToSession(tabId, tabPath);
     }
+    return fullItem;
   }
 
+  tabPath.path.push(fullItem);
+  linkRequestToItem(options?.requestId, fullItem.id);
+  const isLoop = markRedirectLoop(tabPath.path);
+
   // Broadcast realtime update to sidepanel
   broadcastMessage({
     name: 'redirectUpdate',
@@ -160,12 +256,207 @@ async function addRedirectItem(
     item: fullItem,
     url: tabPath.path[0]?.url,
   });
+  if (isLoop) flagRedirectLoop(tabId, tabPath);
 
   console.log('[RedirectWise] Added redirect item:', fullItem);
   saveTabPathToSession(tabId, tabPath);
   return fullItem;
 }
 
+// Append a hop to the chain of an iframe, starting a fresh chain when the frame navigates again
+async function addFrameRedirectItem(
+  tabId: number,
+  frame: { frameId: number; parentFrameId: number; requestId: string },
+  item: RedirectItemInput,
+  options?: RedirectItemOptions
+): Promise<RedirectItem> {
+  const tabPath = await getOrCreateTabPath(tabId);
+  const frames = (tabPath.frames ??= {});
+  const fullItem = buildRedirectItem(item, options);
+
+  let chain = frames[frame.frameId];
+  if (!chain || chain.requestId !== frame.requestId) {
+    if (!chain && Object.keys(frames).length >= MAX_FRAME_CHAINS) return fullItem;
+    chain = {
+      frameId: frame.frameId,
+      parentFrameId: frame.parentFrameId,
+      requestId: frame.requestId,
+      path: [],
+      startTime: fullItem.timing?.startTime ?? Date.now(),
+    };
+    frames[frame.frameId] = chain;
+  }
+
+  chain.path.push(fullItem);
+  linkRequestToItem(options?.requestId, fullItem.id);
+
+  broadcastMessage({
+    name: 'frameRedirectUpdate',
+    tabId,
+    frame: chain,
+  });
+
+  console.log('[RedirectWise] Added frame redirect item:', frame.frameId, fullItem);
+  saveTabPathToSession(tabId, tabPath);
+  return fullItem;
+}
+
+// Record a sub-resource hop; only chains that pass through a 3xx are kept
+async function addResourceRedirectItem(
+  tabId: number,
+  resource: { requestId: string; resourceType: TrackableResourceType },
+  item: RedirectItemInput,
+  options?: RedirectItemOptions
+): Promise<RedirectItem | null> {
+  const isRedirect = item.type === 'server_redirect';
+  const tabPath = await getOrCreateTabPath(tabId);
+  const resources = (tabPath.resources ??= []);
+
+  let chain = resources.find(existing => existing.requestId === resource.requestId);
+  if (!chain && !isRedirect) return null;
+
+  const fullItem = buildRedirectItem(item, options);
+  if (!chain) {
+    chain = {
+      requestId: resource.requestId,
+      resourceType: resource.resourceType,
+      path: [],
+      startTime: fullItem.timing?.startTime ?? Date.now(),
+    };
+    resources.push(chain);
+    if (resources.length > MAX_RESOURCE_CHAINS) {
+      resources.splice(0, resources.length - MAX_RESOURCE_CHAINS);
+    }
+  }
+
+  chain.path.push(fullItem);
+  linkRequestToItem(options?.requestId, fullItem.id);
+
+  broadcastMessage({
+    name: 'resourceRedirectUpdate',
+    tabId,
+    chain,
+  });
+
+  saveTabPathToSession(tabId, tabPath);
+  return fullItem;
+}
+
+// Find an item in the main chain or any of the frame chains
+function findTabPathItem(tabPath: TabRedirectPath, itemId: string): RedirectItem | undefined {
+  const item = tabPath.path.find(pathItem => pathItem.id === itemId);
+  if (item) return item;
+
+  const chains = [...Object.values(tabPath.frames ?? {}), ...(tabPath.resources ?? [])];
+  for (const chain of chains) {
+    const chainItem = chain.path.find(pathItem => pathItem.id === itemId);
+    if (chainItem) return chainItem;
+  }
+  return undefined;
+}
+
+function isTrackedResourceType(type: string): type is TrackableResourceType {
+  return (
+    (TRACKABLE_RESOURCE_TYPES as readonly string[]).includes(type) &&
+    !!settings?.trackedResourceTypes.includes(type as TrackableResourceType)
+  );
+}
+
+// A woken service worker gets events before the settings load; waiting keeps a pause or rule from being skipped
+function loadSettings(): Promise<Settings> {
+  if (settings) return Promise.resolve(settings);
+  // A change that arrived while loading is newer than what was read
+  settingsPromise ??= getSettings().then(loaded => (settings ??= loaded));
+  return settingsPromise;
+}
+
+// Pause, incognito and the per-site rules; trace tabs are always recorded but never auto-saved
+async function getTabCaptureAction(tabId: number, urls: string[]): Promise<CaptureAction> {
+  if (traceTabIds.has(tabId)) return 'capture';
+  const current = await loadSettings();
+  if (current.capturePaused) return 'ignore';
+  if (incognitoTabIds.has(tabId) && !current.captureIncognito) return 'ignore';
+  return getChainCaptureAction(urls, current.captureRules, current.captureDefaultAction);
+}
+
+// Auto-save only paths whose every saved hop, and the page they ended on, may be saved
+async function shouldAutoSave(
+  tabId: number,
+  path: RedirectItem[],
+  finalUrl?: string
+): Promise<boolean> {
+  const current = await loadSettings();
+  if (!current.autoSaveHistory || path.length === 0) return false;
+  // The whole tab path is saved, earlier page loads included, so every hop in it is checked
+  const urls = path.map(item => item.url);
+  return (await getTabCaptureAction(tabId, finalUrl ? [...urls, finalUrl] : urls)) === 'save';
+}
+
+// Sub-frame and sub-resource requests are only captured when the user opted in
+async function isTrackedRequest(details: {
+  type: string;
+  tabId: number;
+  url: string;
+}): Promise<boolean> {
+  if ((await getTabCaptureAction(details.tabId, [details.url])) === 'ignore') return false;
+  if (details.type === 'main_frame') return true;
+  if (details.tabId < 0) return false;
+  if (details.type === 'sub_frame') return !!settings?.trackSubFrames;
+  return isTrackedResourceType(details.type);
+}
+
+function stripHash(url: string): string {
+  const hashIndex = url.indexOf('#');
+  return hashIndex === -1 ? url : url.substring(0, hashIndex);
+}
+
+// Prefer the hint whose target matches where the page actually went
+function pickClientRedirectHint(
+  hints: ClientRedirectHint[],
+  sourceUrl: string,
+  targetUrl: string
+): ClientRedirectHint | undefined {
+  const candidates = hints.filter(hint => stripHash(hint.url) === stripHash(sourceUrl));
+  return (
+    candidates.find(hint => hint.targetUrl && stripHash(hint.targetUrl) === stripHash(targetUrl)) ??
+    candidates.find(hint => hint.kind === 'javascript') ??
+    candidates[0]
+  );
+}
+
+// Turn the previously committed document into a client redirect hop
+function markClientRedirect(
+  tabPath: TabRedirectPath,
+  hints: ClientRedirectHint[],
+  committedUrl: string
+): void {
+  const index = tabPath.path.findIndex(item => item.id === tabPath.committedItemId);
+  if (index === -1) return;
+
+  const item = tabPath.path[index];
+  if (item.type === 'client_redirect') return;
+
+  const nextItem = tabPath.path[index + 1];
+  const targetUrl = nextItem?.url || committedUrl;
+  const hint = pickClientRedirectHint(hints, item.url, targetUrl);
+
+  item.type = 'client_redirect';
+  item.redirect_type = hint?.kind ?? 'javascript';
+  item.redirect_url = targetUrl;
+  item.redirect_source = hint?.source;
+  // Meta refresh declares its delay, for scripts we measure until the next request started
+  item.redirect_delay =
+    hint?.kind === 'meta' ? hint.delay : (calculateGapDuration(item, nextItem) ?? undefined);
+
+  broadcastMessage({
+    name: 'redirectItemUpdate',
+    tabId: tabPath.tabId,
+    item,
+  });
+
+  console.log('[RedirectWise] Marked client redirect:', item.url, '->', targetUrl);
+}
+
 // Parse headers from Chrome's format
 function parseHeaders(headers: chrome.webRequest.HttpHeader[]): RedirectHeader[] {
   return headers.map(h => ({
@@ -202,6 +493,94 @@ function getLocationHeader(headers: RedirectHeader[]): string | undefined {
   return location?.value;
 }
 
+// Load the URL in an inactive tab and let the regular webRequest listeners record the chain
+async function traceInHiddenTab(url: string, timeoutMs: number): Promise<RedirectItem[]> {
+  let tabId: number | undefined;
+  let claimedTabId: number | undefined;
+  // Navigation events that arrive before tabs.create resolves, replayed once the tab id is known
+  const bufferedEvents: (() => void)[] = [];
+  let settleTimer: ReturnType<typeof setTimeout> | undefined;
+  let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+  let settle: () => void = () => {};
+  let fail: (error: Error) => void = () => {};
+  const settled = new Promise<void>((resolve, reject) => {
+    settle = resolve;
+    fail = reject;
+  });
+
+  // Mark the tab as a trace before its first request so it is never auto-saved as browsing
+  const handleCreated = (tab: chrome.tabs.Tab) => {
+    if (tabId == null && tab.id != null && !tab.active && (tab.pendingUrl || tab.url) === url) {
+      claimedTabId = tab.id;
+      traceTabIds.add(tab.id);
+    }
+  };
+
+  // Wait a little after each load so meta refresh / JavaScript hops are captured too;
+  // failed loads (e.g. ERR_TOO_MANY_REDIRECTS) end the chain the same way
+  const handleCompleted = (details: chrome.webNavigation.WebNavigationFramedCallbackDetails) => {
+    if (tabId == null) {
+      bufferedEvents.push(() => handleCompleted(details));
+      return;
+    }
+    if (details.tabId !== tabId || details.frameId !== 0) return;
+    clearTimeout(settleTimer);
+    settleTimer = setTimeout(settle, TRACE_SETTLE_MS);
+  };
+
+  const handleBeforeNavigate = (
+    details: chrome.webNavigation.WebNavigationParentedCallbackDetails
+  ) => {
+    if (tabId == null) {
+      bufferedEvents.push(() => handleBeforeNavigate(details));
+      return;
+    }
+    if (details.tabId === tabId && details.frameId === 0) clearTimeout(settleTimer);
+  };
+
+  chrome.tabs.onCreated.addListener(handleCreated);
+  chrome.webNavigation.onCompleted.addListener(handleCompleted);
+  chrome.webNavigation.onErrorOccurred.addListener(handleCompleted);
+  chrome.webNavigation.onBeforeNavigate.addListener(handleBeforeNavigate);
+
+  try {
+    const tab = await chrome.tabs.create({ url, active: false });
+    chrome.tabs.onCreated.removeListener(handleCreated);
+    if (tab.id == null) throw new Error(traceError('tabFailed'));
+    tabId = tab.id;
+    traceTabIds.add(tabId);
+    bufferedEvents.splice(0).forEach(replay => replay());
+
+    timeoutTimer = setTimeout(() => fail(new Error(traceError('timeout', timeoutMs))), timeoutMs);
+    await settled;
+
+    return [...(tabPaths.get(tabId)?.path ?? [])];
+  } finally {
+    clearTimeout(timeoutTimer);
+    clearTimeout(settleTimer);
+    chrome.tabs.onCreated.removeListener(handleCreated);
+    chrome.webNavigation.onCompleted.removeListener(handleCompleted);
+    chrome.webNavigation.onErrorOccurred.removeListener(handleCompleted);
+    chrome.webNavigation.onBeforeNavigate.removeListener(handleBeforeNavigate);
+    if (claimedTabId != null) traceTabIds.delete(claimedTabId);
+    if (tabId != null) {
+      traceTabIds.delete(tabId);
+      chrome.tabs.remove(tabId).catch(() => {
+        // Tab may already be closed
+      });
+    }
+  }
+}
+
+// Bulk checks use the same tracer as the popup, including the hidden tab fallback
+function traceBatchUrl(url: string, timeoutMs: number) {
+  return traceUrl(url, {
+    timeoutMs,
+    fallback: traceInHiddenTab,
+    domainRegistry: settings?.domainRegistry,
+  });
+}
+
 export default defineBackground(() => {
   console.log('[RedirectWise] Background script initialized');
 
@@ -221,6 +600,43 @@ export default defineBackground(() => {
     isStorageInitialized = true;
   })();
 
+  void loadSettings();
+  onSettingsChanged(updated => {
+    settings = updated;
+  });
+
+  chrome.tabs.query({}).then(tabs => {
+    tabs.forEach(tab => {
+      if (tab.incognito && tab.id != null) incognitoTabIds.add(tab.id);
+    });
+  });
+  chrome.tabs.onCreated.addListener(tab => {
+    if (tab.incognito && tab.id != null) incognitoTabIds.add(tab.id);
+  });
+
+  // Resume bulk checks that were running when the service worker stopped
+  void runBatchJobs(traceBatchUrl);
+  chrome.alarms.onAlarm.addListener(alarm => {
+    if (alarm.name === BATCH_RUNNER_ALARM) void runBatchJobs(traceBatchUrl);
+    if (alarm.name === RETENTION_ALARM) void applyRetentionPolicy();
+    if (alarm.name === URL_MONITOR_ALARM) void runDueWatches(traceBatchUrl);
+  });
+
+  // Prune history by the retention settings every hour, and once per browser start or install/update
+  // rather than on every service worker wake
+  void scheduleRetention();
+  chrome.runtime.onStartup.addListener(() => void applyRetentionPolicy());
+  chrome.runtime.onInstalled.addListener(() => void applyRetentionPolicy());
+
+  // Re-check watched URLs that came due while the service worker was stopped
+  void scheduleUrlMonitor();
+  void runDueWatches(traceBatchUrl);
+  chrome.notifications.onClicked.addListener(notificationId => {
+    if (!notificationId.startsWith(WATCH_NOTIFICATION_PREFIX)) return;
+    chrome.tabs.create({ url: chrome.runtime.getURL('/dashboard.html#watched') });
+    chrome.notifications.clear(notificationId);
+  });
+
   // Set uninstall feedback URL
   if (chrome.runtime.setUninstallURL) {
     chrome.runtime.setUninstallURL('https://redirectwise.gauravlabs.com/uninstall.html');
@@ -231,6 +647,7 @@ export default defineBackground(() => {
     if (details.reason === 'install') {
       chrome.tabs.create({ url: 'https://redirectwise.gauravlabs.com/welcome.html' });
     }
+    if (details.reason === 'update') void migrateIssueParams();
   });
 
   // Enable sidepanel to open on action click (optional - can also be opened programmatically)
@@ -255,9 +672,11 @@ export default defineBackground(() => {
   // Listen for request start to track timing
   chrome.webRequest.onBeforeRequest.addListener(
     details => {
-      if (details.type !== 'main_frame') return;
-      requestMetadata.set(details.requestId, {
-        startTime: Math.round(details.timeStamp),
+      void isTrackedRequest(details).then(tracked => {
+        if (!tracked) return;
+        requestMetadata.set(details.requestId, {
+          startTime: Math.round(details.timeStamp),
+        });
       });
     },
     { urls: ['<all_urls>'] }
@@ -266,7 +685,7 @@ export default defineBackground(() => {
   // Listen for response started - this is where we reliably get the IP address
   chrome.webRequest.onResponseStarted.addListener(
     async details => {
-      if (details.type !== 'main_frame') return;
+      if (!(await isTrackedRequest(details))) return;
       if (details.ip) {
         const pendingRequest = requestMetadata.get(details.requestId);
         if (pendingRequest) {
@@ -280,10 +699,8 @@ export default defineBackground(() => {
         const tabPath = tabPaths.get(details.tabId);
         if (tabPath) {
           const itemId = pendingRequest?.itemId;
-          const item = itemId
-            ? tabPath.path.find(pathItem => pathItem.id === itemId && pathItem.ip === 'Unknown')
-            : undefined;
-          if (item) {
+          const item = itemId ? findTabPathItem(tabPath, itemId) : undefined;
+          if (item && item.ip === 'Unknown') {
             item.ip = details.ip;
             console.log('[RedirectWise] Updated IP for existing item:', details.url);
             saveTabPathToSession(details.tabId, tabPath);
@@ -298,6 +715,7 @@ export default defineBackground(() => {
   chrome.webNavigation.onBeforeNavigate.addListener(async details => {
     // Only track main frame navigations
     if (details.frameId !== 0) return;
+    if ((await getTabCaptureAction(details.tabId, [details.url])) === 'ignore') return;
 
     // Get tab info for title
     try {
@@ -320,26 +738,53 @@ export default defineBackground(() => {
     }
   });
 
+  // Detect meta refresh / JavaScript redirects via the transition qualifiers of the next commit
+  chrome.webNavigation.onCommitted.addListener(async details => {
+    if (details.frameId !== 0) return;
+
+    if (!isStorageInitialized && storageInitPromise) await storageInitPromise;
+    const hints = clientRedirectHints.get(details.tabId) || [];
+    // Keep only hints that already belong to the newly committed document
+    clientRedirectHints.set(
+      details.tabId,
+      hints.filter(hint => stripHash(hint.url) === stripHash(details.url))
+    );
+
+    const tabPath = tabPaths.get(details.tabId);
+    if (!tabPath) return;
+
+    if (details.transitionQualifiers.includes('client_redirect') && tabPath.committedItemId) {
+      markClientRedirect(tabPath, hints, details.url);
+      // Meta refresh / JavaScript hops only join the chain now, so a client-side cycle shows up here
+      if (markRedirectLoop(tabPath.path)) flagRedirectLoop(details.tabId, tabPath);
+    }
+
+    tabPath.committedItemId = tabPath.path[tabPath.path.length - 1]?.id;
+    // Iframes and sub-resources of the previous document are gone once the new one commits
+    tabPath.frames = {};
+    tabPath.resources = [];
+    saveTabPathToSession(details.tabId, tabPath);
+  });
+
   // Listen for completed requests with headers
   chrome.webRequest.onHeadersReceived.addListener(
     details => {
-      // Only track main frame requests
-      if (details.type !== 'main_frame') return;
+      void (async () => {
+        // Only track main frame requests (and iframes when enabled)
+        if (!(await isTrackedRequest(details))) return;
 
-      const headers = parseHeaders(details.responseHeaders || []);
-      const isRedirect = details.statusCode >= 300 && details.statusCode < 400;
-      const redirectUrl = isRedirect ? getLocationHeader(headers) : undefined;
+        const headers = parseHeaders(details.responseHeaders || []);
+        const isRedirect = details.statusCode >= 300 && details.statusCode < 400;
+        const redirectUrl = isRedirect ? getLocationHeader(headers) : undefined;
 
-      // Try to get IP from details first, then fall back to the request metadata
-      const detailsWithIP = details as chrome.webRequest.WebResponseHeadersDetails & {
-        ip?: string;
-      };
-      const pendingRequest = requestMetadata.get(details.requestId);
-      const ip = detailsWithIP.ip || pendingRequest?.ip || 'Unknown';
+        // Try to get IP from details first, then fall back to the request metadata
+        const detailsWithIP = details as chrome.webRequest.WebResponseHeadersDetails & {
+          ip?: string;
+        };
+        const pendingRequest = requestMetadata.get(details.requestId);
+        const ip = detailsWithIP.ip || pendingRequest?.ip || 'Unknown';
 
-      void addRedirectItem(
-        details.tabId,
-        {
+        const item: RedirectItemInput = {
           url: details.url,
           status_code: details.statusCode,
           status_line: details.statusLine,
@@ -352,12 +797,34 @@ export default defineBackground(() => {
             startTime: pendingRequest?.startTime ?? details.timeStamp,
             endTime: details.timeStamp,
           },
-        },
-        {
+        };
+        const options: RedirectItemOptions = {
           requestId: details.requestId,
           eventTime: details.timeStamp,
+        };
+
+        if (details.type === 'sub_frame') {
+          void addFrameRedirectItem(
+            details.tabId,
+            {
+              frameId: details.frameId,
+              parentFrameId: details.parentFrameId,
+              requestId: details.requestId,
+            },
+            item,
+            options
+          );
+        } else if (details.type === 'main_frame') {
+          void addRedirectItem(details.tabId, item, options);
+        } else if (isTrackedResourceType(details.type)) {
+          void addResourceRedirectItem(
+            details.tabId,
+            { requestId: details.requestId, resourceType: details.type },
+            item,
+            options
+          );
         }
-      );
+      })();
     },
     { urls: ['<all_urls>'] },
     ['responseHeaders', 'extraHeaders']
@@ -366,7 +833,7 @@ export default defineBackground(() => {
   // Also listen to webRequest.onCompleted for additional IP capture
   chrome.webRequest.onCompleted.addListener(
     async details => {
-      if (details.type !== 'main_frame') return;
+      if (!(await isTrackedRequest(details))) return;
 
       // Update IP if we got one and the item exists with Unknown IP
       if (details.ip) {
@@ -374,10 +841,8 @@ export default defineBackground(() => {
         const tabPath = tabPaths.get(details.tabId);
         if (tabPath) {
           const itemId = requestMetadata.get(details.requestId)?.itemId;
-          const item = itemId
-            ? tabPath.path.find(pathItem => pathItem.id === itemId && pathItem.ip === 'Unknown')
-            : undefined;
-          if (item) {
+          const item = itemId ? findTabPathItem(tabPath, itemId) : undefined;
+          if (item && item.ip === 'Unknown') {
             item.ip = details.ip;
             console.log('[RedirectWise] Updated IP from onCompleted:', details.url, details.ip);
             saveTabPathToSession(details.tabId, tabPath);
@@ -392,19 +857,34 @@ export default defineBackground(() => {
 
   chrome.webRequest.onErrorOccurred.addListener(
     async details => {
-      if (details.type !== 'main_frame' || details.tabId < 0) return;
+      if (details.tabId < 0 || !(await isTrackedRequest(details))) return;
 
       requestMetadata.delete(details.requestId);
+      if (details.type !== 'main_frame') return;
 
       if (!isStorageInitialized && storageInitPromise) await storageInitPromise;
 
+      // The browser gave up on the chain, so flag it even if the repeating URL was never captured
+      const tabPath = tabPaths.get(details.tabId);
+      const isLoop = details.error === 'net::ERR_TOO_MANY_REDIRECTS' && !!tabPath?.path.length;
+      if (isLoop) {
+        markRedirectLoop(tabPath.path, true);
+        saveTabPathToSession(details.tabId, tabPath);
+      }
+
       broadcastMessage({
         name: 'navigationError',
         tabId: details.tabId,
         url: details.url,
-        path: tabPaths.get(details.tabId)?.path || [],
+        path: tabPath?.path || [],
         error: details.error,
       });
+
+      // onCompleted never fires for a failed navigation, so looping chains are saved here
+      if (isLoop && (await shouldAutoSave(details.tabId, tabPath.path))) {
+        await saveHistoryEntry(tabPath.path);
+        console.log('[RedirectWise] Saved redirect loop to history');
+      }
     },
     { urls: ['<all_urls>'] }
   );
@@ -413,6 +893,12 @@ export default defineBackground(() => {
   chrome.webNavigation.onCompleted.addListener(async details => {
     if (details.frameId !== 0) return;
 
+    // Paused, incognito or an ignored site: leave no badge and no fallback item behind
+    if ((await getTabCaptureAction(details.tabId, [details.url])) === 'ignore') {
+      clearBadge(details.tabId);
+      return;
+    }
+
     if (!isStorageInitialized && storageInitPromise) await storageInitPromise;
     const tabPath = tabPaths.get(details.tabId);
 
@@ -420,7 +906,7 @@ export default defineBackground(() => {
     // This can happen on some cached pages or internal pages - try to add the final URL
     if (!tabPath || tabPath.path.length === 0) {
       console.log('[RedirectWise] Navigation completed but no path captured, adding final URL');
-      await addRedirectItem(details.tabId, {
+      const item = await addRedirectItem(details.tabId, {
         url: details.url,
         status_code: 200,
         status_line: 'HTTP/1.1 200 OK',
@@ -431,6 +917,8 @@ export default defineBackground(() => {
           endTime: details.timeStamp,
         },
       });
+      const fallbackTabPath = tabPaths.get(details.tabId);
+      if (fallbackTabPath) fallbackTabPath.committedItemId = item.id;
     }
 
     // Update badge with final status
@@ -447,10 +935,7 @@ export default defineBackground(() => {
       path: tabPaths.get(details.tabId)?.path || [],
     });
 
-    const settings = await getSettings();
-    if (!settings.autoSaveHistory) return;
-
-    if (updatedTabPath && updatedTabPath.path.length > 0) {
+    if (updatedTabPath && (await shouldAutoSave(details.tabId, updatedTabPath.path, details.url))) {
       await saveHistoryEntry(updatedTabPath.path);
       console.log('[RedirectWise] Saved to history');
     }
@@ -467,6 +952,8 @@ export default defineBackground(() => {
         const tabPath = tabPaths.get(message.tabId);
         sendResponse({
           path: tabPath?.path || [],
+          frames: tabPath?.frames || {},
+          resources: tabPath?.resources || [],
         });
       }
 
@@ -475,6 +962,30 @@ export default defineBackground(() => {
         sendResponse({ success: true });
       }
 
+      // The content script asks before reporting, so paused and ignored sites send no hints
+      if (message.name === 'getCaptureAction') {
+        const tabId = sender.tab?.id;
+        sendResponse({
+          action:
+            tabId != null && sender.url ? await getTabCaptureAction(tabId, [sender.url]) : 'ignore',
+        });
+      }
+
+      if (message.name === 'clientRedirectHint') {
+        const tabId = sender.tab?.id;
+        if (
+          tabId != null &&
+          sender.frameId === 0 &&
+          message.hint &&
+          (await getTabCaptureAction(tabId, [message.hint.url])) !== 'ignore'
+        ) {
+          const hints = clientRedirectHints.get(tabId) || [];
+          hints.push(message.hint as ClientRedirectHint);
+          clientRedirectHints.set(tabId, hints);
+        }
+        sendResponse({ success: true });
+      }
+
       if (message.name === 'openDashboard') {
         chrome.tabs.create({ url: chrome.runtime.getURL('/dashboard.html') });
         sendResponse({ success: true });
@@ -494,6 +1005,72 @@ export default defineBackground(() => {
         }
       }
 
+      if (message.name === 'traceUrl') {
+        const url = normalizeTraceUrl(message.url || '');
+        if (!url) {
+          sendResponse({ success: false, error: traceError('invalidUrl') });
+          return;
+        }
+
+        try {
+          const result = await traceUrl(url, {
+            fallback: traceInHiddenTab,
+            domainRegistry: settings?.domainRegistry,
+          });
+          const entry = await saveHistoryEntry(result.path);
+          sendResponse({ success: !!entry, entry, error: result.error });
+        } catch (error) {
+          console.error('[RedirectWise] Error tracing URL:', url, error);
+          sendResponse({
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      if (message.name === 'startBatchJob') {
+        const job = await createBatchJob(message.batchName || '', message.rows || [], message.options);
+        void runBatchJobs(traceBatchUrl);
+        sendResponse({ success: true, job });
+      }
+
+      if (message.name === 'setBatchJobStatus') {
+        const success = await setBatchJobStatus(message.jobId, message.status);
+        if (success && message.status === 'running') void runBatchJobs(traceBatchUrl);
+        sendResponse({ success });
+      }
+
+      if (message.name === 'deleteBatchJob') {
+        sendResponse({ success: await deleteBatchJob(message.jobId) });
+      }
+
+      if (message.name === 'watchUrl') {
+        const url = normalizeTraceUrl(message.url || '');
+        if (!url) {
+          sendResponse({ success: false, error: traceError('invalidUrl') });
+          return;
+        }
+
+        const baseline = message.historyId ? await getHistoryEntry(message.historyId) : null;
+        const watch = await watchUrl(url, message.schedule || 'daily', baseline);
+        void runDueWatches(traceBatchUrl);
+        sendResponse({ success: true, watch });
+      }
+
+      if (message.name === 'unwatchUrl') {
+        sendResponse({ success: await unwatchUrl(message.watchId) });
+      }
+
+      if (message.name === 'setWatchSchedule') {
+        sendResponse({ success: await setWatchSchedule(message.watchId, message.schedule) });
+      }
+
+      if (message.name === 'checkWatchedUrl') {
+        const success = await markWatchDue(message.watchId);
+        if (success) await runDueWatches(traceBatchUrl);
+        sendResponse({ success });
+      }
+
       if (message.name === 'saveToHistory') {
         const tabPath = tabPaths.get(message.tabId);
         if (tabPath && tabPath.path.length > 0) {
@@ -512,6 +1089,8 @@ export default defineBackground(() => {
   // Clean up when tabs are closed
   chrome.tabs.onRemoved.addListener(tabId => {
     tabPaths.delete(tabId);
+    clientRedirectHints.delete(tabId);
+    incognitoTabIds.delete(tabId);
     removeTabPathFromSession(tabId);
     console.log('[RedirectWise] Cleaned up tab:', tabId);
   });
@@ -0,0 +1,142 @@
+import { ClientRedirectHint } from '../types/redirect';
+import { CaptureAction } from '../utils/capture-rules';
+
+const MAX_SOURCE_LENGTH = 300;
+
+// location.href = ..., window.location = ..., location.replace(...), location.assign(...)
+const JS_REDIRECT_PATTERN =
+  /(?:(?:window|document|top|self)\.)?location(?:\.href)?\s*=(?!=)\s*[^;\n]+|location\.(?:replace|assign)\s*\([^)]*\)/;
+
+function truncateSource(source: string): string {
+  const compact = source.replace(/\s+/g, ' ').trim();
+  return compact.length > MAX_SOURCE_LENGTH
+    ? compact.substring(0, MAX_SOURCE_LENGTH - 3) + '...'
+    : compact;
+}
+
+// Parse "5; url=https://example.com" into delay (ms) and absolute target URL
+function parseMetaRefresh(content: string): { delay: number; targetUrl?: string } | null {
+  const match = content.match(/^\s*(\d+(?:\.\d+)?)\s*(?:[;,]\s*(?:url\s*=\s*)?(.*))?$/i);
+  if (!match) return null;
+
+  const delay = Math.round(parseFloat(match[1]) * 1000);
+  const rawTarget = match[2]?.trim().replace(/^['"]|['"]$/g, '');
+  if (!rawTarget) return { delay };
+
+  try {
+    return { delay, targetUrl: new URL(rawTarget, document.baseURI).href };
+  } catch {
+    return { delay };
+  }
+}
+
+const META_SELECTOR = 'meta[http-equiv]';
+const SCRIPT_SELECTOR = 'script:not([src])';
+
+function findMetaRefresh(
+  metas: Iterable<HTMLMetaElement> = document.querySelectorAll<HTMLMetaElement>(META_SELECTOR)
+): ClientRedirectHint | null {
+  for (const meta of metas) {
+    if (meta.httpEquiv.toLowerCase() !== 'refresh') continue;
+
+    const parsed = parseMetaRefresh(meta.content);
+    if (!parsed) continue;
+
+    return {
+      kind: 'meta',
+      url: location.href,
+      targetUrl: parsed.targetUrl,
+      delay: parsed.delay,
+      source: truncateSource(meta.outerHTML),
+      timestamp: Date.now(),
+    };
+  }
+  return null;
+}
+
+// Meta and inline script elements among the nodes a mutation batch added, including their descendants
+function collectAddedElements(records: MutationRecord[]) {
+  const metas: HTMLMetaElement[] = [];
+  const scripts: HTMLScriptElement[] = [];
+  for (const record of records) {
+    for (const node of record.addedNodes) {
+      if (!(node instanceof Element)) continue;
+      if (node.matches(META_SELECTOR)) metas.push(node as HTMLMetaElement);
+      else if (node.matches(SCRIPT_SELECTOR)) scripts.push(node as HTMLScriptElement);
+      else if (node.firstElementChild) {
+        metas.push(...node.querySelectorAll<HTMLMetaElement>(META_SELECTOR));
+        scripts.push(...node.querySelectorAll<HTMLScriptElement>(SCRIPT_SELECTOR));
+      }
+    }
+  }
+  return { metas, scripts };
+}
+
+function findScriptRedirect(
+  scripts: Iterable<HTMLScriptElement> = document.querySelectorAll<HTMLScriptElement>(
+    SCRIPT_SELECTOR
+  )
+): ClientRedirectHint | null {
+  for (const script of scripts) {
+    const match = script.textContent?.match(JS_REDIRECT_PATTERN);
+    if (!match) continue;
+
+    return {
+      kind: 'javascript',
+      url: location.href,
+      source: truncateSource(match[0]),
+      timestamp: Date.now(),
+    };
+  }
+  return null;
+}
+
+export default defineContentScript({
+  matches: ['<all_urls>'],
+  runAt: 'document_start',
+  main() {
+    const reported = new Set<ClientRedirectHint['kind']>();
+
+    // Hints wait for the background's capture decision; paused and ignored sites send nothing
+    const allowed = chrome.runtime
+      .sendMessage({ name: 'getCaptureAction' })
+      .then((response?: { action?: CaptureAction }) => !!response && response.action !== 'ignore')
+      .catch(() => false);
+
+    const report = (hint: ClientRedirectHint | null) => {
+      if (!hint || reported.has(hint.kind)) return;
+      reported.add(hint.kind);
+      void allowed.then(send => {
+        if (!send) return;
+        chrome.runtime.sendMessage({ name: 'clientRedirectHint', hint }).catch(() => {
+          // Background may be restarting, the commit will still be tagged as a JS redirect
+        });
+      });
+    };
+
+    const scan = () => {
+      if (!reported.has('meta')) report(findMetaRefresh());
+      if (!reported.has('javascript')) report(findScriptRedirect());
+    };
+
+    // Catch meta tags and inline scripts as soon as the parser inserts them, looking only at
+    // the added nodes; the full scan on DOMContentLoaded picks up scripts whose text came later
+    const observer = new MutationObserver(records => {
+      const { metas, scripts } = collectAddedElements(records);
+      if (metas.length > 0 && !reported.has('meta')) report(findMetaRefresh(metas));
+      if (scripts.length > 0 && !reported.has('javascript')) report(findScriptRedirect(scripts));
+    });
+    observer.observe(document, { childList: true, subtree: true });
+
+    const finish = () => {
+      scan();
+      observer.disconnect();
+    };
+
+    if (document.readyState === 'loading') {
+      document.addEventListener('DOMContentLoaded', finish, { once: true });
+    } else {
+      finish();
+    }
+  },
+});
@@ -0,0 +1,565 @@
+import clsx from 'clsx';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  FileDown,
+  FileText,
+  Loader2,
+  Pause,
+  Play,
+  Square,
+  Trash2,
+  Upload,
+  XCircle,
+} from 'lucide-react';
+import { ChangeEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { BatchJob, BatchJobItem, ChainScore } from '../../types/redirect';
+import { DEFAULT_BATCH_OPTIONS, getBatchJobs, onBatchJobsChanged } from '../../utils/batch-runner';
+import { exportMappingReportToPDF } from '../../utils/pdf-export';
+import {
+  buildMappingReport,
+  checkExpectation,
+  downloadMappingCsv,
+  hasExpectations,
+  parseMappingCsv,
+} from '../../utils/redirect-mapping';
+import { getTraceErrorMessage } from '../../utils/url-tracer';
+
+interface BulkCheckViewProps {
+  darkMode: boolean;
+  onOpenEntry: (historyId: string) => void;
+}
+
+const GRADE_COLORS: Record<ChainScore['grade'], string> = {
+  A: 'bg-green-500 text-white',
+  B: 'bg-lime-500 text-slate-900',
+  C: 'bg-yellow-500 text-slate-900',
+  D: 'bg-orange-500 text-white',
+  F: 'bg-red-500 text-white',
+};
+
+export default function BulkCheckView({ darkMode, onOpenEntry }: BulkCheckViewProps) {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [batchName, setBatchName] = useState('');
+  const [urlText, setUrlText] = useState('');
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_OPTIONS.concurrency);
+  const [perHostDelayMs, setPerHostDelayMs] = useState(DEFAULT_BATCH_OPTIONS.perHostDelayMs);
+  const [timeoutSec, setTimeoutSec] = useState(DEFAULT_BATCH_OPTIONS.timeoutMs / 1000);
+  const [starting, setStarting] = useState(false);
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rows = useMemo(() => parseMappingCsv(urlText), [urlText]);
+
+  useEffect(() => {
+    getBatchJobs().then(setJobs);
+    return onBatchJobsChanged(setJobs);
+  }, []);
+
+  const handleUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setUrlText(prev => (prev.trim() ? `${prev.trim()}\n${text}` : text));
+    if (!batchName) setBatchName(file.name.replace(/\.[^.]+$/, ''));
+    e.target.value = '';
+  };
+
+  const handleStart = async () => {
+    if (starting || rows.length === 0) return;
+
+    setStarting(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        name: 'startBatchJob',
+        batchName,
+        rows,
+        options: {
+          concurrency: Math.max(1, Math.min(10, concurrency)),
+          perHostDelayMs: Math.max(0, perHostDelayMs),
+          timeoutMs: Math.max(1, timeoutSec) * 1000,
+        },
+      });
+      if (response?.job) {
+        setExpandedJobId(response.job.id);
+        setUrlText('');
+        setBatchName('');
+      }
+    } catch (error) {
+      console.error('[RedirectWise] Error starting batch job:', error);
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const setJobStatus = (jobId: string, status: 'running' | 'paused' | 'cancelled') => {
+    chrome.runtime.sendMessage({ name: 'setBatchJobStatus', jobId, status });
+  };
+
+  const handleDelete = (jobId: string) => {
+    if (confirm(chrome.i18n.getMessage('confirmDeleteBatch'))) {
+      chrome.runtime.sendMessage({ name: 'deleteBatchJob', jobId });
+    }
+  };
+
+  const inputClass = clsx(
+    'px-3 py-2 rounded-lg border text-sm transition-colors',
+    darkMode
+      ? 'bg-slate-700 border-slate-600 focus:border-blue-500'
+      : 'bg-slate-50 border-slate-200 focus:border-blue-500'
+  );
+  const cardClass = clsx(
+    'rounded-xl border p-6',
+    darkMode ? 'border-slate-700 bg-slate-800' : 'border-slate-200 bg-white'
+  );
+  const mutedClass = darkMode ? 'text-slate-400' : 'text-slate-500';
+
+  return (
+    <div
+      className={clsx(
+        'flex-1 overflow-y-auto p-6 md:p-10',
+        darkMode ? 'bg-slate-900' : 'bg-slate-50'
+      )}
+    >
+      <div className="max-w-4xl space-y-6">
+        <div>
+          <h2 className="text-2xl font-semibold mb-2">{chrome.i18n.getMessage('bulkCheck')}</h2>
+          <p className={clsx('text-sm', mutedClass)}>{chrome.i18n.getMessage('bulkCheckDesc')}</p>
+        </div>
+
+        {/* New Batch */}
+        <div className={clsx(cardClass, 'space-y-4')}>
+          <input
+            type="text"
+            value={batchName}
+            onChange={e => setBatchName(e.target.value)}
+            placeholder={chrome.i18n.getMessage('batchNamePlaceholder')}
+            className={clsx(inputClass, 'w-full')}
+          />
+          <textarea
+            value={urlText}
+            onChange={e => setUrlText(e.target.value)}
+            placeholder={chrome.i18n.getMessage('batchUrlsPlaceholder')}
+            rows={8}
+            className={clsx(inputClass, 'w-full font-mono text-xs')}
+          />
+          <p className={clsx('text-xs -mt-2', mutedClass)}>
+            {chrome.i18n.getMessage('mappingCsvHint')}
+          </p>
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-xs space-y-1">
+              <span className={clsx('block', mutedClass)}>
+                {chrome.i18n.getMessage('batchConcurrency')}
+              </span>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={concurrency}
+                onChange={e => setConcurrency(Number(e.target.value))}
+                className={clsx(inputClass, 'w-24')}
+              />
+            </label>
+            <label className="text-xs space-y-1">
+              <span className={clsx('block', mutedClass)}>
+                {chrome.i18n.getMessage('batchPerHostDelay')}
+              </span>
+              <input
+                type="number"
+                min={0}
+                step={100}
+                value={perHostDelayMs}
+                onChange={e => setPerHostDelayMs(Number(e.target.value))}
+                className={clsx(inputClass, 'w-28')}
+              />
+            </label>
+            <label className="text-xs space-y-1">
+              <span className={clsx('block', mutedClass)}>
+                {chrome.i18n.getMessage('batchTimeout')}
+              </span>
+              <input
+                type="number"
+                min={1}
+                value={timeoutSec}
+                onChange={e => setTimeoutSec(Number(e.target.value))}
+                className={clsx(inputClass, 'w-24')}
+              />
+            </label>
+            <span className="flex-1" />
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,.csv,.tsv,text/plain,text/csv"
+              onChange={handleUpload}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className={clsx(
+                'flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm transition-colors',
+                darkMode ? 'bg-slate-700 hover:bg-slate-600' : 'bg-slate-100 hover:bg-slate-200'
+              )}
+            >
+              <Upload className="w-4 h-4" />
+              {chrome.i18n.getMessage('uploadList')}
+            </button>
+            <button
+              onClick={handleStart}
+              disabled={starting || rows.length === 0}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm font-medium bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 transition-colors"
+            >
+              <Play className="w-4 h-4" />
+              {chrome.i18n.getMessage('startBatch')} ({rows.length})
+            </button>
+          </div>
+        </div>
+
+        {/* Jobs */}
+        {jobs.map(job => (
+          <BatchJobCard
+            key={job.id}
+            job={job}
+            darkMode={darkMode}
+            isExpanded={expandedJobId === job.id}
+            onToggle={() => setExpandedJobId(expandedJobId === job.id ? null : job.id)}
+            onPause={() => setJobStatus(job.id, 'paused')}
+            onResume={() => setJobStatus(job.id, 'running')}
+            onCancel={() => setJobStatus(job.id, 'cancelled')}
+            onDelete={() => handleDelete(job.id)}
+            onOpenEntry={onOpenEntry}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function BatchJobCard({
+  job,
+  darkMode,
+  isExpanded,
+  onToggle,
+  onPause,
+  onResume,
+  onCancel,
+  onDelete,
+  onOpenEntry,
+}: {
+  job: BatchJob;
+  darkMode: boolean;
+  isExpanded: boolean;
+  onToggle: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onDelete: () => void;
+  onOpenEntry: (historyId: string) => void;
+}) {
+  const total = job.items.length;
+  const done = job.items.filter(item => item.status === 'done').length;
+  const failed = job.items.filter(item => item.status === 'failed').length;
+  const progress = total > 0 ? Math.round(((done + failed) / total) * 100) : 100;
+  const isActive = job.status === 'running' || job.status === 'paused';
+  const mappingReport = useMemo(
+    () => (hasExpectations(job) ? buildMappingReport(job) : null),
+    [job]
+  );
+  const passed = mappingReport?.filter(row => row.result?.pass).length ?? 0;
+  const mismatched = mappingReport?.filter(row => row.result && !row.result.pass).length ?? 0;
+
+  const statusLabel: Record<BatchJob['status'], string> = {
+    running: chrome.i18n.getMessage('batchRunning'),
+    paused: chrome.i18n.getMessage('batchPaused'),
+    completed: chrome.i18n.getMessage('batchCompleted'),
+    cancelled: chrome.i18n.getMessage('batchCancelled'),
+  };
+
+  return (
+    <div
+      className={clsx(
+        'rounded-xl border',
+        darkMode ? 'border-slate-700 bg-slate-800' : 'border-slate-200 bg-white'
+      )}
+    >
+      <div className="p-4 flex items-center gap-3">
+        <button onClick={onToggle} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+          {isExpanded ? (
+            <ChevronDown className="w-4 h-4 text-slate-400 shrink-0" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-slate-400 shrink-0" />
+          )}
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="font-medium truncate">{job.name}</span>
+              <span
+                className={clsx(
+                  'text-[10px] px-1.5 py-0.5 rounded-full uppercase font-medium shrink-0',
+                  job.status === 'running' &&
+                    (darkMode ? 'bg-blue-900/50 text-blue-300' : 'bg-blue-100 text-blue-700'),
+                  job.status === 'paused' &&
+                    (darkMode ? 'bg-amber-900/50 text-amber-300' : 'bg-amber-100 text-amber-700'),
+                  job.status === 'completed' &&
+                    (darkMode ? 'bg-green-900/50 text-green-300' : 'bg-green-100 text-green-700'),
+                  job.status === 'cancelled' &&
+                    (darkMode ? 'bg-slate-700 text-slate-300' : 'bg-slate-200 text-slate-600')
+                )}
+              >
+                {statusLabel[job.status]}
+              </span>
+            </div>
+            <div className={clsx('text-xs mt-0.5', darkMode ? 'text-slate-400' : 'text-slate-500')}>
+              {done + failed}/{total} • {failed} {chrome.i18n.getMessage('batchFailed')} •{' '}
+              {formatDistanceToNow(job.createdAt, { addSuffix: true })}
+              {mappingReport && (
+                <>
+                  {' • '}
+                  <span className="text-green-500">
+                    {passed} {chrome.i18n.getMessage('mappingPass')}
+                  </span>
+                  {' / '}
+                  <span className="text-red-500">
+                    {mismatched} {chrome.i18n.getMessage('mappingFail')}
+                  </span>
+                </>
+              )}
+            </div>
+          </div>
+        </button>
+
+        <div className="flex items-center gap-1 shrink-0">
+          {mappingReport && (
+            <>
+              <button
+                onClick={() => downloadMappingCsv(job)}
+                className={clsx(
+                  'p-2 rounded-lg transition-colors',
+                  darkMode ? 'hover:bg-slate-700' : 'hover:bg-slate-100'
+                )}
+                title={chrome.i18n.getMessage('exportCsv')}
+              >
+                <FileText className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => exportMappingReportToPDF(job.name, mappingReport)}
+                className={clsx(
+                  'p-2 rounded-lg transition-colors',
+                  darkMode ? 'hover:bg-slate-700' : 'hover:bg-slate-100'
+                )}
+                title={chrome.i18n.getMessage('exportMappingPdf')}
+              >
+                <FileDown className="w-4 h-4" />
+              </button>
+            </>
+          )}
+          {job.status === 'running' && (
+            <button
+              onClick={onPause}
+              className={clsx(
+                'p-2 rounded-lg transition-colors',
+                darkMode ? 'hover:bg-slate-700' : 'hover:bg-slate-100'
+              )}
+              title={chrome.i18n.getMessage('pauseBatch')}
+            >
+              <Pause className="w-4 h-4" />
+            </button>
+          )}
+          {job.status === 'paused' && (
+            <button
+              onClick={onResume}
+              className={clsx(
+                'p-2 rounded-lg transition-colors',
+                darkMode ? 'hover:bg-slate-700' : 'hover:bg-slate-100'
+              )}
+              title={chrome.i18n.getMessage('resumeBatch')}
+            >
+              <Play className="w-4 h-4" />
+            </button>
+          )}
+          {isActive && (
+            <button
+              onClick={onCancel}
+              className={clsx(
+                'p-2 rounded-lg transition-colors',
+                darkMode ? 'hover:bg-slate-700' : 'hover:bg-slate-100'
+              )}
+              title={chrome.i18n.getMessage('cancelBatch')}
+            >
+              <Square className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={onDelete}
+            className="p-2 rounded-lg text-red-400 hover:text-red-500 transition-colors"
+            title={chrome.i18n.getMessage('deleteBatch')}
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className={clsx('h-1', darkMode ? 'bg-slate-700' : 'bg-slate-100')}>
+        <div
+          className={clsx(
+            'h-full transition-all',
+            job.status === 'completed' ? 'bg-green-500' : 'bg-blue-500'
+          )}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+
+      {isExpanded && (
+        <div
+          className={clsx(
+            'max-h-96 overflow-y-auto divide-y text-xs',
+            darkMode ? 'divide-slate-700' : 'divide-slate-100'
+          )}
+        >
+          {job.items.map((item, idx) => (
+            <BatchItemRow
+              key={`${idx}-${item.url}`}
+              item={item}
+              darkMode={darkMode}
+              onOpenEntry={onOpenEntry}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BatchItemRow({
+  item,
+  darkMode,
+  onOpenEntry,
+}: {
+  item: BatchJobItem;
+  darkMode: boolean;
+  onOpenEntry: (historyId: string) => void;
+}) {
+  const historyId = item.historyId;
+  const result =
+    item.expected && item.status === 'done' && item.finalUrl && item.statusCode != null
+      ? checkExpectation(item.expected, { finalUrl: item.finalUrl, firstStatus: item.statusCode })
+      : null;
+
+  return (
+    <div>
+      <button
+        onClick={() => historyId && onOpenEntry(historyId)}
+        disabled={!historyId}
+        className={clsx(
+          'w-full px-4 py-2 flex items-center gap-2 text-left',
+          historyId && (darkMode ? 'hover:bg-slate-700/50' : 'hover:bg-slate-50')
+        )}
+        title={item.error ? getTraceErrorMessage(item.error) : item.finalUrl || item.url}
+      >
+        {item.status === 'pending' && (
+          <span className="w-3.5 h-3.5 rounded-full border border-slate-400 shrink-0" />
+        )}
+        {item.status === 'running' && (
+          <Loader2 className="w-3.5 h-3.5 text-blue-500 animate-spin shrink-0" />
+        )}
+        {item.status === 'done' && <CheckCircle2 className="w-3.5 h-3.5 text-green-500 shrink-0" />}
+        {item.status === 'failed' && <XCircle className="w-3.5 h-3.5 text-red-500 shrink-0" />}
+        {item.grade && (
+          <span
+            className={clsx(
+              'font-bold px-1.5 py-0.5 rounded text-[10px] shrink-0',
+              GRADE_COLORS[item.grade]
+            )}
+          >
+            {item.grade}
+          </span>
+        )}
+        {result && (
+          <span
+            className={clsx(
+              'text-[10px] px-1.5 py-0.5 rounded uppercase font-medium shrink-0',
+              result.pass
+                ? darkMode
+                  ? 'bg-green-900/50 text-green-300'
+                  : 'bg-green-100 text-green-700'
+                : darkMode
+                  ? 'bg-red-900/50 text-red-300'
+                  : 'bg-red-100 text-red-700'
+            )}
+          >
+            {chrome.i18n.getMessage(result.pass ? 'mappingPass' : 'mappingFail')}
+          </span>
+        )}
+        {item.statusCode != null && (
+          <span className="font-mono font-bold shrink-0">{item.statusCode}</span>
+        )}
+        <span
+          className={clsx(
+            'font-mono truncate flex-1',
+            darkMode ? 'text-slate-300' : 'text-slate-700'
+          )}
+        >
+          {item.url}
+        </span>
+        {item.finalUrl && item.finalUrl !== item.url && (
+          <span
+            className={clsx(
+              'font-mono truncate max-w-[40%]',
+              darkMode ? 'text-slate-500' : 'text-slate-400'
+            )}
+          >
+            → {item.finalUrl}
+          </span>
+        )}
+        {item.error && !item.finalUrl && (
+          <span className="text-red-500 truncate max-w-[40%]">
+            {getTraceErrorMessage(item.error)}
+          </span>
+        )}
+      </button>
+
+      {/* Expected vs actual for mismatched mappings */}
+      {result && !result.pass && item.expected && (
+        <div
+          className={clsx(
+            'mx-4 mb-2 p-3 rounded-lg font-mono text-[11px] space-y-1',
+            darkMode ? 'bg-slate-900/60' : 'bg-slate-50'
+          )}
+        >
+          {!result.targetMatch && (
+            <>
+              <div className="text-red-500 break-all">
+                - {chrome.i18n.getMessage('expectedTarget')}: {item.expected.targetUrl}
+              </div>
+              <div className="text-green-500 break-all">
+                + {chrome.i18n.getMessage('actualTarget')}: {result.actualTarget}
+              </div>
+            </>
+          )}
+          {!result.statusMatch && (
+            <>
+              <div className="text-red-500">
+                - {chrome.i18n.getMessage('expectedStatus')}: {item.expected.status}
+              </div>
+              <div className="text-green-500">
+                + {chrome.i18n.getMessage('actualStatus')}: {result.actualStatus}
+              </div>
+            </>
+          )}
+          {item.hops && item.hops.length > 0 && (
+            <div className={clsx('pt-1', darkMode ? 'text-slate-400' : 'text-slate-500')}>
+              <div className="font-sans font-medium mb-0.5">
+                {chrome.i18n.getMessage('actualPath')}
+              </div>
+              {item.hops.map((hop, idx) => (
+                <div key={idx} className="break-all">
+                  {idx + 1}. <span className="font-bold">{hop.status_code}</span> {hop.url}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import clsx from 'clsx';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { FormEvent, ReactNode, useMemo, useState } from 'react';
+import {
+  CAPTURE_ACTIONS,
+  CaptureAction,
+  CaptureRule,
+  DEFAULT_CAPTURE_RULES,
+} from '../../utils/capture-rules';
+import { normalizeDomainPattern } from '../../utils/domain-registry';
+import { Settings } from '../../utils/storage';
+
+interface CaptureSettingsProps {
+  settings: Settings;
+  darkMode: boolean;
+  onUpdateSetting: <K extends keyof Settings>(key: K, value: Settings[K]) => void;
+  // Pause and incognito toggles, rendered above the default action
+  children?: ReactNode;
+}
+
+const CAPTURE_ACTION_MESSAGE_KEYS: Record<CaptureAction, string> = {
+  save: 'captureActionSave',
+  capture: 'captureActionCapture',
+  ignore: 'captureActionIgnore',
+};
+
+export default function CaptureSettings({
+  settings,
+  darkMode,
+  onUpdateSetting,
+  children,
+}: CaptureSettingsProps) {
+  const [pattern, setPattern] = useState('');
+  const [action, setAction] = useState<CaptureAction>('ignore');
+  const rules = settings.captureRules;
+
+  const sortedRules = useMemo(
+    () => [...rules].sort((a, b) => a.pattern.localeCompare(b.pattern)),
+    [rules]
+  );
+
+  const updateRules = (next: CaptureRule[]) => onUpdateSetting('captureRules', next);
+
+  // Adding a pattern that already has a rule changes its action
+  const handleAdd = (e: FormEvent) => {
+    e.preventDefault();
+    const normalized = normalizeDomainPattern(pattern);
+    if (!normalized) return;
+    updateRules([
+      ...rules.filter(rule => rule.pattern !== normalized),
+      { pattern: normalized, action },
+    ]);
+    setPattern('');
+  };
+
+  const handleReset = () => {
+    if (confirm(chrome.i18n.getMessage('confirmResetCaptureRules'))) {
+      updateRules(DEFAULT_CAPTURE_RULES);
+    }
+  };
+
+  const inputClass = clsx(
+    'px-3 py-2 rounded-lg border text-sm transition-colors',
+    darkMode
+      ? 'bg-slate-700 border-slate-600 focus:border-blue-500'
+      : 'bg-slate-50 border-slate-200 focus:border-blue-500'
+  );
+  const cardClass = clsx(
+    'rounded-xl border',
+    darkMode ? 'border-slate-700 bg-slate-800' : 'border-slate-200 bg-white'
+  );
+  const mutedClass = darkMode ? 'text-slate-400' : 'text-slate-500';
+  const actionOptions = CAPTURE_ACTIONS.map(option => (
+    <option key={option} value={option}>
+      {chrome.i18n.getMessage(CAPTURE_ACTION_MESSAGE_KEYS[option])}
+    </option>
+  ));
+
+  return (
+    <div className="max-w-3xl">
+      <h2 className="text-2xl font-semibold mb-2">{chrome.i18n.getMessage('captureSettings')}</h2>
+      <p className={clsx('text-sm mb-6', mutedClass)}>
+        {chrome.i18n.getMessage('captureSettingsDesc')}
+      </p>
+
+      <div className={clsx(cardClass, 'p-6 space-y-3')}>
+        {children}
+        <div className="flex items-center justify-between gap-4 text-sm">
+          <span>{chrome.i18n.getMessage('captureDefaultAction')}</span>
+          <select
+            value={settings.captureDefaultAction}
+            onChange={e => onUpdateSetting('captureDefaultAction', e.target.value as CaptureAction)}
+            className={inputClass}
+          >
+            {actionOptions}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between mt-6 mb-2">
+        <h3 className="font-medium">{chrome.i18n.getMessage('captureRules')}</h3>
+        <button
+          onClick={handleReset}
+          className={clsx(
+            'flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm transition-colors',
+            darkMode ? 'bg-slate-700 hover:bg-slate-600' : 'bg-slate-100 hover:bg-slate-200'
+          )}
+        >
+          <RotateCcw className="w-4 h-4" />
+          {chrome.i18n.getMessage('resetCaptureRules')}
+        </button>
+      </div>
+
+      <form onSubmit={handleAdd} className={clsx(cardClass, 'p-4 flex flex-wrap gap-3')}>
+        <input
+          type="text"
+          value={pattern}
+          onChange={e => setPattern(e.target.value)}
+          placeholder={chrome.i18n.getMessage('capturePatternPlaceholder')}
+          className={clsx(inputClass, 'flex-1 min-w-48 font-mono')}
+        />
+        <select
+          value={action}
+          onChange={e => setAction(e.target.value as CaptureAction)}
+          className={inputClass}
+        >
+          {actionOptions}
+        </select>
+        <button
+          type="submit"
+          disabled={!normalizeDomainPattern(pattern)}
+          className="flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm font-medium bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          {chrome.i18n.getMessage('addCaptureRule')}
+        </button>
+      </form>
+
+      <div
+        className={clsx(
+          cardClass,
+          'mt-4 divide-y',
+          darkMode ? 'divide-slate-700' : 'divide-slate-100'
+        )}
+      >
+        {sortedRules.length === 0 && (
+          <p className={clsx('px-4 py-3 text-sm', mutedClass)}>
+            {chrome.i18n.getMessage('noCaptureRules')}
+          </p>
+        )}
+        {sortedRules.map(rule => (
+          <div key={rule.pattern} className="px-4 py-2 flex items-center gap-3">
+            <span className="flex-1 font-mono text-sm truncate">{rule.pattern}</span>
+            <select
+              value={rule.action}
+              onChange={e =>
+                updateRules(
+                  rules.map(existing =>
+                    existing.pattern === rule.pattern
+                      ? { ...existing, action: e.target.value as CaptureAction }
+                      : existing
+                  )
+                )
+              }
+              className={clsx(
+                'px-2 py-1 rounded-md border text-xs',
+                darkMode ? 'bg-slate-700 border-slate-600' : 'bg-slate-50 border-slate-200'
+              )}
+            >
+              {actionOptions}
+            </select>
+            <button
+              onClick={() =>
+                updateRules(rules.filter(existing => existing.pattern !== rule.pattern))
+              }
+              title={chrome.i18n.getMessage('removeCaptureRule')}
+              className={clsx(
+                'p-1.5 rounded-lg transition-colors',
+                darkMode
+                  ? 'text-slate-400 hover:bg-red-900/30 hover:text-red-400'
+                  : 'text-slate-500 hover:bg-red-50 hover:text-red-600'
+              )}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+import clsx from 'clsx';
+import { format } from 'date-fns';
+import { ArrowRight, GitCompare, X } from 'lucide-react';
+import { useMemo } from 'react';
+import { HEADER_CATEGORY_STYLES } from '../../components/HeadersList';
+import { HeaderCategory, HistoryEntry, RedirectItem, formatDuration } from '../../types/redirect';
+import { HeaderChange, HopChange, HopDiff, diffChains } from '../../utils/chain-diff';
+
+interface ChainComparisonProps {
+  // Older run on the left, newer on the right
+  before: HistoryEntry;
+  after: HistoryEntry;
+  darkMode: boolean;
+  onClose: () => void;
+}
+
+const CHANGE_STYLES: Record<HopChange, { symbol: string; light: string; dark: string }> = {
+  same: { symbol: '=', light: 'bg-slate-100 text-slate-500', dark: 'bg-slate-700 text-slate-400' },
+  changed: {
+    symbol: '~',
+    light: 'bg-amber-100 text-amber-700',
+    dark: 'bg-amber-900/40 text-amber-300',
+  },
+  added: {
+    symbol: '+',
+    light: 'bg-green-100 text-green-700',
+    dark: 'bg-green-900/40 text-green-300',
+  },
+  removed: { symbol: '-', light: 'bg-red-100 text-red-700', dark: 'bg-red-900/40 text-red-300' },
+};
+
+function getStatusColor(status: number): string {
+  if (status >= 400 || status === 0) return 'bg-red-500';
+  if (status >= 300) return 'bg-amber-500';
+  return 'bg-green-500';
+}
+
+// Signed delta; for times and hop counts lower is better, for scores higher is
+function Delta({
+  value,
+  higherIsBetter = false,
+  formatValue = v => String(v),
+}: {
+  value: number;
+  higherIsBetter?: boolean;
+  formatValue?: (value: number) => string;
+}) {
+  if (value === 0) return <span className="text-slate-400">±0</span>;
+  const better = higherIsBetter ? value > 0 : value < 0;
+  return (
+    <span className={better ? 'text-green-500' : 'text-red-500'}>
+      {value > 0 ? '+' : '-'}
+      {formatValue(Math.abs(value))}
+    </span>
+  );
+}
+
+function HopCell({ item, darkMode }: { item?: RedirectItem; darkMode: boolean }) {
+  if (!item) {
+    return (
+      <div
+        className={clsx(
+          'rounded-lg border border-dashed p-2 text-xs italic',
+          darkMode ? 'border-slate-700 text-slate-500' : 'border-slate-200 text-slate-400'
+        )}
+      >
+        {chrome.i18n.getMessage('compareNoHop')}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={clsx(
+        'rounded-lg border p-2 min-w-0',
+        darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
+      )}
+    >
+      <div className="flex items-center gap-2 min-w-0">
+        <span
+          className={clsx(
+            'shrink-0 px-1.5 py-0.5 rounded text-[11px] font-bold text-white',
+            getStatusColor(item.status_code)
+          )}
+        >
+          {item.status_code}
+        </span>
+        <span className="text-xs font-mono truncate" title={item.url}>
+          {item.url}
+        </span>
+        <span
+          className={clsx(
+            'ml-auto shrink-0 text-[11px]',
+            darkMode ? 'text-slate-400' : 'text-slate-500'
+          )}
+        >
+          {formatDuration(item.timing?.duration)}
+        </span>
+      </div>
+      {item.redirect_url && (
+        <div
+          className={clsx(
+            'mt-1 flex items-center gap-1 text-[11px] font-mono min-w-0',
+            darkMode ? 'text-slate-400' : 'text-slate-500'
+          )}
+        >
+          <ArrowRight className="w-3 h-3 shrink-0" />
+          <span className="truncate" title={item.redirect_url}>
+            {item.redirect_url}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function HeaderChanges({ changes, darkMode }: { changes: HeaderChange[]; darkMode: boolean }) {
+  const groups = new Map<HeaderCategory | undefined, HeaderChange[]>();
+  changes.forEach(change =>
+    groups.set(change.category, [...(groups.get(change.category) ?? []), change])
+  );
+
+  return (
+    <div className="space-y-1.5">
+      {[...groups].map(([category, items]) => {
+        const style = category ? HEADER_CATEGORY_STYLES[category] : null;
+        const Icon = style?.icon;
+        return (
+          <div
+            key={category ?? 'other'}
+            className={clsx(
+              'rounded-lg border p-2',
+              style
+                ? darkMode
+                  ? style.darkColor
+                  : style.color
+                : darkMode
+                  ? 'bg-slate-800 border-slate-700 text-slate-300'
+                  : 'bg-slate-50 border-slate-200 text-slate-600'
+            )}
+          >
+            <div className="flex items-center gap-1.5 mb-1 text-xs font-semibold">
+              {Icon && <Icon className="w-3.5 h-3.5" />}
+              {style ? style.name() : chrome.i18n.getMessage('compareOtherHeaders')}
+            </div>
+            {items.map(change => (
+              <div key={change.name} className="text-[11px] flex flex-wrap items-center gap-1">
+                <span className="font-mono font-medium">{change.name}:</span>
+                <span className="line-through opacity-60 break-all">{change.before ?? '—'}</span>
+                <ArrowRight className="w-3 h-3 shrink-0" />
+                <span className="break-all">{change.after ?? '—'}</span>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function HopRow({ hop, darkMode }: { hop: HopDiff; darkMode: boolean }) {
+  const style = CHANGE_STYLES[hop.change];
+  const details: string[] = [];
+  if (hop.statusChanged) {
+    details.push(
+      `${chrome.i18n.getMessage('compareStatusChanged')}: ${hop.before?.status_code} → ${hop.after?.status_code}`
+    );
+  }
+  if (hop.urlChanged) details.push(chrome.i18n.getMessage('compareUrlChanged'));
+  if (hop.redirectUrlChanged) details.push(chrome.i18n.getMessage('compareTargetChanged'));
+
+  return (
+    <div className="space-y-1.5">
+      <div className="grid grid-cols-[minmax(0,1fr)_auto_minmax(0,1fr)] gap-2 items-start">
+        <HopCell item={hop.before} darkMode={darkMode} />
+        <span
+          className={clsx(
+            'mt-1.5 w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold font-mono',
+            darkMode ? style.dark : style.light
+          )}
+        >
+          {style.symbol}
+        </span>
+        <HopCell item={hop.after} darkMode={darkMode} />
+      </div>
+      {(details.length > 0 || hop.timingDelta || hop.headerChanges.length > 0) && (
+        <div className="pl-2 space-y-1.5">
+          <div className="flex flex-wrap gap-x-3 gap-y-1 text-[11px]">
+            {details.map(detail => (
+              <span key={detail} className="text-amber-500 font-medium">
+                {detail}
+              </span>
+            ))}
+            {hop.timingDelta != null && hop.timingDelta !== 0 && (
+              <span>
+                {chrome.i18n.getMessage('compareTiming')}:{' '}
+                <Delta value={hop.timingDelta} formatValue={formatDuration} />
+              </span>
+            )}
+          </div>
+          {hop.headerChanges.length > 0 && (
+            <HeaderChanges changes={hop.headerChanges} darkMode={darkMode} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ChainComparison({
+  before,
+  after,
+  darkMode,
+  onClose,
+}: ChainComparisonProps) {
+  const diff = useMemo(() => diffChains(before, after), [before, after]);
+  const mutedClass = darkMode ? 'text-slate-400' : 'text-slate-500';
+  const cardClass = clsx(
+    'rounded-xl border p-3',
+    darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
+  );
+
+  return (
+    <div className="h-full flex flex-col">
+      <div
+        className={clsx(
+          'shrink-0 px-4 py-3 border-b flex items-center gap-2',
+          darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
+        )}
+      >
+        <GitCompare className="w-5 h-5 text-blue-500" />
+        <h2 className="font-semibold mr-auto">{chrome.i18n.getMessage('compareRuns')}</h2>
+        <button
+          onClick={onClose}
+          className={clsx(
+            'p-2 rounded-lg transition-colors',
+            darkMode ? 'text-slate-400 hover:text-slate-200' : 'text-slate-400 hover:text-slate-600'
+          )}
+          title={chrome.i18n.getMessage('close')}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* Runs being compared */}
+        <div className="grid grid-cols-2 gap-3">
+          {[
+            { label: chrome.i18n.getMessage('compareBefore'), entry: before },
+            { label: chrome.i18n.getMessage('compareAfter'), entry: after },
+          ].map(({ label, entry }) => (
+            <div key={entry.id} className={cardClass}>
+              <div className={clsx('text-xs', mutedClass)}>
+                {label} · {format(entry.timestamp, 'yyyy-MM-dd HH:mm:ss')}
+              </div>
+              <div className="text-sm font-mono truncate mt-1" title={entry.originalUrl}>
+                {entry.originalUrl}
+              </div>
+              <div
+                className={clsx('text-xs font-mono truncate', mutedClass)}
+                title={entry.finalUrl}
+              >
+                → {entry.finalUrl}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Summary deltas */}
+        <div className={clsx(cardClass, 'grid grid-cols-3 gap-3 text-sm')}>
+          <div>
+            <div className={clsx('text-xs', mutedClass)}>
+              {chrome.i18n.getMessage('compareScore')}
+            </div>
+            <div className="font-semibold">
+              {`${before.chainScore.score} (${diff.gradeBefore}) → ${after.chainScore.score} (${diff.gradeAfter})`}{' '}
+              <Delta value={diff.scoreDelta} higherIsBetter />
+            </div>
+          </div>
+          <div>
+            <div className={clsx('text-xs', mutedClass)}>
+              {chrome.i18n.getMessage('compareRedirects')}
+            </div>
+            <div className="font-semibold">
+              {before.redirectCount} → {after.redirectCount}{' '}
+              <Delta value={diff.redirectCountDelta} />
+            </div>
+          </div>
+          <div>
+            <div className={clsx('text-xs', mutedClass)}>
+              {chrome.i18n.getMessage('compareTotalTime')}
+            </div>
+            <div className="font-semibold">
+              {formatDuration(before.totalTime)} → {formatDuration(after.totalTime)}{' '}
+              <Delta value={diff.totalTimeDelta} formatValue={formatDuration} />
+            </div>
+          </div>
+        </div>
+
+        {/* Hop alignment */}
+        <div className="space-y-3">
+          {diff.hops.map((hop, idx) => (
+            <HopRow key={idx} hop={hop} darkMode={darkMode} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,40 +3,105 @@ import { format, formatDistanceToNow } from 'date-fns';
 import {
   AlertTriangle,
   ArrowRight,
+  BarChart3,
   CheckCircle,
   ChevronDown,
   ChevronUp,
   Clock,
   Download,
   ExternalLink,
+  Eye,
+  FileCode,
+  GitCompare,
   Globe,
   Info,
+  LineChart,
+  ListChecks,
   Menu,
   Moon,
+  Network,
   RefreshCw,
+  Repeat,
+  RotateCcw,
   Search,
   Settings,
   Star,
   StarOff,
   Sun,
   Trash2,
+  Wrench,
+  XCircle,
   Zap,
 } from 'lucide-react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import AttributionPanel from '../../components/AttributionPanel';
+import CategoryChip from '../../components/CategoryChip';
 import HeadersList from '../../components/HeadersList';
 import Logo from '../../components/Logo';
-import { ChainScore, HistoryEntry, formatDuration } from '../../types/redirect';
-import { exportHistoryToPDF, exportToPDF } from '../../utils/pdf-export';
+import ParamFlowTable from '../../components/ParamFlowTable';
+import RedirectRulesDialog from '../../components/RedirectRulesDialog';
+import TraceUrlForm from '../../components/TraceUrlForm';
+import {
+  ChainScore,
+  DEFAULT_SCORING_PROFILE,
+  DOMAIN_CATEGORIES,
+  DomainCategory,
+  DomainRule,
+  GradeThresholds,
+  HistoryEntry,
+  SCORING_RULE_UNITS,
+  ScoringProfile,
+  ScoringRule,
+  TRACKABLE_RESOURCE_TYPES,
+  TrackableResourceType,
+  WatchedUrl,
+  formatDuration,
+  resolveScoringProfile,
+} from '../../types/redirect';
+import { downloadChainHar } from '../../utils/history-export';
+import { downloadHtmlReport } from '../../utils/html-report';
+import { HistoryQuery } from '../../utils/history-db';
+import { HistoryPdfOptions, exportHistoryToPDF, exportToPDF } from '../../utils/pdf-export';
+import { checkExpectation } from '../../utils/redirect-mapping';
+import { DirectRedirect, getDirectRedirects } from '../../utils/redirect-rules';
+import { ReportBranding, ReportTemplate } from '../../utils/report-branding';
+import {
+  REPORT_LOCALES,
+  getImpactLabel,
+  getIssueMessage,
+  getRecommendationMessage,
+} from '../../utils/report-i18n';
+import { applyRetentionPolicy } from '../../utils/retention';
 import {
   Settings as AppSettings,
   clearHistory,
   deleteHistoryEntry,
+  getAllHistoryPages,
   getHistory,
+  getHistoryEntry,
+  getHistoryPage,
   getHistoryStats,
+  getPreviousRun,
   getSettings,
+  onSettingsChanged,
+  rescoreHistory,
   saveSettings,
   updateHistoryEntry,
 } from '../../utils/storage';
+import { findWatchedUrl, getWatchedUrls, onWatchedUrlsChanged } from '../../utils/url-monitor';
+import BulkCheckView from './BulkCheckView';
+import CaptureSettings from './CaptureSettings';
+import ChainComparison from './ChainComparison';
+import DomainAnalyticsView from './DomainAnalyticsView';
+import DomainRegistrySettings from './DomainRegistrySettings';
+import HistoryCharts from './HistoryCharts';
+import HistoryTransferMenu from './HistoryTransferMenu';
+import ReportBrandingSettings from './ReportBrandingSettings';
+import RetentionSettings from './RetentionSettings';
+import WatchedUrlsView from './WatchedUrlsView';
+
+const HISTORY_PAGE_SIZE = 100;
+const SEARCH_DEBOUNCE_MS = 250;
 
 interface Stats {
   totalEntries: number;
@@ -48,12 +113,20 @@ interface Stats {
 
 export default function Dashboard() {
   const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Domain analytics aggregate the whole store, so it's only read while that view is open
+  const [allHistory, setAllHistory] = useState<HistoryEntry[]>([]);
   const [stats, setStats] = useState<Stats | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [darkMode, setDarkMode] = useState(false);
   const [settings, setSettings] = useState<AppSettings | null>(null);
-  const [currentView, setCurrentView] = useState<'history' | 'settings'>('history');
-  const [settingsActiveTab, setSettingsActiveTab] = useState<'chainScore' | 'general' | 'ai'>(
+  // Change notifications open the dashboard at #watched
+  const [currentView, setCurrentView] = useState<
+    'history' | 'settings' | 'bulk' | 'watched' | 'domains'
+  >(window.location.hash === '#watched' ? 'watched' : 'history');
+  const [settingsActiveTab, setSettingsActiveTab] = useState<'chainScore' | 'general' | 'capture' | 'domains' | 'branding' | 'ai'>(
     'chainScore'
   );
   const [loading, setLoading] = useState(true);
@@ -62,66 +135,144 @@ export default function Dashboard() {
   const [sortBy, setSortBy] = useState<'date' | 'score' | 'redirects'>('date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
+  const [fixRedirects, setFixRedirects] = useState<DirectRedirect[] | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showCharts, setShowCharts] = useState(false);
+  const [watchedUrls, setWatchedUrls] = useState<WatchedUrl[]>([]);
+  const [compareEntries, setCompareEntries] = useState<HistoryEntry[]>([]);
+  const [previousRun, setPreviousRun] = useState<HistoryEntry | null>(null);
   const detailPanelRef = useRef<HTMLDivElement>(null);
 
+  // Search and filters run in the store; only loaded pages are held here
+  const historyQuery = useMemo<HistoryQuery>(
+    () => ({
+      search: debouncedSearch || undefined,
+      favorite: filter === 'favorites' || undefined,
+      grade: filter === 'all' || filter === 'favorites' ? undefined : filter,
+      limit: HISTORY_PAGE_SIZE,
+    }),
+    [debouncedSearch, filter]
+  );
+  // Pages come newest first, so any other order and the charts need every matching entry
+  const loadAllPages = showCharts || sortBy !== 'date' || sortOrder !== 'desc';
+
+  // Handlers created before a filter change still load the current list
+  const listRef = useRef({ query: historyQuery, loadAll: loadAllPages });
+  listRef.current = { query: historyQuery, loadAll: loadAllPages };
+  const loadIdRef = useRef(0);
+
   const loadData = async () => {
+    const loadId = ++loadIdRef.current;
+    const { query, loadAll } = listRef.current;
     setLoading(true);
-    const [historyData, statsData] = await Promise.all([getHistory(), getHistoryStats()]);
-    setHistory(historyData);
+    const [page, statsData] = await Promise.all([
+      loadAll
+        ? getAllHistoryPages(query).then(entries => ({ entries, nextCursor: null }))
+        : getHistoryPage(query),
+      getHistoryStats(),
+    ]);
+    if (loadId !== loadIdRef.current) return;
+    setHistory(page.entries);
+    setNextCursor(page.nextCursor);
     setStats(statsData);
     setLoading(false);
   };
 
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    const loadId = loadIdRef.current;
+    setLoadingMore(true);
+    const page = await getHistoryPage({ ...listRef.current.query, cursor: nextCursor });
+    setLoadingMore(false);
+    if (loadId !== loadIdRef.current) return;
+    setHistory(current => [...current, ...page.entries]);
+    setNextCursor(page.nextCursor);
+  };
+
+  const refreshStats = async () => {
+    setStats(await getHistoryStats());
+  };
+
   const loadSettings = async () => {
     const s = await getSettings();
     setSettings(s);
     setDarkMode(s.darkMode);
   };
 
-  const filteredHistory = useMemo(() => {
-    let filtered = [...history];
-
-    // Search filter
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        entry =>
-          entry.originalUrl.toLowerCase().includes(query) ||
-          entry.finalUrl.toLowerCase().includes(query) ||
-          entry.notes?.toLowerCase().includes(query)
+  const filteredHistory = useMemo(
+    () =>
+      [...history].sort((a, b) => {
+        let comparison = 0;
+        switch (sortBy) {
+          case 'date':
+            comparison = a.timestamp - b.timestamp;
+            break;
+          case 'score':
+            comparison = a.chainScore.score - b.chainScore.score;
+            break;
+          case 'redirects':
+            comparison = a.redirectCount - b.redirectCount;
+            break;
+        }
+        return sortOrder === 'desc' ? -comparison : comparison;
+      }),
+    [history, sortBy, sortOrder]
+  );
+
+  // Compared runs can sit on pages that aren't loaded, so they're read by id
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(compareIds.map(getHistoryEntry)).then(entries => {
+      if (cancelled) return;
+      // Older run first so the comparison reads before -> after
+      setCompareEntries(
+        entries
+          .filter((entry): entry is HistoryEntry => !!entry)
+          .sort((a, b) => a.timestamp - b.timestamp)
       );
-    }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [compareIds]);
 
-    // Grade/favorites filter
-    if (filter === 'favorites') {
-      filtered = filtered.filter(entry => entry.isFavorite);
-    } else if (['A', 'B', 'C', 'D', 'F'].includes(filter)) {
-      filtered = filtered.filter(entry => entry.chainScore.grade === filter);
+  useEffect(() => {
+    if (!selectedEntry) {
+      setPreviousRun(null);
+      return;
     }
-
-    // Sort
-    filtered.sort((a, b) => {
-      let comparison = 0;
-      switch (sortBy) {
-        case 'date':
-          comparison = a.timestamp - b.timestamp;
-          break;
-        case 'score':
-          comparison = a.chainScore.score - b.chainScore.score;
-          break;
-        case 'redirects':
-          comparison = a.redirectCount - b.redirectCount;
-          break;
-      }
-      return sortOrder === 'desc' ? -comparison : comparison;
+    let cancelled = false;
+    getPreviousRun(selectedEntry).then(entry => {
+      if (!cancelled) setPreviousRun(entry);
     });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedEntry?.id]);
 
-    return filtered;
-  }, [history, searchQuery, filter, sortBy, sortOrder]);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
 
   useEffect(() => {
     loadData();
+  }, [historyQuery, loadAllPages]);
+
+  useEffect(() => {
+    if (currentView === 'domains') getHistory().then(setAllHistory);
+  }, [currentView]);
+
+  useEffect(() => {
     loadSettings();
+    // The sidepanel can pause capture while the settings are open here
+    return onSettingsChanged(setSettings);
+  }, []);
+
+  useEffect(() => {
+    getWatchedUrls().then(setWatchedUrls);
+    return onWatchedUrlsChanged(setWatchedUrls);
   }, []);
 
   useEffect(() => {
@@ -148,22 +299,41 @@ export default function Dashboard() {
         if (selectedEntry?.id === id) {
           setSelectedEntry(null);
         }
-        await loadData();
+        // Updated in place so pages loaded past the first stay open
+        setHistory(current => current.filter(existing => existing.id !== id));
+        await refreshStats();
       }
     },
     [selectedEntry]
   );
 
+  // The favorite star also watches the URL; the entry is the baseline for the first re-check
   const handleToggleFavorite = useCallback(
     async (entry: HistoryEntry) => {
       await updateHistoryEntry(entry.id, { isFavorite: !entry.isFavorite });
+      const watch = findWatchedUrl(watchedUrls, entry.originalUrl);
+      if (entry.isFavorite && watch) {
+        chrome.runtime.sendMessage({ name: 'unwatchUrl', watchId: watch.id });
+      } else if (!entry.isFavorite && !watch) {
+        chrome.runtime.sendMessage({
+          name: 'watchUrl',
+          url: entry.originalUrl,
+          schedule: 'daily',
+          historyId: entry.id,
+        });
+      }
       // Update selected entry if it's the one we modified
       if (selectedEntry?.id === entry.id) {
         setSelectedEntry({ ...selectedEntry, isFavorite: !entry.isFavorite });
       }
-      await loadData();
+      setHistory(current =>
+        current.map(existing =>
+          existing.id === entry.id ? { ...existing, isFavorite: !entry.isFavorite } : existing
+        )
+      );
+      await refreshStats();
     },
-    [selectedEntry]
+    [selectedEntry, watchedUrls]
   );
 
   const handleClearAll = useCallback(async () => {
@@ -174,12 +344,36 @@ export default function Dashboard() {
     }
   }, []);
 
+  const handleTraced = async (entry: HistoryEntry) => {
+    await loadData();
+    setSelectedEntry(entry);
+  };
+
+  const handleOpenHistoryEntry = async (id: string) => {
+    await loadData();
+    const entry = await getHistoryEntry(id);
+    if (entry) {
+      setSelectedEntry(entry);
+      setCurrentView('history');
+    }
+  };
+
+  const handleToggleCompareEntry = (id: string) => {
+    const next = compareIds.includes(id)
+      ? compareIds.filter(existing => existing !== id)
+      : [...compareIds, id].slice(-2);
+    setCompareIds(next);
+    if (next.length === 2 && window.innerWidth < 1024) {
+      setSidebarCollapsed(true);
+    }
+  };
+
   const handleExportPDF = async (entry: HistoryEntry) => {
     await exportToPDF(entry);
   };
 
-  const handleExportAllPDF = async () => {
-    await exportHistoryToPDF(filteredHistory);
+  const handleExportAllPDF = async (options?: HistoryPdfOptions) => {
+    await exportHistoryToPDF(filteredHistory, options);
   };
 
   const handleToggleDarkMode = async () => {
@@ -195,6 +389,37 @@ export default function Dashboard() {
     await saveSettings({ [key]: newSettings[key] });
   };
 
+  const handleUpdateSetting = async <K extends keyof AppSettings>(
+    key: K,
+    value: AppSettings[K]
+  ) => {
+    if (!settings) return;
+    setSettings({ ...settings, [key]: value });
+    await saveSettings({ [key]: value });
+  };
+
+  // Apply the current scoring profile to every saved entry
+  const handleRescoreHistory = async () => {
+    if (!settings) return 0;
+    const count = await rescoreHistory(settings.scoringProfile, settings.domainRegistry);
+    await loadData();
+    if (selectedEntry) {
+      setSelectedEntry(await getHistoryEntry(selectedEntry.id));
+    }
+    return count;
+  };
+
+  // Prune history with the current retention settings instead of waiting for the alarm
+  const handleApplyRetention = async () => {
+    if (!settings) return 0;
+    const removed = await applyRetentionPolicy(settings);
+    await loadData();
+    if (selectedEntry && !(await getHistoryEntry(selectedEntry.id))) {
+      setSelectedEntry(null);
+    }
+    return removed;
+  };
+
   const getGradeColor = (grade: ChainScore['grade']) => {
     switch (grade) {
       case 'A':
@@ -280,14 +505,50 @@ export default function Dashboard() {
               </div>
             )}
             <button
-              onClick={() => setCurrentView(currentView === 'history' ? 'settings' : 'history')}
+              onClick={() => setCurrentView(currentView === 'bulk' ? 'history' : 'bulk')}
+              className={clsx(
+                'p-2 rounded-lg transition-colors',
+                currentView === 'bulk' &&
+                  (darkMode ? 'bg-slate-700 text-blue-400' : 'bg-slate-200 text-blue-600'),
+                darkMode ? 'hover:bg-slate-700' : 'hover:bg-slate-100'
+              )}
+              title={chrome.i18n.getMessage('bulkCheck')}
+            >
+              <ListChecks className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setCurrentView(currentView === 'domains' ? 'history' : 'domains')}
+              className={clsx(
+                'p-2 rounded-lg transition-colors',
+                currentView === 'domains' &&
+                  (darkMode ? 'bg-slate-700 text-blue-400' : 'bg-slate-200 text-blue-600'),
+                darkMode ? 'hover:bg-slate-700' : 'hover:bg-slate-100'
+              )}
+              title={chrome.i18n.getMessage('domainAnalytics')}
+            >
+              <BarChart3 className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setCurrentView(currentView === 'watched' ? 'history' : 'watched')}
+              className={clsx(
+                'p-2 rounded-lg transition-colors',
+                currentView === 'watched' &&
+                  (darkMode ? 'bg-slate-700 text-blue-400' : 'bg-slate-200 text-blue-600'),
+                darkMode ? 'hover:bg-slate-700' : 'hover:bg-slate-100'
+              )}
+              title={chrome.i18n.getMessage('watchedUrls')}
+            >
+              <Eye className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setCurrentView(currentView === 'settings' ? 'history' : 'settings')}
               className={clsx(
                 'p-2 rounded-lg transition-colors',
                 currentView === 'settings' &&
                   (darkMode ? 'bg-slate-700 text-blue-400' : 'bg-slate-200 text-blue-600'),
                 darkMode ? 'hover:bg-slate-700' : 'hover:bg-slate-100'
               )}
-              title={currentView === 'history' ? chrome.i18n.getMessage('settingsTitle') : chrome.i18n.getMessage('backToHistory')}
+              title={currentView === 'settings' ? chrome.i18n.getMessage('backToHistory') : chrome.i18n.getMessage('settingsTitle')}
             >
               <Settings className="w-5 h-5" />
             </button>
@@ -333,6 +594,9 @@ export default function Dashboard() {
                 darkMode ? 'border-slate-700' : 'border-slate-200'
               )}
             >
+              {/* Trace URL */}
+              <TraceUrlForm darkMode={darkMode} onTraced={handleTraced} />
+
               {/* Search */}
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
@@ -423,16 +687,55 @@ export default function Dashboard() {
                     <ChevronUp className="w-4 h-4" />
                   )}
                 </button>
-                {filteredHistory.length > 0 && (
-                  <button
-                    onClick={handleExportAllPDF}
-                    className="p-1.5 rounded-md bg-blue-500 text-white hover:bg-blue-600 transition-colors"
-                    title={chrome.i18n.getMessage('exportAllToPdf')}
-                  >
-                    <Download className="w-4 h-4" />
-                  </button>
-                )}
-                {history.length > 0 && (
+                <button
+                  onClick={() => {
+                    setCompareMode(!compareMode);
+                    setCompareIds([]);
+                    setShowCharts(false);
+                  }}
+                  className={clsx(
+                    'p-1.5 rounded-md transition-colors',
+                    compareMode
+                      ? 'bg-blue-500 text-white hover:bg-blue-600'
+                      : darkMode
+                        ? 'bg-slate-700 hover:bg-slate-600'
+                        : 'bg-slate-100 hover:bg-slate-200'
+                  )}
+                  title={chrome.i18n.getMessage('compareMode')}
+                >
+                  <GitCompare className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => {
+                    setShowCharts(!showCharts);
+                    setCompareMode(false);
+                    setCompareIds([]);
+                    if (!showCharts && window.innerWidth < 1024) {
+                      setSidebarCollapsed(true);
+                    }
+                  }}
+                  className={clsx(
+                    'p-1.5 rounded-md transition-colors',
+                    showCharts
+                      ? 'bg-blue-500 text-white hover:bg-blue-600'
+                      : darkMode
+                        ? 'bg-slate-700 hover:bg-slate-600'
+                        : 'bg-slate-100 hover:bg-slate-200'
+                  )}
+                  title={chrome.i18n.getMessage('historyCharts')}
+                >
+                  <LineChart className="w-4 h-4" />
+                </button>
+                <HistoryTransferMenu
+                  entries={filteredHistory}
+                  darkMode={darkMode}
+                  onExportPDF={handleExportAllPDF}
+                  onGenerateRules={() => setFixRedirects(getDirectRedirects(filteredHistory))}
+                  onImported={async () => {
+                    await loadData();
+                  }}
+                />
+                {!!stats?.totalEntries && (
                   <button
                     onClick={handleClearAll}
                     className="p-1.5 rounded-md bg-red-500 text-white hover:bg-red-600 transition-colors"
@@ -453,8 +756,14 @@ export default function Dashboard() {
                   : 'text-slate-500 border-slate-200 bg-slate-50'
               )}
             >
-              {filteredHistory.length} {filteredHistory.length === 1 ? chrome.i18n.getMessage('entrySingle') : chrome.i18n.getMessage('entriesLabel')}
+              {filteredHistory.length}
+              {nextCursor && '+'} {filteredHistory.length === 1 ? chrome.i18n.getMessage('entrySingle') : chrome.i18n.getMessage('entriesLabel')}
               {searchQuery && ` ${chrome.i18n.getMessage('matchingLabel')} "${searchQuery}"`}
+              {compareMode && (
+                <span className="block text-blue-500">
+                  {chrome.i18n.getMessage('compareSelectHint')} ({compareIds.length}/2)
+                </span>
+              )}
             </div>
 
             {/* History List */}
@@ -476,10 +785,17 @@ export default function Dashboard() {
                     <HistoryListItem
                       key={entry.id}
                       entry={entry}
-                      isSelected={selectedEntry?.id === entry.id}
+                      isSelected={
+                        compareMode ? compareIds.includes(entry.id) : selectedEntry?.id === entry.id
+                      }
                       darkMode={darkMode}
                       settings={settings}
                       onClick={() => {
+                        if (compareMode) {
+                          handleToggleCompareEntry(entry.id);
+                          return;
+                        }
+                        setShowCharts(false);
                         setSelectedEntry(entry);
                         if (window.innerWidth < 1024) {
                           setSidebarCollapsed(true);
@@ -489,6 +805,18 @@ export default function Dashboard() {
                       onDelete={() => handleDelete(entry.id)}
                     />
                   ))}
+                  {nextCursor && (
+                    <button
+                      onClick={handleLoadMore}
+                      disabled={loadingMore}
+                      className={clsx(
+                        'w-full px-3 py-2 text-sm font-medium text-blue-500 transition-colors disabled:opacity-50',
+                        darkMode ? 'hover:bg-slate-700' : 'hover:bg-slate-50'
+                      )}
+                    >
+                      {chrome.i18n.getMessage('loadMoreHistory')}
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -498,13 +826,53 @@ export default function Dashboard() {
           <main
             className={clsx('flex-1 overflow-hidden', darkMode ? 'bg-slate-900' : 'bg-slate-100')}
           >
-            {selectedEntry ? (
+            {compareMode ? (
+              compareEntries.length === 2 ? (
+                <ChainComparison
+                  before={compareEntries[0]}
+                  after={compareEntries[1]}
+                  darkMode={darkMode}
+                  onClose={() => {
+                    setCompareMode(false);
+                    setCompareIds([]);
+                    setSidebarCollapsed(false);
+                  }}
+                />
+              ) : (
+                <div className="h-full flex flex-col items-center justify-center text-center p-8">
+                  <GitCompare className="w-10 h-10 mb-3 text-slate-300" />
+                  <p className={clsx('text-sm', darkMode ? 'text-slate-400' : 'text-slate-500')}>
+                    {chrome.i18n.getMessage('compareSelectHint')} ({compareIds.length}/2)
+                  </p>
+                </div>
+              )
+            ) : showCharts ? (
+              <HistoryCharts
+                entries={filteredHistory}
+                darkMode={darkMode}
+                onExportPDF={handleExportAllPDF}
+                onClose={() => {
+                  setShowCharts(false);
+                  setSidebarCollapsed(false);
+                }}
+              />
+            ) : selectedEntry ? (
               <div ref={detailPanelRef} className="h-full">
                 <DetailPanel
                   entry={selectedEntry}
                   darkMode={darkMode}
                   settings={settings}
                   onExportPDF={() => handleExportPDF(selectedEntry)}
+                  onGenerateFix={() => setFixRedirects(getDirectRedirects([selectedEntry]))}
+                  onCompareWithPrevious={
+                    previousRun
+                      ? () => {
+                          setCompareIds([previousRun.id, selectedEntry.id]);
+                          setCompareMode(true);
+                        }
+                      : undefined
+                  }
+                  isWatched={!!findWatchedUrl(watchedUrls, selectedEntry.originalUrl)}
                   onToggleFavorite={() => handleToggleFavorite(selectedEntry)}
                   onDelete={() => handleDelete(selectedEntry.id)}
                   onBack={() => setSidebarCollapsed(false)}
@@ -530,6 +898,22 @@ export default function Dashboard() {
         </div>
       )}
 
+      {currentView === 'bulk' && (
+        <BulkCheckView darkMode={darkMode} onOpenEntry={handleOpenHistoryEntry} />
+      )}
+
+      {currentView === 'domains' && (
+        <DomainAnalyticsView
+          entries={allHistory}
+          darkMode={darkMode}
+          onOpenEntry={handleOpenHistoryEntry}
+        />
+      )}
+
+      {currentView === 'watched' && (
+        <WatchedUrlsView darkMode={darkMode} onOpenEntry={handleOpenHistoryEntry} />
+      )}
+
       {currentView === 'settings' && settings && (
         <SettingsViewUI
           settings={settings}
@@ -537,13 +921,41 @@ export default function Dashboard() {
           activeTab={settingsActiveTab}
           setActiveTab={setSettingsActiveTab}
           onToggleSetting={handleToggleSetting}
+          onUpdateSetting={handleUpdateSetting}
+          onRescoreHistory={handleRescoreHistory}
+          onApplyRetention={handleApplyRetention}
+        />
+      )}
+
+      {fixRedirects && (
+        <RedirectRulesDialog
+          redirects={fixRedirects}
+          darkMode={darkMode}
+          onClose={() => setFixRedirects(null)}
         />
       )}
     </div>
   );
 }
 
-function SettingsViewUI({ settings, darkMode, activeTab, setActiveTab, onToggleSetting }: any) {
+function SettingsViewUI({
+  settings,
+  darkMode,
+  activeTab,
+  setActiveTab,
+  onToggleSetting,
+  onUpdateSetting,
+  onRescoreHistory,
+  onApplyRetention,
+}: any) {
+  const toggleResourceType = (type: TrackableResourceType) => {
+    const current: TrackableResourceType[] = settings.trackedResourceTypes;
+    onUpdateSetting(
+      'trackedResourceTypes',
+      current.includes(type) ? current.filter(t => t !== type) : [...current, type]
+    );
+  };
+
   return (
     <div className="flex-1 flex overflow-hidden">
       <aside
@@ -576,6 +988,21 @@ function SettingsViewUI({ settings, darkMode, activeTab, setActiveTab, onToggleS
           >
             {chrome.i18n.getMessage("generalSettings")}
           </button>
+          <button
+            onClick={() => setActiveTab('capture')}
+            className={clsx(
+              'w-full text-left px-3 py-2 rounded-lg text-sm font-medium transition-colors',
+              activeTab === 'capture'
+                ? darkMode
+                  ? 'bg-blue-900/30 text-blue-400'
+                  : 'bg-blue-50 text-blue-600'
+                : darkMode
+                  ? 'hover:bg-slate-700 text-slate-300'
+                  : 'hover:bg-slate-100 text-slate-600'
+            )}
+          >
+            {chrome.i18n.getMessage('captureSettings')}
+          </button>
           <button
             onClick={() => setActiveTab('chainScore')}
             className={clsx(
@@ -591,6 +1018,36 @@ function SettingsViewUI({ settings, darkMode, activeTab, setActiveTab, onToggleS
           >
             {chrome.i18n.getMessage("chainScoreAnalysis")}
           </button>
+          <button
+            onClick={() => setActiveTab('domains')}
+            className={clsx(
+              'w-full text-left px-3 py-2 rounded-lg text-sm font-medium transition-colors',
+              activeTab === 'domains'
+                ? darkMode
+                  ? 'bg-blue-900/30 text-blue-400'
+                  : 'bg-blue-50 text-blue-600'
+                : darkMode
+                  ? 'hover:bg-slate-700 text-slate-300'
+                  : 'hover:bg-slate-100 text-slate-600'
+            )}
+          >
+            {chrome.i18n.getMessage('domainRegistry')}
+          </button>
+          <button
+            onClick={() => setActiveTab('branding')}
+            className={clsx(
+              'w-full text-left px-3 py-2 rounded-lg text-sm font-medium transition-colors',
+              activeTab === 'branding'
+                ? darkMode
+                  ? 'bg-blue-900/30 text-blue-400'
+                  : 'bg-blue-50 text-blue-600'
+                : darkMode
+                  ? 'hover:bg-slate-700 text-slate-300'
+                  : 'hover:bg-slate-100 text-slate-600'
+            )}
+          >
+            {chrome.i18n.getMessage('reportBranding')}
+          </button>
           <button
             onClick={() => setActiveTab('ai')}
             className={clsx(
@@ -646,8 +1103,137 @@ function SettingsViewUI({ settings, darkMode, activeTab, setActiveTab, onToggleS
                 {chrome.i18n.getMessage('useHeaderButton')}
               </span>
             </div>
+            <div
+              className={clsx(
+                'mt-4 rounded-xl border p-6 flex items-center justify-between',
+                darkMode ? 'border-slate-700 bg-slate-800' : 'border-slate-200 bg-white'
+              )}
+            >
+              <div>
+                <h3 className="font-medium">{chrome.i18n.getMessage('trackSubFrames')}</h3>
+                <p className={clsx('text-sm mt-1', darkMode ? 'text-slate-400' : 'text-slate-500')}>
+                  {chrome.i18n.getMessage('trackSubFramesDesc')}
+                </p>
+              </div>
+              <ToggleSwitch
+                checked={settings.trackSubFrames}
+                onChange={() => onToggleSetting('trackSubFrames')}
+                darkMode={darkMode}
+              />
+            </div>
+            <div
+              className={clsx(
+                'mt-4 rounded-xl border p-6',
+                darkMode ? 'border-slate-700 bg-slate-800' : 'border-slate-200 bg-white'
+              )}
+            >
+              <h3 className="font-medium">{chrome.i18n.getMessage('networkChainMode')}</h3>
+              <p className={clsx('text-sm mt-1', darkMode ? 'text-slate-400' : 'text-slate-500')}>
+                {chrome.i18n.getMessage('networkChainModeDesc')}
+              </p>
+              <div className="flex flex-wrap gap-2 mt-4">
+                {TRACKABLE_RESOURCE_TYPES.map(type => {
+                  const isTracked = settings.trackedResourceTypes.includes(type);
+                  return (
+                    <button
+                      key={type}
+                      onClick={() => toggleResourceType(type)}
+                      className={clsx(
+                        'px-3 py-1.5 rounded-lg text-xs font-mono border transition-colors',
+                        isTracked
+                          ? 'bg-blue-500 border-blue-500 text-white'
+                          : darkMode
+                            ? 'border-slate-600 text-slate-300 hover:bg-slate-700'
+                            : 'border-slate-200 text-slate-600 hover:bg-slate-100'
+                      )}
+                    >
+                      {type}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            <div
+              className={clsx(
+                'mt-4 rounded-xl border p-6 flex items-center justify-between gap-4',
+                darkMode ? 'border-slate-700 bg-slate-800' : 'border-slate-200 bg-white'
+              )}
+            >
+              <div>
+                <h3 className="font-medium">{chrome.i18n.getMessage('reportLanguage')}</h3>
+                <p className={clsx('text-sm mt-1', darkMode ? 'text-slate-400' : 'text-slate-500')}>
+                  {chrome.i18n.getMessage('reportLanguageDesc')}
+                </p>
+              </div>
+              <select
+                value={settings.reportLanguage}
+                onChange={e => onUpdateSetting('reportLanguage', e.target.value)}
+                className={clsx(
+                  'px-2 py-1.5 rounded-md border text-sm',
+                  darkMode ? 'bg-slate-700 border-slate-600' : 'bg-slate-50 border-slate-200'
+                )}
+              >
+                <option value="">{chrome.i18n.getMessage('reportLanguageAuto')}</option>
+                {REPORT_LOCALES.map(option => (
+                  <option key={option.locale} value={option.locale}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <RetentionSettings
+              settings={settings}
+              darkMode={darkMode}
+              onUpdateSetting={onUpdateSetting}
+              onApplyRetention={onApplyRetention}
+            >
+              {(['retainFavorites', 'retainTagged'] as const).map(key => (
+                <div key={key} className="flex items-center justify-between text-sm">
+                  <span>{chrome.i18n.getMessage(key)}</span>
+                  <ToggleSwitch
+                    checked={settings[key]}
+                    onChange={() => onToggleSetting(key)}
+                    darkMode={darkMode}
+                  />
+                </div>
+              ))}
+            </RetentionSettings>
           </div>
         )}
+        {activeTab === 'capture' && (
+          <CaptureSettings settings={settings} darkMode={darkMode} onUpdateSetting={onUpdateSetting}>
+            {(['capturePaused', 'captureIncognito'] as const).map(key => (
+              <div key={key} className="flex items-center justify-between text-sm">
+                <span>{chrome.i18n.getMessage(key)}</span>
+                <ToggleSwitch
+                  checked={settings[key]}
+                  onChange={() => onToggleSetting(key)}
+                  darkMode={darkMode}
+                />
+              </div>
+            ))}
+          </CaptureSettings>
+        )}
+        {activeTab === 'domains' && (
+          <DomainRegistrySettings
+            rules={settings.domainRegistry}
+            darkMode={darkMode}
+            onChange={(rules: DomainRule[]) => onUpdateSetting('domainRegistry', rules)}
+          />
+        )}
+        {activeTab === 'branding' && (
+          <ReportBrandingSettings
+            branding={settings.reportBranding}
+            template={settings.reportTemplate}
+            darkMode={darkMode}
+            onChangeBranding={(branding: ReportBranding) =>
+              onUpdateSetting('reportBranding', branding)
+            }
+            onChangeTemplate={(template: ReportTemplate) =>
+              onUpdateSetting('reportTemplate', template)
+            }
+          />
+        )}
         {activeTab === 'chainScore' && (
           <div className="max-w-3xl">
             <h2 className="text-2xl font-semibold mb-2">{chrome.i18n.getMessage('chainScoreVisibility')}</h2>
@@ -734,6 +1320,13 @@ function SettingsViewUI({ settings, darkMode, activeTab, setActiveTab, onToggleS
                 </div>
               </div>
             </div>
+
+            <ScoringRulesSection
+              profile={resolveScoringProfile(settings.scoringProfile)}
+              darkMode={darkMode}
+              onChange={(profile: ScoringProfile) => onUpdateSetting('scoringProfile', profile)}
+              onRescoreHistory={onRescoreHistory}
+            />
           </div>
         )}
         {activeTab === 'ai' && (
@@ -757,6 +1350,224 @@ function SettingsViewUI({ settings, darkMode, activeTab, setActiveTab, onToggleS
   );
 }
 
+// Editable scoring rules and grade thresholds of the chain score
+function ScoringRulesSection({
+  profile,
+  darkMode,
+  onChange,
+  onRescoreHistory,
+}: {
+  profile: ScoringProfile;
+  darkMode: boolean;
+  onChange: (profile: ScoringProfile) => void;
+  onRescoreHistory: () => Promise<number>;
+}) {
+  const [rescoring, setRescoring] = useState(false);
+  const [rescoredCount, setRescoredCount] = useState<number | null>(null);
+
+  const updateRule = (id: ScoringRule['id'], updates: Partial<ScoringRule>) => {
+    setRescoredCount(null);
+    onChange({
+      ...profile,
+      rules: profile.rules.map(rule => (rule.id === id ? { ...rule, ...updates } : rule)),
+    });
+  };
+
+  const updateGradeThreshold = (grade: keyof GradeThresholds, value: number) => {
+    setRescoredCount(null);
+    onChange({ ...profile, gradeThresholds: { ...profile.gradeThresholds, [grade]: value } });
+  };
+
+  const updateCategoryWeight = (category: DomainCategory, value: string) => {
+    setRescoredCount(null);
+    const categoryWeights = { ...profile.categoryWeights };
+    if (value === '') delete categoryWeights[category];
+    else categoryWeights[category] = Math.max(0, Number(value));
+    onChange({ ...profile, categoryWeights });
+  };
+
+  const ruleWeight = (id: ScoringRule['id']) =>
+    profile.rules.find(rule => rule.id === id)?.weight ?? 0;
+
+  const handleRescore = async () => {
+    setRescoring(true);
+    try {
+      setRescoredCount(await onRescoreHistory());
+    } finally {
+      setRescoring(false);
+    }
+  };
+
+  const weightLabels = {
+    perHop: chrome.i18n.getMessage('rulePointsPerHop'),
+    perChain: chrome.i18n.getMessage('rulePointsPerChain'),
+    bonus: chrome.i18n.getMessage('ruleBonusPoints'),
+  };
+  const thresholdLabels = {
+    hops: chrome.i18n.getMessage('ruleThresholdHops'),
+    ms: chrome.i18n.getMessage('ruleThresholdMs'),
+  };
+  const inputClass = clsx(
+    'w-20 px-2 py-1 rounded-lg border text-sm transition-colors',
+    darkMode
+      ? 'bg-slate-700 border-slate-600 focus:border-blue-500'
+      : 'bg-slate-50 border-slate-200 focus:border-blue-500'
+  );
+  const cardClass = clsx(
+    'rounded-xl border',
+    darkMode ? 'border-slate-700 bg-slate-800/50' : 'border-slate-200 bg-white'
+  );
+  const mutedClass = darkMode ? 'text-slate-400' : 'text-slate-500';
+
+  return (
+    <div className="mt-10">
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-semibold mb-2">{chrome.i18n.getMessage('scoringRules')}</h2>
+          <p className={clsx('text-sm', mutedClass)}>
+            {chrome.i18n.getMessage('scoringRulesDesc')}
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setRescoredCount(null);
+            onChange(DEFAULT_SCORING_PROFILE);
+          }}
+          className={clsx(
+            'shrink-0 flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm transition-colors',
+            darkMode ? 'bg-slate-700 hover:bg-slate-600' : 'bg-slate-100 hover:bg-slate-200'
+          )}
+        >
+          <RotateCcw className="w-4 h-4" />
+          {chrome.i18n.getMessage('resetScoringDefaults')}
+        </button>
+      </div>
+
+      <div
+        className={clsx(cardClass, 'divide-y', darkMode ? 'divide-slate-700' : 'divide-slate-100')}
+      >
+        {profile.rules.map(rule => {
+          const units = SCORING_RULE_UNITS[rule.id];
+          return (
+            <div key={rule.id} className="p-4 flex flex-wrap items-center gap-4">
+              <div className={clsx('flex-1 min-w-48', !rule.enabled && 'opacity-50')}>
+                <span className="font-medium text-sm">
+                  {chrome.i18n.getMessage(
+                    `scoreRule${rule.id.charAt(0).toUpperCase()}${rule.id.slice(1)}`
+                  )}
+                </span>
+              </div>
+              <label className="text-xs flex items-center gap-2">
+                <span className={mutedClass}>{weightLabels[units.weight]}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={rule.weight}
+                  disabled={!rule.enabled}
+                  onChange={e =>
+                    updateRule(rule.id, { weight: Math.max(0, Number(e.target.value)) })
+                  }
+                  className={inputClass}
+                />
+              </label>
+              {units.threshold && (
+                <label className="text-xs flex items-center gap-2">
+                  <span className={mutedClass}>{thresholdLabels[units.threshold]}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={units.threshold === 'ms' ? 100 : 1}
+                    value={rule.threshold ?? 0}
+                    disabled={!rule.enabled}
+                    onChange={e =>
+                      updateRule(rule.id, { threshold: Math.max(0, Number(e.target.value)) })
+                    }
+                    className={inputClass}
+                  />
+                </label>
+              )}
+              <ToggleSwitch
+                checked={rule.enabled}
+                onChange={() => updateRule(rule.id, { enabled: !rule.enabled })}
+                darkMode={darkMode}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className={clsx(cardClass, 'mt-4 p-6')}>
+        <h3 className="font-medium">{chrome.i18n.getMessage('gradeThresholds')}</h3>
+        <p className={clsx('text-sm mt-1', mutedClass)}>
+          {chrome.i18n.getMessage('gradeThresholdsDesc')}
+        </p>
+        <div className="flex flex-wrap gap-4 mt-4">
+          {(['A', 'B', 'C', 'D'] as const).map(grade => (
+            <label key={grade} className="text-sm flex items-center gap-2">
+              <span className="font-bold">{grade} ≥</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={profile.gradeThresholds[grade]}
+                onChange={e =>
+                  updateGradeThreshold(grade, Math.max(0, Math.min(100, Number(e.target.value))))
+                }
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className={clsx(cardClass, 'mt-4 p-6')}>
+        <h3 className="font-medium">{chrome.i18n.getMessage('categoryWeights')}</h3>
+        <p className={clsx('text-sm mt-1', mutedClass)}>
+          {chrome.i18n.getMessage('categoryWeightsDesc')}
+        </p>
+        <div className="flex flex-wrap gap-4 mt-4">
+          {DOMAIN_CATEGORIES.map(category => (
+            <label key={category} className="text-sm flex items-center gap-2">
+              <CategoryChip category={category} darkMode={darkMode} />
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={profile.categoryWeights[category] ?? ''}
+                placeholder={String(
+                  ruleWeight(category === 'internal' ? 'regularRedirect' : 'trackingRedirect')
+                )}
+                onChange={e => updateCategoryWeight(category, e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className={clsx(cardClass, 'mt-4 p-6 flex items-center justify-between gap-4')}>
+        <div>
+          <h3 className="font-medium">{chrome.i18n.getMessage('rescoreHistory')}</h3>
+          <p className={clsx('text-sm mt-1', mutedClass)}>
+            {rescoredCount != null
+              ? `${chrome.i18n.getMessage('rescoredEntries')}: ${rescoredCount}`
+              : chrome.i18n.getMessage('rescoreHistoryDesc')}
+          </p>
+        </div>
+        <button
+          onClick={handleRescore}
+          disabled={rescoring}
+          className="shrink-0 flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm font-medium bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 transition-colors"
+        >
+          <RefreshCw className={clsx('w-4 h-4', rescoring && 'animate-spin')} />
+          {chrome.i18n.getMessage('rescoreHistory')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
 function ToggleSwitch({
   checked,
   onChange,
@@ -887,6 +1698,7 @@ function HistoryListItem({
               e.stopPropagation();
               onToggleFavorite();
             }}
+            title={entry.isFavorite ? chrome.i18n.getMessage('unfavoriteAndUnwatch') : chrome.i18n.getMessage('favoriteAndWatch')}
             className={clsx(
               'p-1 rounded transition-colors',
               entry.isFavorite
@@ -923,6 +1735,9 @@ function DetailPanel({
   darkMode,
   settings,
   onExportPDF,
+  onGenerateFix,
+  onCompareWithPrevious,
+  isWatched,
   onToggleFavorite,
   onDelete,
   onBack,
@@ -931,11 +1746,20 @@ function DetailPanel({
   darkMode: boolean;
   settings: AppSettings | null;
   onExportPDF: () => void;
+  onGenerateFix: () => void;
+  onCompareWithPrevious?: () => void;
+  isWatched: boolean;
   onToggleFavorite: () => void;
   onDelete: () => void;
   onBack: () => void;
 }) {
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
+  const expectation = entry.expected
+    ? checkExpectation(entry.expected, {
+        finalUrl: entry.finalUrl,
+        firstStatus: entry.path[0]?.status_code,
+      })
+    : null;
 
   const toggleExpanded = (id: string) => {
     setExpandedItems(prev => {
@@ -1075,7 +1899,7 @@ function DetailPanel({
                     ? 'text-slate-400 hover:text-slate-200'
                     : 'text-slate-400 hover:text-slate-600'
               )}
-              title={entry.isFavorite ? chrome.i18n.getMessage('removeFromFavorites') : chrome.i18n.getMessage('addToFavorites')}
+              title={entry.isFavorite ? chrome.i18n.getMessage('unfavoriteAndUnwatch') : chrome.i18n.getMessage('favoriteAndWatch')}
             >
               {entry.isFavorite ? (
                 <Star className="w-5 h-5 fill-current" />
@@ -1083,6 +1907,11 @@ function DetailPanel({
                 <StarOff className="w-5 h-5" />
               )}
             </button>
+            {isWatched && (
+              <span className="p-2 text-blue-500" title={chrome.i18n.getMessage('watchedUrls')}>
+                <Eye className="w-5 h-5" />
+              </span>
+            )}
             <button
               onClick={onExportPDF}
               className={clsx(
@@ -1095,6 +1924,56 @@ function DetailPanel({
             >
               <Download className="w-5 h-5" />
             </button>
+            <button
+              onClick={() => downloadChainHar(entry.path)}
+              className={clsx(
+                'p-2 rounded-lg transition-colors',
+                darkMode
+                  ? 'text-slate-400 hover:text-slate-200'
+                  : 'text-slate-400 hover:text-slate-600'
+              )}
+              title={chrome.i18n.getMessage('exportChainHar')}
+            >
+              <Network className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => downloadHtmlReport([entry])}
+              className={clsx(
+                'p-2 rounded-lg transition-colors',
+                darkMode
+                  ? 'text-slate-400 hover:text-slate-200'
+                  : 'text-slate-400 hover:text-slate-600'
+              )}
+              title={chrome.i18n.getMessage('exportHtmlReport')}
+            >
+              <FileCode className="w-5 h-5" />
+            </button>
+            <button
+              onClick={onGenerateFix}
+              className={clsx(
+                'p-2 rounded-lg transition-colors',
+                darkMode
+                  ? 'text-slate-400 hover:text-slate-200'
+                  : 'text-slate-400 hover:text-slate-600'
+              )}
+              title={chrome.i18n.getMessage('generateFix')}
+            >
+              <Wrench className="w-5 h-5" />
+            </button>
+            {onCompareWithPrevious && (
+              <button
+                onClick={onCompareWithPrevious}
+                className={clsx(
+                  'p-2 rounded-lg transition-colors',
+                  darkMode
+                    ? 'text-slate-400 hover:text-slate-200'
+                    : 'text-slate-400 hover:text-slate-600'
+                )}
+                title={chrome.i18n.getMessage('compareWithPrevious')}
+              >
+                <GitCompare className="w-5 h-5" />
+              </button>
+            )}
             <button
               onClick={onDelete}
               className="p-2 rounded-lg text-red-400 hover:text-red-500 transition-colors"
@@ -1108,6 +1987,75 @@ function DetailPanel({
 
       {/* Panel Content - Scrollable */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* Expected Outcome Section */}
+        {entry.expected && expectation && (
+          <section
+            className={clsx(
+              'rounded-xl p-4 border',
+              darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
+            )}
+          >
+            <h3 className="font-medium mb-3 flex items-center gap-2">
+              {expectation.pass ? (
+                <CheckCircle className="w-4 h-4 text-green-500" />
+              ) : (
+                <XCircle className="w-4 h-4 text-red-500" />
+              )}
+              {chrome.i18n.getMessage('expectedOutcome')}
+              <span
+                className={clsx(
+                  'text-[10px] px-1.5 py-0.5 rounded uppercase font-medium',
+                  expectation.pass
+                    ? darkMode
+                      ? 'bg-green-900/50 text-green-300'
+                      : 'bg-green-100 text-green-700'
+                    : darkMode
+                      ? 'bg-red-900/50 text-red-300'
+                      : 'bg-red-100 text-red-700'
+                )}
+              >
+                {chrome.i18n.getMessage(expectation.pass ? 'mappingPass' : 'mappingFail')}
+              </span>
+            </h3>
+            <div className="grid grid-cols-[auto_1fr_1fr] gap-x-4 gap-y-1 text-xs">
+              <span />
+              <span className={darkMode ? 'text-slate-500' : 'text-slate-400'}>
+                {chrome.i18n.getMessage('expectedLabel')}
+              </span>
+              <span className={darkMode ? 'text-slate-500' : 'text-slate-400'}>
+                {chrome.i18n.getMessage('actualLabel')}
+              </span>
+              {entry.expected.targetUrl && (
+                <>
+                  <span className={darkMode ? 'text-slate-400' : 'text-slate-500'}>
+                    {chrome.i18n.getMessage('finalUrl')}
+                  </span>
+                  <code className="break-all">{entry.expected.targetUrl}</code>
+                  <code
+                    className={clsx(
+                      'break-all',
+                      expectation.targetMatch ? 'text-green-500' : 'text-red-500'
+                    )}
+                  >
+                    {expectation.actualTarget}
+                  </code>
+                </>
+              )}
+              {entry.expected.status != null && (
+                <>
+                  <span className={darkMode ? 'text-slate-400' : 'text-slate-500'}>
+                    {chrome.i18n.getMessage('firstHopStatus')}
+                  </span>
+                  <code>{entry.expected.status}</code>
+                  <code className={expectation.statusMatch ? 'text-green-500' : 'text-red-500'}>
+                    {expectation.actualStatus}
+                  </code>
+                </>
+              )}
+            </div>
+          </section>
+        )}
+
         {/* Issues Section */}
         {settings?.showChainScoreInDashboard !== false && entry.chainScore.issues.length > 0 && (
           <section
@@ -1142,12 +2090,12 @@ function DetailPanel({
                         issue.type === 'info' && (darkMode ? 'text-green-400' : 'text-green-700')
                       )}
                     >
-                      {issue.message}
+                      {getIssueMessage(issue)}
                     </p>
                     <span
                       className={clsx('text-xs', darkMode ? 'text-slate-500' : 'text-slate-400')}
                     >
-                      {chrome.i18n.getMessage('impactLabel')}: {issue.impact}
+                      {chrome.i18n.getMessage('impactLabel')}: {getImpactLabel(issue.impact)}
                     </span>
                   </div>
                 </div>
@@ -1179,13 +2127,23 @@ function DetailPanel({
                     )}
                   >
                     <span className="text-blue-500 mt-0.5">→</span>
-                    {rec}
+                    {getRecommendationMessage(rec)}
                   </li>
                 ))}
               </ul>
             </section>
           )}
 
+        {/* Attribution Section */}
+        <AttributionPanel
+          path={entry.path}
+          registry={settings?.domainRegistry}
+          darkMode={darkMode}
+        />
+
+        {/* Parameter Flow Section */}
+        <ParamFlowTable path={entry.path} darkMode={darkMode} />
+
         {/* Redirect Chain Section */}
         <section
           className={clsx(
@@ -1206,7 +2164,8 @@ function DetailPanel({
                   <div
                     className={clsx(
                       'w-9 h-9 rounded-full flex items-center justify-center text-white text-sm font-medium shrink-0 z-10',
-                      getStatusColor(item.status_code)
+                      getStatusColor(item.status_code),
+                      item.in_loop && 'ring-2 ring-red-500/60'
                     )}
                   >
                     {idx + 1}
@@ -1249,10 +2208,27 @@ function DetailPanel({
                                 : item.redirect_type === 'hsts'
                                   ? chrome.i18n.getMessage('hstsRedirect')
                                   : chrome.i18n.getMessage('temporaryRedirect')
-                              : item.statusObject?.isSuccess
-                                ? chrome.i18n.getMessage('success')
-                                : item.status_line}
+                              : item.type === 'client_redirect'
+                                ? item.redirect_type === 'meta'
+                                  ? chrome.i18n.getMessage('metaRefreshRedirect')
+                                  : chrome.i18n.getMessage('javascriptRedirect')
+                                : item.statusObject?.isSuccess
+                                  ? chrome.i18n.getMessage('success')
+                                  : item.status_line}
                           </span>
+                          {item.in_loop && (
+                            <span
+                              className={clsx(
+                                'flex items-center gap-1 text-[10px] font-medium px-1.5 py-0.5 rounded uppercase',
+                                darkMode ? 'bg-red-900/50 text-red-300' : 'bg-red-100 text-red-700'
+                              )}
+                              title={chrome.i18n.getMessage('redirectLoopHint')}
+                            >
+                              <Repeat className="w-3 h-3" />
+                              {chrome.i18n.getMessage('redirectLoop')}
+                            </span>
+                          )}
+                          {item.category && <CategoryChip category={item.category} darkMode={darkMode} />}
                           <span className="flex-1" />
                           <span
                             className={clsx(
@@ -1286,7 +2262,7 @@ function DetailPanel({
                               {formatDuration(item.timing.duration)}
                             </span>
                           )}
-                          {item.type === 'server_redirect' && item.redirect_type && (
+                          {item.redirect_type && (
                             <span
                               className={clsx(
                                 'px-2 py-0.5 rounded text-xs',
@@ -1340,6 +2316,33 @@ function DetailPanel({
                           : 'bg-slate-50 border-slate-200'
                       )}
                     >
+                      {item.type === 'client_redirect' && (
+                        <div
+                          className={clsx(
+                            'mb-3 pb-3 border-b text-xs space-y-1',
+                            darkMode ? 'border-slate-600' : 'border-slate-200'
+                          )}
+                        >
+                          {item.redirect_url && (
+                            <p className="break-all">
+                              <ArrowRight className="w-3 h-3 inline mr-1" />
+                              {item.redirect_url}
+                            </p>
+                          )}
+                          {item.redirect_delay != null && (
+                            <p>
+                              <strong>{chrome.i18n.getMessage('clientRedirectDelay')}:</strong>{' '}
+                              {formatDuration(item.redirect_delay)}
+                            </p>
+                          )}
+                          {item.redirect_source && (
+                            <p>
+                              <strong>{chrome.i18n.getMessage('clientRedirectSource')}:</strong>{' '}
+                              <code className="break-all">{item.redirect_source}</code>
+                            </p>
+                          )}
+                        </div>
+                      )}
                       <HeadersList headers={item.headers} ip={item.ip} darkMode={darkMode} />
                     </div>
                   )}
@@ -0,0 +1,399 @@
+import clsx from 'clsx';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowRight, ChevronDown, ChevronRight, ChevronUp, Search } from 'lucide-react';
+import { Fragment, useMemo, useState } from 'react';
+import { ChainIssueCode, ChainScore, HistoryEntry, formatDuration } from '../../types/redirect';
+import { DomainGroupBy, DomainStats, getDomainStats } from '../../utils/domain-analytics';
+
+interface DomainAnalyticsViewProps {
+  entries: HistoryEntry[];
+  darkMode: boolean;
+  onOpenEntry: (historyId: string) => void;
+}
+
+type SortKey =
+  | 'hostname'
+  | 'chains'
+  | 'avgScore'
+  | 'worstScore'
+  | 'avgHops'
+  | 'temporaryRedirectRate'
+  | 'slowestHop';
+
+const GRADE_COLORS: Record<ChainScore['grade'], string> = {
+  A: 'bg-green-500 text-white',
+  B: 'bg-lime-500 text-slate-900',
+  C: 'bg-yellow-500 text-slate-900',
+  D: 'bg-orange-500 text-white',
+  F: 'bg-red-500 text-white',
+};
+
+// Issue names reuse the scoring rule labels where there's a matching rule
+const ISSUE_LABELS: Record<ChainIssueCode, string> = {
+  trackingRedirects: 'scoreRuleTrackingRedirect',
+  redirectLoop: 'scoreRuleRedirectLoop',
+  excessiveChain: 'scoreRuleExcessiveChain',
+  longChain: 'scoreRuleLongChain',
+  multipleRedirects: 'issueMultipleRedirects',
+  temporaryRedirects: 'scoreRuleTemporaryRedirect',
+  clientRedirects: 'scoreRuleClientRedirect',
+  errorResponses: 'scoreRuleErrorResponse',
+  insecureUrl: 'scoreRuleInsecureUrl',
+  lostTrackingParams: 'scoreRuleLostTrackingParams',
+  fastChain: 'scoreRuleFastChain',
+  slowRedirects: 'scoreRuleSlowRedirect',
+  directAccess: 'issueDirectAccess',
+  singlePermanentRedirect: 'issueSinglePermanentRedirect',
+};
+
+function getSortValue(stats: DomainStats, key: SortKey): number | string {
+  if (key === 'slowestHop') return stats.slowestHop?.duration ?? -1;
+  return stats[key];
+}
+
+function getScoreColor(score: number): string {
+  if (score >= 80) return 'text-green-500';
+  if (score >= 60) return 'text-amber-500';
+  return 'text-red-500';
+}
+
+export default function DomainAnalyticsView({
+  entries,
+  darkMode,
+  onOpenEntry,
+}: DomainAnalyticsViewProps) {
+  const [groupBy, setGroupBy] = useState<DomainGroupBy>('original');
+  const [query, setQuery] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('avgScore');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [expandedHost, setExpandedHost] = useState<string | null>(null);
+
+  const domainStats = useMemo(() => getDomainStats(entries, groupBy), [entries, groupBy]);
+  const entriesById = useMemo(() => new Map(entries.map(entry => [entry.id, entry])), [entries]);
+
+  const rows = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const filtered = needle
+      ? domainStats.filter(stats => stats.hostname.includes(needle))
+      : [...domainStats];
+    return filtered.sort((a, b) => {
+      const left = getSortValue(a, sortKey);
+      const right = getSortValue(b, sortKey);
+      const comparison =
+        typeof left === 'string' ? left.localeCompare(String(right)) : left - (right as number);
+      return sortOrder === 'desc' ? -comparison : comparison;
+    });
+  }, [domainStats, query, sortKey, sortOrder]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      // Scores read worst first; counts, times and rates read largest first
+      setSortOrder(
+        key === 'avgScore' || key === 'worstScore' || key === 'hostname' ? 'asc' : 'desc'
+      );
+    }
+  };
+
+  const mutedClass = darkMode ? 'text-slate-400' : 'text-slate-500';
+  const columns: { key: SortKey; label: string; align?: 'right' }[] = [
+    { key: 'hostname', label: chrome.i18n.getMessage('domainColumn') },
+    { key: 'chains', label: chrome.i18n.getMessage('domainChains'), align: 'right' },
+    { key: 'avgScore', label: chrome.i18n.getMessage('domainAvgScore'), align: 'right' },
+    { key: 'worstScore', label: chrome.i18n.getMessage('domainWorstScore'), align: 'right' },
+    { key: 'avgHops', label: chrome.i18n.getMessage('domainAvgHops'), align: 'right' },
+    {
+      key: 'temporaryRedirectRate',
+      label: chrome.i18n.getMessage('domainTemporaryRate'),
+      align: 'right',
+    },
+    { key: 'slowestHop', label: chrome.i18n.getMessage('domainSlowestHop'), align: 'right' },
+  ];
+
+  return (
+    <div
+      className={clsx(
+        'flex-1 overflow-y-auto p-6 md:p-10',
+        darkMode ? 'bg-slate-900' : 'bg-slate-50'
+      )}
+    >
+      <div className="max-w-6xl space-y-6">
+        <div>
+          <h2 className="text-2xl font-semibold mb-2">
+            {chrome.i18n.getMessage('domainAnalytics')}
+          </h2>
+          <p className={clsx('text-sm', mutedClass)}>
+            {chrome.i18n.getMessage('domainAnalyticsDesc')}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div
+            className={clsx(
+              'flex rounded-lg p-0.5 text-sm',
+              darkMode ? 'bg-slate-800' : 'bg-slate-200'
+            )}
+          >
+            {(['original', 'final'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => {
+                  setGroupBy(option);
+                  setExpandedHost(null);
+                }}
+                className={clsx(
+                  'px-3 py-1.5 rounded-md transition-colors',
+                  groupBy === option
+                    ? darkMode
+                      ? 'bg-slate-600 text-white'
+                      : 'bg-white text-slate-900 shadow-sm'
+                    : mutedClass
+                )}
+              >
+                {chrome.i18n.getMessage(
+                  option === 'original' ? 'groupByOriginalHost' : 'groupByFinalHost'
+                )}
+              </button>
+            ))}
+          </div>
+          <div className="relative flex-1 min-w-[12rem] max-w-sm">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder={chrome.i18n.getMessage('filterDomains')}
+              className={clsx(
+                'w-full pl-9 pr-3 py-2 rounded-lg border text-sm transition-colors',
+                darkMode
+                  ? 'bg-slate-800 border-slate-700 focus:border-blue-500'
+                  : 'bg-white border-slate-200 focus:border-blue-500'
+              )}
+            />
+          </div>
+          <span className={clsx('text-sm', mutedClass)}>
+            {chrome.i18n.getMessage('domainCount')}: {rows.length}
+          </span>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className={clsx('text-sm text-center py-10', mutedClass)}>
+            {chrome.i18n.getMessage(entries.length === 0 ? 'noHistoryYet' : 'noMatches')}
+          </p>
+        ) : (
+          <div
+            className={clsx(
+              'rounded-xl border overflow-x-auto',
+              darkMode ? 'border-slate-700 bg-slate-800' : 'border-slate-200 bg-white'
+            )}
+          >
+            <table className="w-full text-sm">
+              <thead>
+                <tr
+                  className={clsx(
+                    'border-b text-xs',
+                    darkMode ? 'border-slate-700' : 'border-slate-200',
+                    mutedClass
+                  )}
+                >
+                  {columns.map(column => (
+                    <th
+                      key={column.key}
+                      className={clsx(
+                        'px-3 py-2 font-medium whitespace-nowrap',
+                        column.align === 'right' ? 'text-right' : 'text-left'
+                      )}
+                    >
+                      <button
+                        onClick={() => handleSort(column.key)}
+                        className="inline-flex items-center gap-1 hover:text-blue-500"
+                      >
+                        {column.label}
+                        {sortKey === column.key &&
+                          (sortOrder === 'asc' ? (
+                            <ChevronUp className="w-3 h-3" />
+                          ) : (
+                            <ChevronDown className="w-3 h-3" />
+                          ))}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 font-medium text-left whitespace-nowrap">
+                    {chrome.i18n.getMessage('domainTopIssues')}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(stats => {
+                  const isExpanded = expandedHost === stats.hostname;
+                  return (
+                    <Fragment key={stats.hostname}>
+                      <tr
+                        onClick={() => setExpandedHost(isExpanded ? null : stats.hostname)}
+                        className={clsx(
+                          'border-b cursor-pointer transition-colors',
+                          darkMode
+                            ? 'border-slate-700 hover:bg-slate-700/50'
+                            : 'border-slate-100 hover:bg-slate-50',
+                          isExpanded && (darkMode ? 'bg-slate-700/50' : 'bg-slate-50')
+                        )}
+                      >
+                        <td className="px-3 py-2">
+                          <div className="flex items-center gap-1.5 font-mono text-xs">
+                            {isExpanded ? (
+                              <ChevronDown className="w-3.5 h-3.5 text-slate-400 shrink-0" />
+                            ) : (
+                              <ChevronRight className="w-3.5 h-3.5 text-slate-400 shrink-0" />
+                            )}
+                            <span className="truncate max-w-[16rem]" title={stats.hostname}>
+                              {stats.hostname}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="px-3 py-2 text-right tabular-nums">{stats.chains}</td>
+                        <td
+                          className={clsx(
+                            'px-3 py-2 text-right tabular-nums font-semibold',
+                            getScoreColor(stats.avgScore)
+                          )}
+                        >
+                          {stats.avgScore}
+                        </td>
+                        <td
+                          className={clsx(
+                            'px-3 py-2 text-right tabular-nums',
+                            getScoreColor(stats.worstScore)
+                          )}
+                        >
+                          {stats.worstScore}
+                        </td>
+                        <td className="px-3 py-2 text-right tabular-nums">
+                          {stats.avgHops.toFixed(1)}
+                        </td>
+                        <td className="px-3 py-2 text-right tabular-nums">
+                          {Math.round(stats.temporaryRedirectRate * 100)}%
+                        </td>
+                        <td
+                          className="px-3 py-2 text-right tabular-nums whitespace-nowrap"
+                          title={stats.slowestHop?.url}
+                        >
+                          {stats.slowestHop ? formatDuration(stats.slowestHop.duration) : '—'}
+                        </td>
+                        <td className="px-3 py-2">
+                          <div className="flex flex-wrap gap-1">
+                            {stats.topIssues.map(issue => (
+                              <span
+                                key={issue.code}
+                                className={clsx(
+                                  'text-[10px] px-1.5 py-0.5 rounded whitespace-nowrap',
+                                  darkMode
+                                    ? 'bg-amber-900/40 text-amber-300'
+                                    : 'bg-amber-100 text-amber-700'
+                                )}
+                              >
+                                {chrome.i18n.getMessage(ISSUE_LABELS[issue.code])} ×{issue.count}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr
+                          className={clsx(
+                            'border-b',
+                            darkMode ? 'border-slate-700' : 'border-slate-100'
+                          )}
+                        >
+                          <td colSpan={columns.length + 1} className="p-0">
+                            <DomainEntries
+                              entries={stats.entryIds
+                                .map(id => entriesById.get(id))
+                                .filter((entry): entry is HistoryEntry => !!entry)
+                                .sort((a, b) => a.chainScore.score - b.chainScore.score)}
+                              darkMode={darkMode}
+                              onOpenEntry={onOpenEntry}
+                            />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Drill-down into a domain's chains, worst first
+function DomainEntries({
+  entries,
+  darkMode,
+  onOpenEntry,
+}: {
+  entries: HistoryEntry[];
+  darkMode: boolean;
+  onOpenEntry: (historyId: string) => void;
+}) {
+  return (
+    <div
+      className={clsx(
+        'max-h-80 overflow-y-auto divide-y text-xs',
+        darkMode ? 'bg-slate-900/40 divide-slate-700' : 'bg-slate-50/60 divide-slate-100'
+      )}
+    >
+      {entries.map(entry => (
+        <button
+          key={entry.id}
+          onClick={() => onOpenEntry(entry.id)}
+          className={clsx(
+            'w-full pl-9 pr-4 py-2 flex items-center gap-2 text-left',
+            darkMode ? 'hover:bg-slate-700/50' : 'hover:bg-white'
+          )}
+        >
+          <span
+            className={clsx(
+              'font-bold px-1.5 py-0.5 rounded text-[10px] shrink-0',
+              GRADE_COLORS[entry.chainScore.grade]
+            )}
+          >
+            {entry.chainScore.grade}
+          </span>
+          <span className="font-medium tabular-nums shrink-0 w-6 text-right">
+            {entry.chainScore.score}
+          </span>
+          <span className="font-mono truncate" title={entry.originalUrl}>
+            {entry.originalUrl}
+          </span>
+          {entry.finalUrl !== entry.originalUrl && (
+            <>
+              <ArrowRight className="w-3 h-3 shrink-0 text-slate-400" />
+              <span
+                className={clsx(
+                  'font-mono truncate',
+                  darkMode ? 'text-slate-400' : 'text-slate-500'
+                )}
+                title={entry.finalUrl}
+              >
+                {entry.finalUrl}
+              </span>
+            </>
+          )}
+          <span
+            className={clsx(
+              'ml-auto shrink-0 whitespace-nowrap',
+              darkMode ? 'text-slate-500' : 'text-slate-400'
+            )}
+          >
+            {`${entry.redirectCount} ${chrome.i18n.getMessage(entry.redirectCount === 1 ? 'redirectSingle' : 'redirectsPlural')} · ${formatDistanceToNow(entry.timestamp, { addSuffix: true })}`}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import clsx from 'clsx';
+import { Download, Plus, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { ChangeEvent, FormEvent, useMemo, useRef, useState } from 'react';
+import CategoryChip, { CATEGORY_MESSAGE_KEYS } from '../../components/CategoryChip';
+import {
+  DEFAULT_DOMAIN_REGISTRY,
+  DOMAIN_CATEGORIES,
+  DomainCategory,
+  DomainRule,
+} from '../../types/redirect';
+import {
+  downloadDomainRegistry,
+  mergeDomainRegistry,
+  normalizeDomainPattern,
+  parseDomainRegistry,
+} from '../../utils/domain-registry';
+
+interface DomainRegistrySettingsProps {
+  rules: DomainRule[];
+  darkMode: boolean;
+  onChange: (rules: DomainRule[]) => void;
+}
+
+export default function DomainRegistrySettings({
+  rules,
+  darkMode,
+  onChange,
+}: DomainRegistrySettingsProps) {
+  const [pattern, setPattern] = useState('');
+  const [category, setCategory] = useState<DomainCategory>('shortener');
+  const [filter, setFilter] = useState<DomainCategory | 'all'>('all');
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const visibleRules = useMemo(
+    () =>
+      rules
+        .filter(rule => filter === 'all' || rule.category === filter)
+        .sort((a, b) => a.pattern.localeCompare(b.pattern)),
+    [rules, filter]
+  );
+
+  const handleAdd = (e: FormEvent) => {
+    e.preventDefault();
+    const normalized = normalizeDomainPattern(pattern);
+    if (!normalized) return;
+    onChange(mergeDomainRegistry(rules, [{ pattern: normalized, category }]));
+    setPattern('');
+    setImportedCount(null);
+  };
+
+  const handleRemove = (removed: DomainRule) => {
+    onChange(rules.filter(rule => rule.pattern !== removed.pattern));
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const imported = parseDomainRegistry(await file.text());
+    if (imported.length > 0) onChange(mergeDomainRegistry(rules, imported));
+    setImportedCount(imported.length);
+    e.target.value = '';
+  };
+
+  const handleReset = () => {
+    if (confirm(chrome.i18n.getMessage('confirmResetDomains'))) {
+      onChange(DEFAULT_DOMAIN_REGISTRY);
+      setImportedCount(null);
+    }
+  };
+
+  const inputClass = clsx(
+    'px-3 py-2 rounded-lg border text-sm transition-colors',
+    darkMode
+      ? 'bg-slate-700 border-slate-600 focus:border-blue-500'
+      : 'bg-slate-50 border-slate-200 focus:border-blue-500'
+  );
+  const buttonClass = clsx(
+    'flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm transition-colors',
+    darkMode ? 'bg-slate-700 hover:bg-slate-600' : 'bg-slate-100 hover:bg-slate-200'
+  );
+  const cardClass = clsx(
+    'rounded-xl border',
+    darkMode ? 'border-slate-700 bg-slate-800/50' : 'border-slate-200 bg-white'
+  );
+  const mutedClass = darkMode ? 'text-slate-400' : 'text-slate-500';
+
+  return (
+    <div className="max-w-3xl">
+      <h2 className="text-2xl font-semibold mb-2">{chrome.i18n.getMessage('domainRegistry')}</h2>
+      <p className={clsx('text-sm mb-6', mutedClass)}>
+        {chrome.i18n.getMessage('domainRegistryDesc')}
+      </p>
+
+      <form onSubmit={handleAdd} className={clsx(cardClass, 'p-4 flex flex-wrap gap-3')}>
+        <input
+          type="text"
+          value={pattern}
+          onChange={e => setPattern(e.target.value)}
+          placeholder={chrome.i18n.getMessage('domainPatternPlaceholder')}
+          className={clsx(inputClass, 'flex-1 min-w-48 font-mono')}
+        />
+        <select
+          value={category}
+          onChange={e => setCategory(e.target.value as DomainCategory)}
+          className={inputClass}
+        >
+          {DOMAIN_CATEGORIES.map(option => (
+            <option key={option} value={option}>
+              {chrome.i18n.getMessage(CATEGORY_MESSAGE_KEYS[option])}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={!normalizeDomainPattern(pattern)}
+          className="flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm font-medium bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          {chrome.i18n.getMessage('addDomain')}
+        </button>
+      </form>
+
+      <div className="flex flex-wrap items-center gap-2 mt-4">
+        <select
+          value={filter}
+          onChange={e => setFilter(e.target.value as DomainCategory | 'all')}
+          className={inputClass}
+        >
+          <option value="all">{chrome.i18n.getMessage('allCategories')}</option>
+          {DOMAIN_CATEGORIES.map(option => (
+            <option key={option} value={option}>
+              {chrome.i18n.getMessage(CATEGORY_MESSAGE_KEYS[option])}
+            </option>
+          ))}
+        </select>
+        <span className={clsx('text-xs', mutedClass)}>
+          {importedCount != null
+            ? `${chrome.i18n.getMessage('importedDomains')}: ${importedCount}`
+            : visibleRules.length}
+        </span>
+        <span className="flex-1" />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.txt,.csv,application/json,text/plain,text/csv"
+          onChange={handleImport}
+          className="hidden"
+        />
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+          <Upload className="w-4 h-4" />
+          {chrome.i18n.getMessage('importDomains')}
+        </button>
+        <button onClick={() => downloadDomainRegistry(rules)} className={buttonClass}>
+          <Download className="w-4 h-4" />
+          {chrome.i18n.getMessage('exportDomains')}
+        </button>
+        <button onClick={handleReset} className={buttonClass}>
+          <RotateCcw className="w-4 h-4" />
+          {chrome.i18n.getMessage('resetDomainDefaults')}
+        </button>
+      </div>
+
+      <div
+        className={clsx(
+          cardClass,
+          'mt-4 divide-y',
+          darkMode ? 'divide-slate-700' : 'divide-slate-100'
+        )}
+      >
+        {visibleRules.map(rule => (
+          <div key={rule.pattern} className="px-4 py-2 flex items-center gap-3">
+            <span className="flex-1 font-mono text-sm truncate">{rule.pattern}</span>
+            <CategoryChip category={rule.category} darkMode={darkMode} />
+            <button
+              onClick={() => handleRemove(rule)}
+              title={chrome.i18n.getMessage('removeDomain')}
+              className={clsx(
+                'p-1.5 rounded-lg transition-colors',
+                darkMode
+                  ? 'text-slate-400 hover:bg-red-900/30 hover:text-red-400'
+                  : 'text-slate-500 hover:bg-red-50 hover:text-red-600'
+              )}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,439 @@
+import clsx from 'clsx';
+import { FileText, LineChart, X } from 'lucide-react';
+import { ReactNode, useMemo, useState } from 'react';
+import { ChainScore, HistoryEntry, formatDuration } from '../../types/redirect';
+import { HistoryPdfOptions } from '../../utils/pdf-export';
+import {
+  TREND_GRADES,
+  TrendBucket,
+  TrendPoint,
+  getHistoryTrends,
+} from '../../utils/history-trends';
+
+interface HistoryChartsProps {
+  // The filtered history, so the charts follow the list's search and filters
+  entries: HistoryEntry[];
+  darkMode: boolean;
+  onExportPDF: (options: HistoryPdfOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+// Plot area inside a fixed viewBox; the SVG scales to the card width
+const WIDTH = 560;
+const HEIGHT = 150;
+const PAD_LEFT = 40;
+const PAD_RIGHT = 8;
+const PAD_TOP = 8;
+const PAD_BOTTOM = 20;
+const PLOT_WIDTH = WIDTH - PAD_LEFT - PAD_RIGHT;
+const PLOT_HEIGHT = HEIGHT - PAD_TOP - PAD_BOTTOM;
+
+const GRADE_FILLS: Record<ChainScore['grade'], string> = {
+  A: 'fill-green-500',
+  B: 'fill-lime-500',
+  C: 'fill-yellow-500',
+  D: 'fill-orange-500',
+  F: 'fill-red-500',
+};
+
+const BUCKET_MESSAGES: Record<TrendBucket, string> = {
+  day: 'chartPerDay',
+  week: 'chartPerWeek',
+  month: 'chartPerMonth',
+};
+
+function getStatusFill(code: number): string {
+  if (code >= 200 && code < 300) return 'bg-green-500';
+  if (code >= 300 && code < 400) return 'bg-amber-500';
+  if (code >= 400) return 'bg-red-500';
+  return 'bg-slate-400';
+}
+
+// Round the axis maximum up to a readable number
+function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 2.5, 5, 10].find(candidate => candidate * magnitude >= value) ?? 10;
+  return step * magnitude;
+}
+
+function ChartCard({
+  title,
+  legend,
+  darkMode,
+  children,
+}: {
+  title: string;
+  legend?: ReactNode;
+  darkMode: boolean;
+  children: ReactNode;
+}) {
+  return (
+    <div
+      className={clsx(
+        'rounded-xl border p-3',
+        darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
+      )}
+    >
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-2">
+        <h3 className="text-sm font-semibold mr-auto">{title}</h3>
+        {legend}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function LegendItem({ className, label }: { className: string; label: string }) {
+  return (
+    <span className="flex items-center gap-1 text-[11px]">
+      <span className={clsx('w-2.5 h-2.5 rounded-sm', className)} />
+      {label}
+    </span>
+  );
+}
+
+// Axes, gridlines and labels shared by every time chart
+function TimeAxes({
+  points,
+  max,
+  formatValue,
+  darkMode,
+  children,
+}: {
+  points: TrendPoint[];
+  max: number;
+  formatValue: (value: number) => string;
+  darkMode: boolean;
+  children: ReactNode;
+}) {
+  const labelIndexes = [...new Set([0, Math.floor((points.length - 1) / 2), points.length - 1])];
+  const textClass = darkMode ? 'fill-slate-400' : 'fill-slate-500';
+  const gridClass = darkMode ? 'stroke-slate-700' : 'stroke-slate-200';
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+      {[0, 0.5, 1].map(fraction => {
+        const y = PAD_TOP + PLOT_HEIGHT * (1 - fraction);
+        return (
+          <g key={fraction}>
+            <line x1={PAD_LEFT} x2={WIDTH - PAD_RIGHT} y1={y} y2={y} className={gridClass} />
+            <text x={PAD_LEFT - 4} y={y + 3} textAnchor="end" fontSize={10} className={textClass}>
+              {formatValue(max * fraction)}
+            </text>
+          </g>
+        );
+      })}
+      {children}
+      {labelIndexes.map(idx => (
+        <text
+          key={idx}
+          x={PAD_LEFT + ((idx + 0.5) / points.length) * PLOT_WIDTH}
+          y={HEIGHT - 5}
+          textAnchor={idx === 0 ? 'start' : idx === points.length - 1 ? 'end' : 'middle'}
+          fontSize={10}
+          className={textClass}
+        >
+          {points[idx].label}
+        </text>
+      ))}
+    </svg>
+  );
+}
+
+function getBarGeometry(points: TrendPoint[], idx: number) {
+  const slot = PLOT_WIDTH / points.length;
+  const width = Math.max(1, slot * 0.7);
+  return { x: PAD_LEFT + slot * idx + (slot - width) / 2, width };
+}
+
+function scaleY(value: number, max: number): number {
+  return PAD_TOP + PLOT_HEIGHT * (1 - value / max);
+}
+
+// Stacked bars; a single segment per bar makes a plain bar chart
+function StackedBars({
+  points,
+  segments,
+  darkMode,
+}: {
+  points: TrendPoint[];
+  segments: { value: (point: TrendPoint) => number; className: string; label: string }[];
+  darkMode: boolean;
+}) {
+  const max = niceMax(
+    Math.max(
+      ...points.map(point => segments.reduce((sum, segment) => sum + segment.value(point), 0))
+    )
+  );
+
+  return (
+    <TimeAxes
+      points={points}
+      max={max}
+      formatValue={v => String(Math.round(v))}
+      darkMode={darkMode}
+    >
+      {points.map((point, idx) => {
+        const { x, width } = getBarGeometry(points, idx);
+        const tooltip = segments
+          .map(segment => `${segment.label} ${segment.value(point)}`)
+          .join(', ');
+        let base = 0;
+        return (
+          <g key={point.start}>
+            <title>{`${point.label}: ${tooltip}`}</title>
+            {segments.map(segment => {
+              const value = segment.value(point);
+              if (value <= 0) return null;
+              const y = scaleY(base + value, max);
+              const height = scaleY(base, max) - y;
+              base += value;
+              return (
+                <rect
+                  key={segment.label}
+                  x={x}
+                  y={y}
+                  width={width}
+                  height={height}
+                  className={segment.className}
+                />
+              );
+            })}
+          </g>
+        );
+      })}
+    </TimeAxes>
+  );
+}
+
+// One polyline per series, broken wherever a bucket has no value
+function Lines({
+  points,
+  series,
+  max,
+  formatValue,
+  darkMode,
+}: {
+  points: TrendPoint[];
+  series: { value: (point: TrendPoint) => number | null; className: string; label: string }[];
+  max: number;
+  formatValue: (value: number) => string;
+  darkMode: boolean;
+}) {
+  const slot = PLOT_WIDTH / points.length;
+
+  return (
+    <TimeAxes points={points} max={max} formatValue={formatValue} darkMode={darkMode}>
+      {series.map(line => {
+        const runs: string[][] = [[]];
+        points.forEach((point, idx) => {
+          const value = line.value(point);
+          if (value == null) {
+            if (runs[runs.length - 1].length > 0) runs.push([]);
+            return;
+          }
+          runs[runs.length - 1].push(`${PAD_LEFT + slot * (idx + 0.5)},${scaleY(value, max)}`);
+        });
+        return runs
+          .filter(run => run.length > 0)
+          .map((run, idx) =>
+            run.length === 1 ? (
+              <circle
+                key={`${line.label}-${idx}`}
+                cx={Number(run[0].split(',')[0])}
+                cy={Number(run[0].split(',')[1])}
+                r={2}
+                className={line.className.replace('stroke-', 'fill-')}
+              />
+            ) : (
+              <polyline
+                key={`${line.label}-${idx}`}
+                points={run.join(' ')}
+                fill="none"
+                strokeWidth={2}
+                strokeLinejoin="round"
+                className={line.className}
+              />
+            )
+          );
+      })}
+    </TimeAxes>
+  );
+}
+
+export default function HistoryCharts({
+  entries,
+  darkMode,
+  onExportPDF,
+  onClose,
+}: HistoryChartsProps) {
+  const [exporting, setExporting] = useState(false);
+  const trends = useMemo(() => getHistoryTrends(entries), [entries]);
+  const { points, statusCodes, bucket } = trends;
+  const per = chrome.i18n.getMessage(BUCKET_MESSAGES[bucket]);
+  const maxTime = niceMax(Math.max(0, ...points.map(point => point.p95Time ?? 0)));
+  const totalHops = statusCodes.reduce((sum, status) => sum + status.count, 0);
+  const mutedClass = darkMode ? 'text-slate-400' : 'text-slate-500';
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await onExportPDF({ includeCharts: true });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div
+        className={clsx(
+          'shrink-0 px-4 py-3 border-b flex items-center gap-2',
+          darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
+        )}
+      >
+        <LineChart className="w-5 h-5 text-blue-500" />
+        <h2 className="font-semibold">{chrome.i18n.getMessage('historyCharts')}</h2>
+        <span className={clsx('text-xs mr-auto', mutedClass)}>
+          {entries.length} {chrome.i18n.getMessage('entriesLabel')}
+        </span>
+        <button
+          onClick={handleExport}
+          disabled={exporting || entries.length === 0}
+          className={clsx(
+            'p-2 rounded-lg transition-colors disabled:opacity-50',
+            darkMode ? 'text-slate-400 hover:text-slate-200' : 'text-slate-400 hover:text-slate-600'
+          )}
+          title={chrome.i18n.getMessage('exportPdfWithCharts')}
+        >
+          <FileText className="w-5 h-5" />
+        </button>
+        <button
+          onClick={onClose}
+          className={clsx(
+            'p-2 rounded-lg transition-colors',
+            darkMode ? 'text-slate-400 hover:text-slate-200' : 'text-slate-400 hover:text-slate-600'
+          )}
+          title={chrome.i18n.getMessage('close')}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {points.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center p-8">
+          <p className={clsx('text-sm', mutedClass)}>{chrome.i18n.getMessage('noMatches')}</p>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 grid gap-4 xl:grid-cols-2 content-start">
+          <ChartCard
+            title={`${chrome.i18n.getMessage('chartChains')} (${per})`}
+            darkMode={darkMode}
+          >
+            <StackedBars
+              points={points}
+              segments={[
+                {
+                  value: point => point.chains,
+                  className: 'fill-blue-500',
+                  label: chrome.i18n.getMessage('chartChains'),
+                },
+              ]}
+              darkMode={darkMode}
+            />
+          </ChartCard>
+
+          <ChartCard
+            title={`${chrome.i18n.getMessage('chartAvgScore')} (${per})`}
+            darkMode={darkMode}
+          >
+            <Lines
+              points={points}
+              series={[
+                {
+                  value: point => point.avgScore,
+                  className: 'stroke-blue-500',
+                  label: chrome.i18n.getMessage('chartAvgScore'),
+                },
+              ]}
+              max={100}
+              formatValue={v => String(Math.round(v))}
+              darkMode={darkMode}
+            />
+          </ChartCard>
+
+          <ChartCard
+            title={`${chrome.i18n.getMessage('chartGrades')} (${per})`}
+            legend={TREND_GRADES.map(grade => (
+              <LegendItem
+                key={grade}
+                className={GRADE_FILLS[grade].replace('fill-', 'bg-')}
+                label={grade}
+              />
+            ))}
+            darkMode={darkMode}
+          >
+            <StackedBars
+              points={points}
+              segments={TREND_GRADES.map(grade => ({
+                value: point => point.grades[grade],
+                className: GRADE_FILLS[grade],
+                label: grade,
+              }))}
+              darkMode={darkMode}
+            />
+          </ChartCard>
+
+          <ChartCard
+            title={`${chrome.i18n.getMessage('chartChainTime')} (${per})`}
+            legend={
+              <>
+                <LegendItem className="bg-blue-500" label="p50" />
+                <LegendItem className="bg-red-500" label="p95" />
+              </>
+            }
+            darkMode={darkMode}
+          >
+            <Lines
+              points={points}
+              series={[
+                { value: point => point.p50Time, className: 'stroke-blue-500', label: 'p50' },
+                { value: point => point.p95Time, className: 'stroke-red-500', label: 'p95' },
+              ]}
+              max={maxTime}
+              formatValue={v => formatDuration(v)}
+              darkMode={darkMode}
+            />
+          </ChartCard>
+
+          <ChartCard title={chrome.i18n.getMessage('chartStatusCodes')} darkMode={darkMode}>
+            <div className="space-y-1.5">
+              {statusCodes.map(status => (
+                <div key={status.code} className="flex items-center gap-2 text-xs">
+                  <span className="w-10 font-mono font-bold text-right shrink-0">
+                    {status.code || '—'}
+                  </span>
+                  <div
+                    className={clsx(
+                      'flex-1 h-3 rounded',
+                      darkMode ? 'bg-slate-700' : 'bg-slate-100'
+                    )}
+                  >
+                    <div
+                      className={clsx('h-full rounded', getStatusFill(status.code))}
+                      style={{ width: `${(status.count / statusCodes[0].count) * 100}%` }}
+                    />
+                  </div>
+                  <span className={clsx('w-20 text-right tabular-nums shrink-0', mutedClass)}>
+                    {status.count} ({Math.round((status.count / totalHops) * 100)}%)
+                  </span>
+                </div>
+              ))}
+            </div>
+          </ChartCard>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import clsx from 'clsx';
+import {
+  Download,
+  FileCode,
+  FileJson,
+  FileSpreadsheet,
+  FileText,
+  LineChart,
+  Network,
+  Upload,
+  Wrench,
+} from 'lucide-react';
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
+import { HistoryEntry } from '../../types/redirect';
+import {
+  HistoryExportFormat,
+  downloadHistoryExport,
+  parseHistoryImport,
+} from '../../utils/history-export';
+import { downloadHtmlReport } from '../../utils/html-report';
+import { HistoryPdfOptions } from '../../utils/pdf-export';
+import { importHistory } from '../../utils/storage';
+
+interface HistoryTransferMenuProps {
+  // The filtered history; exports cover exactly what the list shows
+  entries: HistoryEntry[];
+  darkMode: boolean;
+  onExportPDF: (options?: HistoryPdfOptions) => Promise<void>;
+  onGenerateRules: () => void;
+  onImported: () => Promise<void>;
+}
+
+const EXPORT_OPTIONS: { format: HistoryExportFormat; icon: typeof FileJson; messageKey: string }[] =
+  [
+    { format: 'json', icon: FileJson, messageKey: 'exportJson' },
+    { format: 'csv', icon: FileSpreadsheet, messageKey: 'exportCsv' },
+    { format: 'har', icon: Network, messageKey: 'exportHar' },
+  ];
+
+export default function HistoryTransferMenu({
+  entries,
+  darkMode,
+  onExportPDF,
+  onGenerateRules,
+  onImported,
+}: HistoryTransferMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [importResult, setImportResult] = useState<{ read: number; added: number } | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const imported = parseHistoryImport(await file.text());
+    const added = imported.length > 0 ? await importHistory(imported) : 0;
+    setImportResult({ read: imported.length, added });
+    if (added > 0) await onImported();
+    e.target.value = '';
+  };
+
+  const itemClass = clsx(
+    'w-full flex items-center gap-2 px-3 py-2 text-xs text-left transition-colors disabled:opacity-50',
+    darkMode ? 'hover:bg-slate-700' : 'hover:bg-slate-100'
+  );
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => {
+          setImportResult(null);
+          setIsOpen(!isOpen);
+        }}
+        className="p-1.5 rounded-md bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+        title={chrome.i18n.getMessage('exportImportHistory')}
+      >
+        <Download className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div
+          className={clsx(
+            'absolute right-0 top-full mt-1 z-20 w-48 rounded-lg border shadow-lg py-1',
+            darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
+          )}
+        >
+          <button
+            onClick={async () => {
+              setIsOpen(false);
+              await onExportPDF();
+            }}
+            disabled={entries.length === 0}
+            className={itemClass}
+          >
+            <FileText className="w-3.5 h-3.5" />
+            {chrome.i18n.getMessage('exportAllToPdf')}
+          </button>
+          <button
+            onClick={async () => {
+              setIsOpen(false);
+              await onExportPDF({ includeCharts: true });
+            }}
+            disabled={entries.length === 0}
+            className={itemClass}
+          >
+            <LineChart className="w-3.5 h-3.5" />
+            {chrome.i18n.getMessage('exportPdfWithCharts')}
+          </button>
+          <button
+            onClick={async () => {
+              setIsOpen(false);
+              await downloadHtmlReport(entries);
+            }}
+            disabled={entries.length === 0}
+            className={itemClass}
+          >
+            <FileCode className="w-3.5 h-3.5" />
+            {chrome.i18n.getMessage('exportAllToHtml')}
+          </button>
+          {EXPORT_OPTIONS.map(({ format, icon: Icon, messageKey }) => (
+            <button
+              key={format}
+              onClick={() => {
+                setIsOpen(false);
+                downloadHistoryExport(entries, format);
+              }}
+              disabled={entries.length === 0}
+              className={itemClass}
+            >
+              <Icon className="w-3.5 h-3.5" />
+              {chrome.i18n.getMessage(messageKey)}
+            </button>
+          ))}
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              onGenerateRules();
+            }}
+            disabled={entries.length === 0}
+            className={itemClass}
+          >
+            <Wrench className="w-3.5 h-3.5" />
+            {chrome.i18n.getMessage('generateFixForList')}
+          </button>
+
+          <div
+            className={clsx('my-1 border-t', darkMode ? 'border-slate-700' : 'border-slate-100')}
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <button onClick={() => fileInputRef.current?.click()} className={itemClass}>
+            <Upload className="w-3.5 h-3.5" />
+            {chrome.i18n.getMessage('importHistoryJson')}
+          </button>
+          {importResult && (
+            <p
+              className={clsx(
+                'px-3 py-1.5 text-[11px]',
+                darkMode ? 'text-slate-400' : 'text-slate-500'
+              )}
+            >
+              {importResult.read === 0
+                ? chrome.i18n.getMessage('importHistoryInvalid')
+                : `${chrome.i18n.getMessage('importedEntries')}: ${importResult.added} / ${importResult.read}`}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
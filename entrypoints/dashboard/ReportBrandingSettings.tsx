@@ -0,0 +1,236 @@
+import clsx from 'clsx';
+import { Check, ImagePlus, RotateCcw, Trash2 } from 'lucide-react';
+import { ChangeEvent, useRef, useState } from 'react';
+import {
+  DEFAULT_REPORT_BRANDING,
+  MAX_LOGO_BYTES,
+  REPORT_SECTIONS,
+  REPORT_TEMPLATES,
+  ReportBranding,
+  ReportSections,
+  ReportTemplate,
+  TEMPLATE_SECTIONS,
+  normalizeHexColor,
+  readLogoFile,
+} from '../../utils/report-branding';
+
+interface ReportBrandingSettingsProps {
+  branding: ReportBranding;
+  template: ReportTemplate;
+  darkMode: boolean;
+  onChangeBranding: (branding: ReportBranding) => void;
+  onChangeTemplate: (template: ReportTemplate) => void;
+}
+
+const TEMPLATE_MESSAGE_KEYS: Record<ReportTemplate, string> = {
+  executive: 'templateExecutive',
+  technical: 'templateTechnical',
+  migration: 'templateMigration',
+};
+
+const SECTION_MESSAGE_KEYS: Record<keyof ReportSections, string> = {
+  score: 'sectionScore',
+  issues: 'sectionIssues',
+  headers: 'sectionHeaders',
+  timing: 'sectionTiming',
+  notes: 'sectionNotes',
+};
+
+export default function ReportBrandingSettings({
+  branding,
+  template,
+  darkMode,
+  onChangeBranding,
+  onChangeTemplate,
+}: ReportBrandingSettingsProps) {
+  const [logoError, setLogoError] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = <K extends keyof ReportBranding>(key: K, value: ReportBranding[K]) =>
+    onChangeBranding({ ...branding, [key]: value });
+
+  const handleLogo = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const dataUrl = await readLogoFile(file);
+    setLogoError(!dataUrl);
+    if (dataUrl) update('logoDataUrl', dataUrl);
+  };
+
+  const handleReset = () => {
+    if (confirm(chrome.i18n.getMessage('confirmResetBranding'))) {
+      onChangeBranding(DEFAULT_REPORT_BRANDING);
+      setLogoError(false);
+    }
+  };
+
+  const inputClass = clsx(
+    'w-full px-3 py-2 rounded-lg border text-sm transition-colors',
+    darkMode
+      ? 'bg-slate-700 border-slate-600 focus:border-blue-500'
+      : 'bg-slate-50 border-slate-200 focus:border-blue-500'
+  );
+  const buttonClass = clsx(
+    'flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm transition-colors',
+    darkMode ? 'bg-slate-700 hover:bg-slate-600' : 'bg-slate-100 hover:bg-slate-200'
+  );
+  const cardClass = clsx(
+    'rounded-xl border p-6',
+    darkMode ? 'border-slate-700 bg-slate-800' : 'border-slate-200 bg-white'
+  );
+  const mutedClass = darkMode ? 'text-slate-400' : 'text-slate-500';
+  const textField = (
+    key: 'companyName' | 'footerText' | 'contactLine',
+    label: string,
+    placeholder: string
+  ) => (
+    <label className="block text-sm">
+      <span className="font-medium">{label}</span>
+      <input
+        type="text"
+        value={branding[key]}
+        onChange={e => update(key, e.target.value)}
+        placeholder={placeholder}
+        className={clsx(inputClass, 'mt-1.5')}
+      />
+    </label>
+  );
+
+  return (
+    <div className="max-w-3xl">
+      <h2 className="text-2xl font-semibold mb-2">{chrome.i18n.getMessage('reportBranding')}</h2>
+      <p className={clsx('text-sm mb-6', mutedClass)}>
+        {chrome.i18n.getMessage('reportBrandingDesc')}
+      </p>
+
+      <div className={clsx(cardClass, 'space-y-4')}>
+        {textField('companyName', chrome.i18n.getMessage('brandCompanyName'), 'RedirectWise')}
+
+        <div className="text-sm">
+          <span className="font-medium">{chrome.i18n.getMessage('brandLogo')}</span>
+          <div className="mt-1.5 flex items-center gap-3">
+            <div
+              className={clsx(
+                'w-14 h-14 rounded-lg border flex items-center justify-center overflow-hidden shrink-0',
+                darkMode ? 'border-slate-600 bg-slate-700' : 'border-slate-200 bg-slate-50'
+              )}
+            >
+              <img
+                src={branding.logoDataUrl || chrome.runtime.getURL('icons/icon-128.png')}
+                alt=""
+                className="max-w-full max-h-full object-contain"
+              />
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/png,image/jpeg"
+              onChange={handleLogo}
+              className="hidden"
+            />
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+              <ImagePlus className="w-4 h-4" />
+              {chrome.i18n.getMessage('brandUploadLogo')}
+            </button>
+            {branding.logoDataUrl && (
+              <button onClick={() => update('logoDataUrl', '')} className={buttonClass}>
+                <Trash2 className="w-4 h-4" />
+                {chrome.i18n.getMessage('brandRemoveLogo')}
+              </button>
+            )}
+          </div>
+          <p className={clsx('text-xs mt-1.5', logoError ? 'text-red-500' : mutedClass)}>
+            {chrome.i18n.getMessage(logoError ? 'brandLogoInvalid' : 'brandLogoHint', [
+              String(MAX_LOGO_BYTES / 1024),
+            ])}
+          </p>
+        </div>
+
+        <label className="flex items-center justify-between gap-4 text-sm">
+          <span className="font-medium">{chrome.i18n.getMessage('brandPrimaryColor')}</span>
+          <span className="flex items-center gap-2">
+            <span className={clsx('font-mono text-xs', mutedClass)}>{branding.primaryColor}</span>
+            <input
+              type="color"
+              value={(normalizeHexColor(branding.primaryColor) ?? '#3B82F6').toLowerCase()}
+              onChange={e =>
+                update('primaryColor', normalizeHexColor(e.target.value) ?? branding.primaryColor)
+              }
+              className="w-10 h-8 rounded cursor-pointer bg-transparent"
+            />
+          </span>
+        </label>
+
+        {textField(
+          'footerText',
+          chrome.i18n.getMessage('brandFooterText'),
+          chrome.i18n.getMessage('reportGeneratedBy')
+        )}
+        {textField(
+          'contactLine',
+          chrome.i18n.getMessage('brandContactLine'),
+          chrome.i18n.getMessage('brandContactPlaceholder')
+        )}
+
+        <div className="flex justify-end">
+          <button onClick={handleReset} className={buttonClass}>
+            <RotateCcw className="w-4 h-4" />
+            {chrome.i18n.getMessage('resetBranding')}
+          </button>
+        </div>
+      </div>
+
+      <div className={clsx(cardClass, 'mt-4')}>
+        <h3 className="font-medium">{chrome.i18n.getMessage('reportTemplate')}</h3>
+        <p className={clsx('text-sm mt-1', mutedClass)}>
+          {chrome.i18n.getMessage('reportTemplateDesc')}
+        </p>
+        <div className="mt-4 grid gap-3 sm:grid-cols-3">
+          {REPORT_TEMPLATES.map(option => {
+            const isActive = option === template;
+            return (
+              <button
+                key={option}
+                onClick={() => onChangeTemplate(option)}
+                className={clsx(
+                  'text-left rounded-lg border p-3 transition-colors',
+                  isActive
+                    ? darkMode
+                      ? 'border-blue-500 bg-blue-900/30'
+                      : 'border-blue-500 bg-blue-50'
+                    : darkMode
+                      ? 'border-slate-600 hover:bg-slate-700'
+                      : 'border-slate-200 hover:bg-slate-50'
+                )}
+              >
+                <span className="text-sm font-medium">
+                  {chrome.i18n.getMessage(TEMPLATE_MESSAGE_KEYS[option])}
+                </span>
+                <ul className="mt-2 space-y-1">
+                  {REPORT_SECTIONS.map(section => {
+                    const included = TEMPLATE_SECTIONS[option][section];
+                    return (
+                      <li
+                        key={section}
+                        className={clsx(
+                          'flex items-center gap-1.5 text-xs',
+                          included ? '' : clsx(mutedClass, 'line-through opacity-60')
+                        )}
+                      >
+                        <Check
+                          className={clsx('w-3 h-3', included ? 'text-green-500' : 'invisible')}
+                        />
+                        {chrome.i18n.getMessage(SECTION_MESSAGE_KEYS[section])}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import clsx from 'clsx';
+import { Database, Eraser } from 'lucide-react';
+import { ReactNode, useEffect, useState } from 'react';
+import { StorageUsage, getStorageUsage } from '../../utils/retention';
+import { Settings } from '../../utils/storage';
+
+interface RetentionSettingsProps {
+  settings: Settings;
+  darkMode: boolean;
+  onUpdateSetting: <K extends keyof Settings>(key: K, value: Settings[K]) => void;
+  onApplyRetention: () => Promise<number>;
+  // Exemption toggles, rendered below the limits
+  children?: ReactNode;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+export default function RetentionSettings({
+  settings,
+  darkMode,
+  onUpdateSetting,
+  onApplyRetention,
+  children,
+}: RetentionSettingsProps) {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [removedCount, setRemovedCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    getStorageUsage(settings).then(setUsage);
+  }, [settings.historyMaxStorageMb]);
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      setRemovedCount(await onApplyRetention());
+      setUsage(await getStorageUsage(settings));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const usedBytes = usage ? usage.historyBytes + usage.localBytes : 0;
+  const usedPercent = usage?.limitBytes ? Math.min(100, (usedBytes / usage.limitBytes) * 100) : 0;
+
+  const inputClass = clsx(
+    'w-24 px-2 py-1 rounded-lg border text-sm transition-colors',
+    darkMode
+      ? 'bg-slate-700 border-slate-600 focus:border-blue-500'
+      : 'bg-slate-50 border-slate-200 focus:border-blue-500'
+  );
+  const mutedClass = darkMode ? 'text-slate-400' : 'text-slate-500';
+  const numberField = (
+    key: 'maxHistoryEntries' | 'historyMaxAgeDays' | 'historyMaxStorageMb',
+    label: string,
+    min: number
+  ) => (
+    <label className="text-sm flex items-center justify-between gap-4">
+      <span>{label}</span>
+      <input
+        type="number"
+        min={min}
+        value={settings[key]}
+        onChange={e => {
+          setRemovedCount(null);
+          onUpdateSetting(key, Math.max(min, Math.floor(Number(e.target.value) || 0)));
+        }}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  return (
+    <div
+      className={clsx(
+        'mt-4 rounded-xl border p-6',
+        darkMode ? 'border-slate-700 bg-slate-800' : 'border-slate-200 bg-white'
+      )}
+    >
+      <h3 className="font-medium flex items-center gap-2">
+        <Database className="w-4 h-4" />
+        {chrome.i18n.getMessage('historyRetention')}
+      </h3>
+      <p className={clsx('text-sm mt-1', mutedClass)}>
+        {chrome.i18n.getMessage('historyRetentionDesc')}
+      </p>
+
+      {/* Storage usage meter */}
+      <div className="mt-4">
+        <div className="flex items-center justify-between text-xs mb-1.5">
+          <span className={mutedClass}>
+            {chrome.i18n.getMessage('storageUsed')}: {usage ? formatBytes(usedBytes) : '-'}
+            {usage?.limitBytes ? ` / ${formatBytes(usage.limitBytes)}` : ''}
+          </span>
+          <span className={mutedClass}>
+            {chrome.i18n.getMessage('historyEntriesStored')}: {usage?.historyEntries ?? '-'}
+          </span>
+        </div>
+        <div
+          className={clsx(
+            'h-2 rounded-full overflow-hidden',
+            darkMode ? 'bg-slate-700' : 'bg-slate-100'
+          )}
+        >
+          <div
+            className={clsx(
+              'h-full rounded-full transition-all',
+              usedPercent >= 90 ? 'bg-red-500' : usedPercent >= 70 ? 'bg-amber-500' : 'bg-blue-500'
+            )}
+            style={{ width: `${Math.max(usedPercent, usedBytes > 0 ? 1 : 0)}%` }}
+          />
+        </div>
+      </div>
+
+      <div className="mt-5 space-y-3">
+        {numberField('maxHistoryEntries', chrome.i18n.getMessage('retentionMaxEntries'), 1)}
+        {numberField('historyMaxAgeDays', chrome.i18n.getMessage('retentionMaxAgeDays'), 0)}
+        {numberField('historyMaxStorageMb', chrome.i18n.getMessage('retentionMaxStorageMb'), 0)}
+        <p className={clsx('text-xs', mutedClass)}>{chrome.i18n.getMessage('retentionZeroHint')}</p>
+        {children}
+      </div>
+
+      <div className="mt-5 flex items-center justify-between gap-4">
+        <span className={clsx('text-xs', mutedClass)}>
+          {removedCount != null
+            ? `${chrome.i18n.getMessage('prunedEntries')}: ${removedCount}`
+            : chrome.i18n.getMessage('retentionScheduleHint')}
+        </span>
+        <button
+          onClick={handleApply}
+          disabled={applying}
+          className={clsx(
+            'shrink-0 flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm transition-colors disabled:opacity-50',
+            darkMode ? 'bg-slate-700 hover:bg-slate-600' : 'bg-slate-100 hover:bg-slate-200'
+          )}
+        >
+          <Eraser className="w-4 h-4" />
+          {chrome.i18n.getMessage('applyRetentionNow')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+import clsx from 'clsx';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, ArrowRight, Eye, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { ChainScore, WatchSchedule, WatchSnapshot, WatchedUrl } from '../../types/redirect';
+import {
+  describeWatchChange,
+  findPreviousTrace,
+  getLatestSnapshot,
+  getWatchChangeLabel,
+  getWatchedUrls,
+  onWatchedUrlsChanged,
+} from '../../utils/url-monitor';
+import { getTraceErrorMessage } from '../../utils/url-tracer';
+
+interface WatchedUrlsViewProps {
+  darkMode: boolean;
+  onOpenEntry: (historyId: string) => void;
+}
+
+const GRADE_COLORS: Record<ChainScore['grade'], string> = {
+  A: 'bg-green-500 text-white',
+  B: 'bg-lime-500 text-slate-900',
+  C: 'bg-yellow-500 text-slate-900',
+  D: 'bg-orange-500 text-white',
+  F: 'bg-red-500 text-white',
+};
+
+const SCHEDULE_OPTIONS: { id: WatchSchedule; label: () => string }[] = [
+  { id: 'hourly', label: () => chrome.i18n.getMessage('watchHourly') },
+  { id: 'daily', label: () => chrome.i18n.getMessage('watchDaily') },
+];
+
+// Checks that changed something, newest first
+const MAX_CHANGE_LOG = 5;
+
+export default function WatchedUrlsView({ darkMode, onOpenEntry }: WatchedUrlsViewProps) {
+  const [watches, setWatches] = useState<WatchedUrl[]>([]);
+  const [url, setUrl] = useState('');
+  const [schedule, setSchedule] = useState<WatchSchedule>('daily');
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [checkingIds, setCheckingIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    getWatchedUrls().then(setWatches);
+    return onWatchedUrlsChanged(setWatches);
+  }, []);
+
+  const handleWatch = async () => {
+    if (adding || !url.trim()) return;
+
+    setAdding(true);
+    setError(null);
+    try {
+      const response = await chrome.runtime.sendMessage({ name: 'watchUrl', url, schedule });
+      if (response?.success) {
+        setUrl('');
+      } else {
+        setError(
+          response?.error
+            ? getTraceErrorMessage(response.error)
+            : chrome.i18n.getMessage('watchUrlFailed')
+        );
+      }
+    } catch (err) {
+      console.error('[RedirectWise] Error watching URL:', err);
+      setError(chrome.i18n.getMessage('watchUrlFailed'));
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleCheckNow = async (watchId: string) => {
+    setCheckingIds(prev => [...prev, watchId]);
+    try {
+      await chrome.runtime.sendMessage({ name: 'checkWatchedUrl', watchId });
+    } catch (err) {
+      console.error('[RedirectWise] Error checking watched URL:', err);
+    } finally {
+      setCheckingIds(prev => prev.filter(id => id !== watchId));
+    }
+  };
+
+  const handleUnwatch = (watchId: string) => {
+    if (confirm(chrome.i18n.getMessage('confirmUnwatch'))) {
+      chrome.runtime.sendMessage({ name: 'unwatchUrl', watchId });
+    }
+  };
+
+  const inputClass = clsx(
+    'px-3 py-2 rounded-lg border text-sm transition-colors',
+    darkMode
+      ? 'bg-slate-700 border-slate-600 focus:border-blue-500'
+      : 'bg-slate-50 border-slate-200 focus:border-blue-500'
+  );
+  const mutedClass = darkMode ? 'text-slate-400' : 'text-slate-500';
+
+  return (
+    <div
+      className={clsx(
+        'flex-1 overflow-y-auto p-6 md:p-10',
+        darkMode ? 'bg-slate-900' : 'bg-slate-50'
+      )}
+    >
+      <div className="max-w-4xl space-y-6">
+        <div>
+          <h2 className="text-2xl font-semibold mb-2">{chrome.i18n.getMessage('watchedUrls')}</h2>
+          <p className={clsx('text-sm', mutedClass)}>{chrome.i18n.getMessage('watchedUrlsDesc')}</p>
+        </div>
+
+        {/* New watch */}
+        <div
+          className={clsx(
+            'rounded-xl border p-6 space-y-2',
+            darkMode ? 'border-slate-700 bg-slate-800' : 'border-slate-200 bg-white'
+          )}
+        >
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              value={url}
+              onChange={e => setUrl(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleWatch()}
+              placeholder={chrome.i18n.getMessage('watchUrlPlaceholder')}
+              className={clsx(inputClass, 'flex-1 min-w-[16rem] font-mono')}
+            />
+            <select
+              value={schedule}
+              onChange={e => setSchedule(e.target.value as WatchSchedule)}
+              className={inputClass}
+            >
+              {SCHEDULE_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>
+                  {option.label()}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleWatch}
+              disabled={adding || !url.trim()}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm font-medium bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 transition-colors"
+            >
+              {adding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+              {chrome.i18n.getMessage('watchUrl')}
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+
+        {watches.length === 0 ? (
+          <p className={clsx('text-sm text-center py-6', mutedClass)}>
+            {chrome.i18n.getMessage('noWatchedUrls')}
+          </p>
+        ) : (
+          watches.map(watch => (
+            <WatchedUrlCard
+              key={watch.id}
+              watch={watch}
+              darkMode={darkMode}
+              checking={checkingIds.includes(watch.id)}
+              onCheckNow={() => handleCheckNow(watch.id)}
+              onScheduleChange={value =>
+                chrome.runtime.sendMessage({
+                  name: 'setWatchSchedule',
+                  watchId: watch.id,
+                  schedule: value,
+                })
+              }
+              onUnwatch={() => handleUnwatch(watch.id)}
+              onOpenEntry={onOpenEntry}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Score over time; checks that changed something are marked with a dot
+function ScoreSparkline({
+  snapshots,
+  darkMode,
+}: {
+  snapshots: WatchSnapshot[];
+  darkMode: boolean;
+}) {
+  const width = 160;
+  const height = 36;
+  const pad = 3;
+  if (snapshots.length < 2) return null;
+
+  const points = snapshots.map((snapshot, idx) => ({
+    x: pad + (idx / (snapshots.length - 1)) * (width - pad * 2),
+    y: pad + (1 - snapshot.score / 100) * (height - pad * 2),
+    snapshot,
+  }));
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className="shrink-0"
+      role="img"
+      aria-label={chrome.i18n.getMessage('watchScoreHistory')}
+    >
+      <polyline
+        points={points.map(point => `${point.x},${point.y}`).join(' ')}
+        fill="none"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        className={darkMode ? 'stroke-blue-400' : 'stroke-blue-500'}
+      />
+      {points
+        .filter(point => point.snapshot.changes.length > 0)
+        .map(point => (
+          <circle
+            key={point.snapshot.timestamp}
+            cx={point.x}
+            cy={point.y}
+            r={2.5}
+            className="fill-amber-500"
+          >
+            <title>
+              {`${format(point.snapshot.timestamp, 'yyyy-MM-dd HH:mm')} · ${point.snapshot.score} (${point.snapshot.grade})`}
+            </title>
+          </circle>
+        ))}
+    </svg>
+  );
+}
+
+function WatchedUrlCard({
+  watch,
+  darkMode,
+  checking,
+  onCheckNow,
+  onScheduleChange,
+  onUnwatch,
+  onOpenEntry,
+}: {
+  watch: WatchedUrl;
+  darkMode: boolean;
+  checking: boolean;
+  onCheckNow: () => void;
+  onScheduleChange: (schedule: WatchSchedule) => void;
+  onUnwatch: () => void;
+  onOpenEntry: (historyId: string) => void;
+}) {
+  const latest = getLatestSnapshot(watch);
+  // A failed check has no chain to show, so the summary stays on the last traced one
+  const latestTrace = findPreviousTrace(watch.snapshots);
+  const mutedClass = darkMode ? 'text-slate-400' : 'text-slate-500';
+  const buttonClass = clsx(
+    'p-2 rounded-lg transition-colors',
+    darkMode ? 'hover:bg-slate-700' : 'hover:bg-slate-100'
+  );
+
+  // Pair each changed snapshot with the traced one before it for the change log
+  const changeLog = watch.snapshots
+    .flatMap((snapshot, idx) =>
+      idx > 0 && snapshot.changes.length > 0
+        ? [
+            {
+              snapshot,
+              previous: findPreviousTrace(watch.snapshots, idx) ?? watch.snapshots[idx - 1],
+            },
+          ]
+        : []
+    )
+    .slice(-MAX_CHANGE_LOG)
+    .reverse();
+
+  return (
+    <div
+      className={clsx(
+        'rounded-xl border',
+        darkMode ? 'border-slate-700 bg-slate-800' : 'border-slate-200 bg-white'
+      )}
+    >
+      <div className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Eye className="w-4 h-4 text-blue-500 shrink-0" />
+          <span className="font-mono text-sm truncate flex-1" title={watch.url}>
+            {watch.url}
+          </span>
+          <select
+            value={watch.schedule}
+            onChange={e => onScheduleChange(e.target.value as WatchSchedule)}
+            className={clsx(
+              'px-2 py-1 rounded-md border text-xs',
+              darkMode ? 'bg-slate-700 border-slate-600' : 'bg-slate-50 border-slate-200'
+            )}
+          >
+            {SCHEDULE_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>
+                {option.label()}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={onCheckNow}
+            disabled={checking}
+            className={buttonClass}
+            title={chrome.i18n.getMessage('checkNow')}
+          >
+            <RefreshCw className={clsx('w-4 h-4', checking && 'animate-spin')} />
+          </button>
+          <button
+            onClick={onUnwatch}
+            className="p-2 rounded-lg text-red-400 hover:text-red-500 transition-colors"
+            title={chrome.i18n.getMessage('unwatchUrl')}
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-4">
+          {latestTrace ? (
+            <button
+              onClick={() => latestTrace.historyId && onOpenEntry(latestTrace.historyId)}
+              className={clsx(
+                'flex-1 min-w-0 flex items-center gap-2 text-left text-xs rounded-lg p-2 -m-2',
+                darkMode ? 'hover:bg-slate-700/50' : 'hover:bg-slate-50'
+              )}
+              title={latestTrace.finalUrl}
+            >
+              <span
+                className={clsx(
+                  'font-bold px-1.5 py-0.5 rounded text-[10px] shrink-0',
+                  GRADE_COLORS[latestTrace.grade]
+                )}
+              >
+                {latestTrace.grade}
+              </span>
+              <span className="font-medium shrink-0">{latestTrace.score}</span>
+              <span className="font-mono font-bold shrink-0">
+                {latestTrace.statusCodes.join(' → ')}
+              </span>
+              <ArrowRight className={clsx('w-3.5 h-3.5 shrink-0', mutedClass)} />
+              <span className={clsx('font-mono truncate', mutedClass)}>{latestTrace.finalUrl}</span>
+            </button>
+          ) : (
+            <span className={clsx('flex-1 text-xs', mutedClass)}>
+              {chrome.i18n.getMessage('watchPending')}
+            </span>
+          )}
+          <ScoreSparkline snapshots={watch.snapshots} darkMode={darkMode} />
+        </div>
+
+        {latest && latest.changes.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {latest.changes.map(change => (
+              <span
+                key={change}
+                className={clsx(
+                  'text-[10px] px-1.5 py-0.5 rounded uppercase font-medium',
+                  darkMode ? 'bg-amber-900/50 text-amber-300' : 'bg-amber-100 text-amber-700'
+                )}
+              >
+                {getWatchChangeLabel(change)}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {watch.lastError && (
+          <div className="flex items-center gap-1.5 text-xs text-red-500">
+            <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+            <span className="truncate">{getTraceErrorMessage(watch.lastError)}</span>
+          </div>
+        )}
+
+        <div className={clsx('text-xs', mutedClass)}>
+          {watch.lastCheckedAt
+            ? `${chrome.i18n.getMessage('lastChecked')}: ${formatDistanceToNow(watch.lastCheckedAt, { addSuffix: true })}`
+            : `${chrome.i18n.getMessage('watchingSince')}: ${formatDistanceToNow(watch.createdAt, { addSuffix: true })}`}
+          {' • '}
+          {chrome.i18n.getMessage('nextCheck')}:{' '}
+          {watch.nextCheckAt <= Date.now()
+            ? chrome.i18n.getMessage('watchDue')
+            : formatDistanceToNow(watch.nextCheckAt, { addSuffix: true })}
+          {' • '}
+          {chrome.i18n.getMessage('watchChecks')}: {watch.snapshots.length}
+        </div>
+      </div>
+
+      {changeLog.length > 0 && (
+        <div
+          className={clsx(
+            'border-t divide-y text-xs',
+            darkMode ? 'border-slate-700 divide-slate-700' : 'border-slate-100 divide-slate-100'
+          )}
+        >
+          {changeLog.map(({ snapshot, previous }) => (
+            <button
+              key={snapshot.timestamp}
+              onClick={() => snapshot.historyId && onOpenEntry(snapshot.historyId)}
+              className={clsx(
+                'w-full px-4 py-2 flex gap-3 text-left',
+                darkMode ? 'hover:bg-slate-700/50' : 'hover:bg-slate-50'
+              )}
+            >
+              <span className={clsx('shrink-0 tabular-nums', mutedClass)}>
+                {format(snapshot.timestamp, 'yyyy-MM-dd HH:mm')}
+              </span>
+              <span className="min-w-0 space-y-0.5">
+                {snapshot.changes.map(change => (
+                  <span key={change} className="block break-all">
+                    {describeWatchChange(change, previous, snapshot)}
+                  </span>
+                ))}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,29 +1,36 @@
 import clsx from 'clsx';
 import { AlertTriangle } from 'lucide-react';
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import ChainScoreCard from '../../components/ChainScoreCard';
 import CopyButtons from '../../components/CopyButtons';
 import EmptyState from '../../components/EmptyState';
 import Header from '../../components/Header';
 import RedirectPath from '../../components/RedirectPath';
+import RedirectRulesDialog from '../../components/RedirectRulesDialog';
+import TraceUrlForm from '../../components/TraceUrlForm';
 import {
   ChainScore,
+  FrameRedirectChain,
   RedirectItem,
   calculateChainScore,
   calculateTotalDuration,
   generateId,
+  getCurrentChainStart,
 } from '../../types/redirect';
 import { exportToPDF } from '../../utils/pdf-export';
+import { getDirectRedirect } from '../../utils/redirect-rules';
 import { Settings, getSettings, saveSettings } from '../../utils/storage';
 
 export default function App() {
   const [redirectPath, setRedirectPath] = useState<RedirectItem[]>([]);
+  const [frames, setFrames] = useState<Record<number, FrameRedirectChain>>({});
   const [chainScore, setChainScore] = useState<ChainScore | null>(null);
   const [loading, setLoading] = useState(true);
   const [navigationError, setNavigationError] = useState<string | null>(null);
   const [currentUrl, setCurrentUrl] = useState('');
   const [darkMode, setDarkMode] = useState(false);
   const [settings, setSettings] = useState<Settings | null>(null);
+  const [showFix, setShowFix] = useState(false);
   const currentTabId = useRef<number | null>(null);
 
   useEffect(() => {
@@ -36,6 +43,7 @@ export default function App() {
       tabId?: number;
       path?: RedirectItem[];
       item?: RedirectItem;
+      frame?: FrameRedirectChain;
       error?: string;
     }) => {
       if (!currentTabId.current) return;
@@ -48,6 +56,25 @@ export default function App() {
         setRedirectPath(prev => [...prev, message.item!]);
       }
 
+      if (
+        message.name === 'redirectItemUpdate' &&
+        message.tabId === currentTabId.current &&
+        message.item
+      ) {
+        setRedirectPath(prev =>
+          prev.map(item => (item.id === message.item!.id ? message.item! : item))
+        );
+      }
+
+      if (
+        message.name === 'frameRedirectUpdate' &&
+        message.tabId === currentTabId.current &&
+        message.frame
+      ) {
+        const frame = message.frame;
+        setFrames(prev => ({ ...prev, [frame.frameId]: frame }));
+      }
+
       if (
         message.name === 'navigationComplete' &&
         message.tabId === currentTabId.current &&
@@ -58,6 +85,14 @@ export default function App() {
         setLoading(false);
       }
 
+      if (
+        message.name === 'redirectLoop' &&
+        message.tabId === currentTabId.current &&
+        message.path
+      ) {
+        setRedirectPath(message.path);
+      }
+
       if (message.name === 'navigationError' && message.tabId === currentTabId.current) {
         if (message.path) {
           setRedirectPath(message.path);
@@ -69,6 +104,7 @@ export default function App() {
       if (message.name === 'navigationStart' && message.tabId === currentTabId.current) {
         setNavigationError(null);
         setRedirectPath([]);
+        setFrames({});
         setLoading(true);
       }
     };
@@ -87,11 +123,11 @@ export default function App() {
 
   useEffect(() => {
     if (redirectPath.length > 0) {
-      setChainScore(calculateChainScore(redirectPath));
+      setChainScore(calculateChainScore(redirectPath, settings?.scoringProfile));
     } else {
       setChainScore(null);
     }
-  }, [redirectPath]);
+  }, [redirectPath, settings]);
 
   const loadSettings = async () => {
     const s = await getSettings();
@@ -119,6 +155,7 @@ export default function App() {
         const path = response.path || [];
         setNavigationError(null);
         setRedirectPath(path);
+        setFrames(response.frames || {});
 
         // If no path and page might still be loading, wait a bit and retry
         if (path.length === 0 && tab.status === 'loading') {
@@ -160,6 +197,7 @@ export default function App() {
           tabId: tab.id,
         });
         setRedirectPath([]);
+        setFrames({});
       }
     } catch (error) {
       console.error('[RedirectWise] Error clearing path:', error);
@@ -188,6 +226,12 @@ export default function App() {
     }
   };
 
+  // The path accumulates across navigations; only the current chain is worth collapsing
+  const fixRedirects = useMemo(() => {
+    const redirect = getDirectRedirect(redirectPath.slice(getCurrentChainStart(redirectPath)));
+    return redirect ? [redirect] : [];
+  }, [redirectPath]);
+
   const handleExportPDF = useCallback(async () => {
     if (redirectPath.length === 0 || !chainScore) return;
 
@@ -229,6 +273,15 @@ export default function App() {
           darkMode={darkMode}
         />
 
+        <div
+          className={clsx(
+            'px-4 py-2 border-b',
+            darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'
+          )}
+        >
+          <TraceUrlForm darkMode={darkMode} onOpenEntry={handleOpenDashboard} />
+        </div>
+
         {chainScore && settings?.showChainScoreInPopup !== false && (
           <ChainScoreCard score={chainScore} darkMode={darkMode} />
         )}
@@ -238,6 +291,7 @@ export default function App() {
             redirectPath={redirectPath}
             darkMode={darkMode}
             onExportPDF={handleExportPDF}
+            onGenerateFix={() => setShowFix(true)}
           />
         )}
       </div>
@@ -273,12 +327,20 @@ export default function App() {
                 <code className="text-[11px] break-all">{navigationError}</code>
               </div>
             )}
-            <RedirectPath items={redirectPath} darkMode={darkMode} />
+            <RedirectPath items={redirectPath} frames={frames} darkMode={darkMode} />
           </div>
         ) : (
           <EmptyState currentUrl={currentUrl} darkMode={darkMode} />
         )}
       </main>
+
+      {showFix && (
+        <RedirectRulesDialog
+          redirects={fixRedirects}
+          darkMode={darkMode}
+          onClose={() => setShowFix(false)}
+        />
+      )}
     </div>
   );
 }
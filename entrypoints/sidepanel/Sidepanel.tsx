@@ -11,21 +11,30 @@ import {
   ExternalLink,
   Moon,
   RefreshCw,
+  Repeat,
   Sun,
   Trash2,
   XCircle,
 } from 'lucide-react';
 import { Fragment, useCallback, useEffect, useRef, useState } from 'react';
+import AttributionPanel from '../../components/AttributionPanel';
+import CategoryChip from '../../components/CategoryChip';
+import FrameChains from '../../components/FrameChains';
 import HeadersList from '../../components/HeadersList';
 import Logo from '../../components/Logo';
+import ParamFlowTable from '../../components/ParamFlowTable';
+import ResourceChains from '../../components/ResourceChains';
 import {
   ChainScore,
+  FrameRedirectChain,
   RedirectItem,
+  ResourceRedirectChain,
   calculateChainScore,
   calculateGapDuration,
   formatDuration,
+  getCurrentChainStart,
 } from '../../types/redirect';
-import { Settings, getSettings, saveSettings } from '../../utils/storage';
+import { Settings, getSettings, onSettingsChanged, saveSettings } from '../../utils/storage';
 
 interface LiveRedirect extends RedirectItem {
   isNew?: boolean;
@@ -36,6 +45,8 @@ interface TabSession {
   url: string;
   title: string;
   path: LiveRedirect[];
+  frames: Record<number, FrameRedirectChain>;
+  resources: ResourceRedirectChain[];
   startTime: number;
   isActive: boolean;
 }
@@ -60,12 +71,13 @@ export default function Sidepanel() {
   const [activeTabUrl, setActiveTabUrl] = useState<string>('');
   const [darkMode, setDarkMode] = useState(false);
   const [settings, setSettings] = useState<Settings | null>(null);
-  const [isMonitoring, setIsMonitoring] = useState(true);
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
   const [autoScroll, setAutoScroll] = useState(true);
   const scrollRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
   const activeTabIdRef = useRef<number | null>(null);
+  // Capture is paused in the background, so the pause applies to every tab and survives restarts
+  const isMonitoring = !settings?.capturePaused;
 
   // Keep ref in sync with state
   useEffect(() => {
@@ -76,6 +88,7 @@ export default function Sidepanel() {
   useEffect(() => {
     loadSettings();
     initializeActiveTab();
+    return onSettingsChanged(setSettings);
   }, []);
 
   // Apply dark mode
@@ -111,6 +124,8 @@ export default function Sidepanel() {
             url: tab.url || '',
             title: tab.title || 'Unknown',
             path: response?.path || [],
+            frames: response?.frames || {},
+            resources: response?.resources || [],
             startTime: Date.now(),
             isActive: true,
           });
@@ -178,6 +193,8 @@ export default function Sidepanel() {
               url: tab.url || '',
               title: tab.title || 'Unknown',
               path: response.path,
+              frames: response.frames || {},
+              resources: response.resources || [],
               startTime: Date.now(),
               isActive: true,
             });
@@ -200,6 +217,8 @@ export default function Sidepanel() {
         existing.url = url;
         existing.title = title || url;
         existing.isActive = true;
+        existing.frames = {};
+        existing.resources = [];
         newSessions.set(tabId, existing);
       } else {
         // Start new session if none exists
@@ -208,6 +227,8 @@ export default function Sidepanel() {
           url,
           title: title || url,
           path: [],
+          frames: {},
+          resources: [],
           startTime: Date.now(),
           isActive: true,
         });
@@ -225,6 +246,8 @@ export default function Sidepanel() {
           url: url || item.url,
           title: title || 'Unknown',
           path: [],
+          frames: {},
+          resources: [],
           startTime: Date.now(),
           isActive: true,
         };
@@ -241,10 +264,86 @@ export default function Sidepanel() {
     []
   );
 
+  const handleRedirectItemUpdate = useCallback((tabId: number, item: RedirectItem) => {
+    setSessions(prev => {
+      const session = prev.get(tabId);
+      if (!session) return prev;
+
+      const newSessions = new Map(prev);
+      newSessions.set(tabId, {
+        ...session,
+        path: session.path.map(existing =>
+          existing.id === item.id ? { ...item, isNew: existing.isNew } : existing
+        ),
+      });
+      return newSessions;
+    });
+  }, []);
+
+  // Loop flags can land on hops that were already shown
+  const handleRedirectLoop = useCallback((tabId: number, path: RedirectItem[]) => {
+    setSessions(prev => {
+      const session = prev.get(tabId);
+      if (!session) return prev;
+
+      const loopIds = new Set(path.filter(item => item.in_loop).map(item => item.id));
+      const newSessions = new Map(prev);
+      newSessions.set(tabId, {
+        ...session,
+        path: session.path.map(existing =>
+          loopIds.has(existing.id) ? { ...existing, in_loop: true } : existing
+        ),
+      });
+      return newSessions;
+    });
+  }, []);
+
+  const handleFrameUpdate = useCallback((tabId: number, frame: FrameRedirectChain) => {
+    setSessions(prev => {
+      const session = prev.get(tabId);
+      if (!session) return prev;
+
+      const newSessions = new Map(prev);
+      newSessions.set(tabId, {
+        ...session,
+        frames: { ...session.frames, [frame.frameId]: frame },
+      });
+      return newSessions;
+    });
+  }, []);
+
+  const handleResourceUpdate = useCallback((tabId: number, chain: ResourceRedirectChain) => {
+    setSessions(prev => {
+      const session = prev.get(tabId);
+      if (!session) return prev;
+
+      const exists = session.resources.some(existing => existing.requestId === chain.requestId);
+      const newSessions = new Map(prev);
+      newSessions.set(tabId, {
+        ...session,
+        resources: exists
+          ? session.resources.map(existing =>
+              existing.requestId === chain.requestId ? chain : existing
+            )
+          : [...session.resources, chain],
+      });
+      return newSessions;
+    });
+  }, []);
+
   // Set up message listener for realtime updates
   useEffect(() => {
     const handleMessage = (
-      message: { name: string; tabId?: number; item?: RedirectItem; url?: string; title?: string },
+      message: {
+        name: string;
+        tabId?: number;
+        item?: RedirectItem;
+        path?: RedirectItem[];
+        frame?: FrameRedirectChain;
+        chain?: ResourceRedirectChain;
+        url?: string;
+        title?: string;
+      },
       _sender: chrome.runtime.MessageSender,
       sendResponse: (response?: unknown) => void
     ) => {
@@ -260,6 +359,34 @@ export default function Sidepanel() {
         sendResponse({ received: true });
       }
 
+      if (message.name === 'redirectItemUpdate' && message.tabId && message.item) {
+        if (message.tabId === currentActiveTabId) {
+          handleRedirectItemUpdate(message.tabId, message.item);
+        }
+        sendResponse({ received: true });
+      }
+
+      if (message.name === 'redirectLoop' && message.tabId && message.path) {
+        if (message.tabId === currentActiveTabId) {
+          handleRedirectLoop(message.tabId, message.path);
+        }
+        sendResponse({ received: true });
+      }
+
+      if (message.name === 'frameRedirectUpdate' && message.tabId && message.frame) {
+        if (message.tabId === currentActiveTabId) {
+          handleFrameUpdate(message.tabId, message.frame);
+        }
+        sendResponse({ received: true });
+      }
+
+      if (message.name === 'resourceRedirectUpdate' && message.tabId && message.chain) {
+        if (message.tabId === currentActiveTabId) {
+          handleResourceUpdate(message.tabId, message.chain);
+        }
+        sendResponse({ received: true });
+      }
+
       if (message.name === 'navigationStart' && message.tabId) {
         if (message.tabId === currentActiveTabId) {
           handleNavigationStart(message.tabId, message.url || '', message.title || '');
@@ -273,7 +400,15 @@ export default function Sidepanel() {
 
     chrome.runtime.onMessage.addListener(handleMessage);
     return () => chrome.runtime.onMessage.removeListener(handleMessage);
-  }, [isMonitoring, handleNewRedirect, handleNavigationStart]);
+  }, [
+    isMonitoring,
+    handleNewRedirect,
+    handleNavigationStart,
+    handleRedirectItemUpdate,
+    handleRedirectLoop,
+    handleFrameUpdate,
+    handleResourceUpdate,
+  ]);
 
   const toggleDarkMode = async () => {
     const newMode = !darkMode;
@@ -281,6 +416,13 @@ export default function Sidepanel() {
     await saveSettings({ darkMode: newMode });
   };
 
+  const toggleMonitoring = async () => {
+    if (!settings) return;
+    const capturePaused = !settings.capturePaused;
+    setSettings({ ...settings, capturePaused });
+    await saveSettings({ capturePaused });
+  };
+
   const clearSessions = () => {
     setSessions(new Map());
   };
@@ -299,7 +441,7 @@ export default function Sidepanel() {
 
   const activeSession = activeTabId ? sessions.get(activeTabId) : null;
   const chainScore: ChainScore | null = activeSession?.path.length
-    ? calculateChainScore(activeSession.path)
+    ? calculateChainScore(activeSession.path, settings?.scoringProfile)
     : null;
 
   const formatTime = (timestamp: number) => {
@@ -347,7 +489,7 @@ export default function Sidepanel() {
 
           <div className="flex items-center gap-1">
             <button
-              onClick={() => setIsMonitoring(!isMonitoring)}
+              onClick={toggleMonitoring}
               className="p-2 hover:bg-white/10 rounded-lg transition-colors"
               title={isMonitoring ? chrome.i18n.getMessage('pauseMonitoring') : chrome.i18n.getMessage('resumeMonitoring')}
             >
@@ -477,7 +619,8 @@ export default function Sidepanel() {
                     item.isNew && 'animate-highlight',
                     darkMode
                       ? 'bg-slate-800 border-slate-700 hover:border-slate-600'
-                      : 'bg-white border-gray-200 hover:border-gray-300'
+                      : 'bg-white border-gray-200 hover:border-gray-300',
+                    item.in_loop && 'ring-2 ring-red-500/60'
                   )}
                 >
                   {/* Compact View */}
@@ -501,6 +644,20 @@ export default function Sidepanel() {
                       {index + 1}
                     </span>
 
+                    {item.in_loop && (
+                      <span
+                        className={clsx(
+                          'flex items-center gap-1 text-[10px] font-medium px-1.5 py-0.5 rounded uppercase',
+                          darkMode ? 'bg-red-900/50 text-red-300' : 'bg-red-100 text-red-700'
+                        )}
+                        title={chrome.i18n.getMessage('redirectLoopHint')}
+                      >
+                        <Repeat className="w-3 h-3" />
+                        {chrome.i18n.getMessage('redirectLoop')}
+                      </span>
+                    )}
+                    {item.category && <CategoryChip category={item.category} darkMode={darkMode} />}
+
                     <span className="flex-1" />
 
                     <span
@@ -606,7 +763,10 @@ export default function Sidepanel() {
                               item.redirect_type === 'temporary' &&
                                 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300',
                               item.redirect_type === 'hsts' &&
-                                'bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300'
+                                'bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300',
+                              (item.redirect_type === 'meta' ||
+                                item.redirect_type === 'javascript') &&
+                                'bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-300'
                             )}
                           >
                             {item.redirect_type}
@@ -633,6 +793,24 @@ export default function Sidepanel() {
                         </div>
                       )}
 
+                      {/* Client Redirect Details */}
+                      {item.redirect_delay != null && (
+                        <div className="flex items-center gap-2">
+                          <span className="text-gray-500 w-14">
+                            {chrome.i18n.getMessage('clientRedirectDelay')}:
+                          </span>
+                          <span>{formatDuration(item.redirect_delay)}</span>
+                        </div>
+                      )}
+                      {item.redirect_source && (
+                        <div className="flex items-start gap-2">
+                          <span className="text-gray-500 w-14 shrink-0">
+                            {chrome.i18n.getMessage('clientRedirectSource')}:
+                          </span>
+                          <code className="break-all">{item.redirect_source}</code>
+                        </div>
+                      )}
+
                       {/* Enhanced Headers Details */}
                       {item.headers && item.headers.length > 0 && (
                         <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-700">
@@ -646,6 +824,38 @@ export default function Sidepanel() {
             );
           })
         )}
+        {activeSession && activeSession.path.length > 1 && (
+          <div className="pt-2">
+            <AttributionPanel
+              path={activeSession.path}
+              registry={settings?.domainRegistry}
+              darkMode={darkMode}
+            />
+          </div>
+        )}
+        {activeSession && activeSession.path.length > 1 && (
+          <div className="pt-2">
+            <ParamFlowTable
+              path={activeSession.path.slice(getCurrentChainStart(activeSession.path))}
+              darkMode={darkMode}
+            />
+          </div>
+        )}
+        {activeSession && Object.keys(activeSession.frames).length > 0 && (
+          <div className="pt-2">
+            <FrameChains frames={activeSession.frames} darkMode={darkMode} />
+          </div>
+        )}
+        {activeSession && activeSession.resources.length > 0 && (
+          <div className="pt-2">
+            <ResourceChains
+              chains={activeSession.resources}
+              showScore={settings?.showChainScoreInSidepanel !== false}
+              scoringProfile={settings?.scoringProfile}
+              darkMode={darkMode}
+            />
+          </div>
+        )}
         <div ref={bottomRef} className="h-1 shrink-0" />
       </div>
 
@@ -14,6 +14,10 @@ export interface RedirectItem {
   type: 'navigation' | 'server_redirect' | 'client_redirect';
   redirect_type?: 'permanent' | 'temporary' | 'meta' | 'javascript' | 'hsts';
   redirect_url?: string;
+  redirect_delay?: number;
+  redirect_source?: string;
+  category?: DomainCategory;
+  in_loop?: boolean;
   headers: RedirectHeader[];
   timestamp: number;
   timing?: RedirectTiming;
@@ -91,10 +95,295 @@ export function calculateGapDuration(
   return null;
 }
 
+export type DomainCategory = 'shortener' | 'ad_network' | 'affiliate' | 'analytics' | 'internal';
+
+export const DOMAIN_CATEGORIES: DomainCategory[] = [
+  'shortener',
+  'ad_network',
+  'affiliate',
+  'analytics',
+  'internal',
+];
+
+// Registry entry; "example.com" also covers its subdomains, "*" matches any run of characters
+export interface DomainRule {
+  pattern: string;
+  category: DomainCategory;
+}
+
+export const DEFAULT_DOMAIN_REGISTRY: DomainRule[] = [
+  ...[
+    'bit.ly',
+    't.co',
+    'goo.gl',
+    'rb.gy',
+    'tinyurl.com',
+    'ow.ly',
+    'buff.ly',
+    'is.gd',
+    'cutt.ly',
+    'shorturl.at',
+    'tiny.cc',
+    'lnkd.in',
+    'fb.me',
+    'youtu.be',
+    'amzn.to',
+    'g.co',
+  ].map(pattern => ({ pattern, category: 'shortener' as const })),
+  ...[
+    'doubleclick.net',
+    'googleadservices.com',
+    'googlesyndication.com',
+    'adnxs.com',
+    'criteo.com',
+    'taboola.com',
+    'outbrain.com',
+    'ads.linkedin.com',
+    'bat.bing.com',
+  ].map(pattern => ({ pattern, category: 'ad_network' as const })),
+  ...[
+    'awin1.com',
+    'anrdoezrs.net',
+    'dpbolvw.net',
+    'jdoqocy.com',
+    'kqzyfj.com',
+    'tkqlhce.com',
+    'shareasale.com',
+    'click.linksynergy.com',
+    'go.skimresources.com',
+    'prf.hn',
+    'sjv.io',
+    'pntra.com',
+  ].map(pattern => ({ pattern, category: 'affiliate' as const })),
+  ...[
+    'l.facebook.com',
+    'l.instagram.com',
+    '*.list-manage.com',
+    '*.ct.sendgrid.net',
+    'mandrillapp.com',
+    'hubspotlinks.com',
+  ].map(pattern => ({ pattern, category: 'analytics' as const })),
+];
+
+export function matchesDomainPattern(hostname: string, pattern: string): boolean {
+  const host = hostname.toLowerCase();
+  const normalized = pattern.trim().toLowerCase();
+  if (!normalized) return false;
+
+  if (normalized.includes('*')) {
+    const escaped = normalized.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`).test(host);
+  }
+  return host === normalized || host.endsWith('.' + normalized);
+}
+
+export function getDomainCategory(
+  url: string,
+  registry: DomainRule[] = DEFAULT_DOMAIN_REGISTRY
+): DomainCategory | undefined {
+  try {
+    const hostname = new URL(url).hostname;
+    return registry.find(rule => matchesDomainPattern(hostname, rule.pattern))?.category;
+  } catch {
+    return undefined;
+  }
+}
+
+export type HeaderCategory = 'server' | 'caching' | 'security' | 'content' | 'clientHints';
+
+// Response headers behind each card in the headers list, lower-case
+export const HEADER_CATEGORY_HEADERS: Record<HeaderCategory, string[]> = {
+  server: ['server', 'x-powered-by', 'via', 'alt-svc'],
+  caching: ['cache-control', 'expires', 'age', 'etag', 'last-modified'],
+  security: [
+    'strict-transport-security',
+    'content-security-policy',
+    'content-security-policy-report-only',
+    'x-frame-options',
+    'x-xss-protection',
+    'x-content-type-options',
+    'cross-origin-opener-policy',
+    'cross-origin-resource-policy',
+    'cross-origin-embedder-policy',
+    'permissions-policy',
+  ],
+  content: ['content-type', 'content-encoding', 'content-length', 'transfer-encoding'],
+  clientHints: ['accept-ch'],
+};
+
+export function getHeaderCategory(name: string): HeaderCategory | undefined {
+  const lower = name.toLowerCase();
+  return (Object.keys(HEADER_CATEGORY_HEADERS) as HeaderCategory[]).find(category =>
+    HEADER_CATEGORY_HEADERS[category].includes(lower)
+  );
+}
+
+// Browsers give up after 20 redirects with ERR_TOO_MANY_REDIRECTS
+export const MAX_REDIRECT_HOPS = 20;
+
+// Search engines stop following a chain after about 10 hops
+export const EXCESSIVE_HOP_THRESHOLD = 10;
+
+// More redirects than this make a long chain, unless the scoring profile says otherwise
+const LONG_CHAIN_THRESHOLD = 3;
+
+// Query parameters that vary between visits without changing the destination
+const TRACKING_PARAM_PATTERN =
+  /^(utm_\w+|fbclid|gclid|dclid|gbraid|wbraid|msclkid|yclid|ttclid|twclid|li_fat_id|irclickid|mc_cid|mc_eid|_ga|_gl|igshid)$/i;
+
+export function isTrackingParam(param: string): boolean {
+  return TRACKING_PARAM_PATTERN.test(param);
+}
+
+// URL used to spot repeats: exact apart from the fragment, so /blog -> /blog/ or dropping
+// utm_source is a canonical redirect, not a cycle
+export function normalizeLoopUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+// Index of the first hop of the chain that ends the path (earlier hops belong to previous page loads)
+export function getCurrentChainStart(path: Pick<RedirectItem, 'type'>[]): number {
+  for (let i = path.length - 2; i >= 0; i--) {
+    if (path[i].type === 'navigation') return i + 1;
+  }
+  return 0;
+}
+
+// UTM and click-ID parameters a redirect dropped that never come back before the chain ends
+export function findLostTrackingParams(
+  path: Pick<RedirectItem, 'url' | 'type'>[]
+): { param: string; hop: number }[] {
+  const lost: { param: string; hop: number }[] = [];
+  const params = path.map(item => {
+    try {
+      return new URL(item.url).searchParams;
+    } catch {
+      return new URLSearchParams();
+    }
+  });
+
+  let chainEnd = path.length - 1;
+  for (let i = path.length - 2; i >= 0; i--) {
+    if (path[i].type === 'navigation') {
+      chainEnd = i;
+      continue;
+    }
+    for (const key of new Set(params[i].keys())) {
+      if (isTrackingParam(key) && !params[i + 1].has(key) && !params[chainEnd].has(key)) {
+        lost.push({ param: key, hop: i });
+      }
+    }
+  }
+  return lost.reverse();
+}
+
+// A server-side chain whose last hop is a page response got somewhere, whatever it repeated on the way.
+// A trailing page after a client redirect may still redirect itself, so that case stays open.
+function endsOnPage(path: Pick<RedirectItem, 'type'>[], chainStart: number): boolean {
+  return (
+    path.length - chainStart > 1 &&
+    path[path.length - 1].type === 'navigation' &&
+    path[path.length - 2].type === 'server_redirect'
+  );
+}
+
+// First redirect URL the current chain returns to, as the [start, end] hop indexes of the cycle
+export function findRedirectLoop(
+  path: Pick<RedirectItem, 'url' | 'type'>[]
+): { start: number; end: number } | null {
+  const chainStart = getCurrentChainStart(path);
+  if (endsOnPage(path, chainStart)) return null;
+
+  const seen = new Map<string, number>();
+  for (let i = chainStart; i < path.length; i++) {
+    // Only redirect hops can cycle; a page response is where a chain stops
+    if (path[i].type === 'navigation') continue;
+    const key = normalizeLoopUrl(path[i].url);
+    const firstIndex = seen.get(key);
+    if (firstIndex != null) return { start: firstIndex, end: i };
+    seen.set(key, i);
+  }
+  return null;
+}
+
+// Flag every hop from the start of the cycle on; with force (ERR_TOO_MANY_REDIRECTS, hop limit)
+// the whole current chain is flagged when no repeat is visible
+export function markRedirectLoop(path: RedirectItem[], force = false): boolean {
+  const loop = findRedirectLoop(path);
+  if (!loop && !force) {
+    // Hops flagged while the chain was still redirecting are cleared once it reaches a page
+    const chainStart = getCurrentChainStart(path);
+    if (endsOnPage(path, chainStart)) {
+      for (let i = chainStart; i < path.length; i++) delete path[i].in_loop;
+    }
+    return false;
+  }
+
+  const start = loop?.start ?? getCurrentChainStart(path);
+  for (let i = start; i < path.length; i++) {
+    path[i].in_loop = true;
+  }
+  return true;
+}
+
+export function hasRedirectLoop(path: Pick<RedirectItem, 'in_loop'>[]): boolean {
+  return path.some(item => item.in_loop);
+}
+
 export interface TabRedirectPath {
   tabId: number;
   path: RedirectItem[];
   startTime: number;
+  committedItemId?: string;
+  frames?: Record<number, FrameRedirectChain>;
+  resources?: ResourceRedirectChain[];
+}
+
+// Redirect chain of an iframe, nested under the owning tab
+export interface FrameRedirectChain {
+  frameId: number;
+  parentFrameId: number;
+  requestId: string;
+  path: RedirectItem[];
+  startTime: number;
+}
+
+// Client-side redirect candidate reported by the content script for the current document
+export interface ClientRedirectHint {
+  kind: 'meta' | 'javascript';
+  url: string;
+  targetUrl?: string;
+  delay?: number;
+  source: string;
+  timestamp: number;
+}
+
+// Sub-resource request types that can be tracked in network chain mode
+export const TRACKABLE_RESOURCE_TYPES = [
+  'xmlhttprequest',
+  'script',
+  'stylesheet',
+  'image',
+  'font',
+  'media',
+  'ping',
+  'other',
+] as const;
+
+export type TrackableResourceType = (typeof TRACKABLE_RESOURCE_TYPES)[number];
+
+// Redirect chain of a sub-resource request (XHR/fetch, image, script, ...)
+export interface ResourceRedirectChain {
+  requestId: string;
+  resourceType: TrackableResourceType;
+  path: RedirectItem[];
+  startTime: number;
 }
 
 export interface RedirectMessage {
@@ -119,6 +408,85 @@ export interface HistoryEntry {
   tags?: string[];
   notes?: string;
   isFavorite?: boolean;
+  batchId?: string;
+  watchId?: string;
+  expected?: RedirectExpectation;
+  loop?: boolean;
+}
+
+// Expected outcome of a source URL after a site migration
+export interface RedirectExpectation {
+  targetUrl?: string;
+  status?: number;
+}
+
+export interface ExpectationResult {
+  pass: boolean;
+  targetMatch: boolean;
+  statusMatch: boolean;
+  actualTarget: string;
+  actualStatus: number;
+}
+
+// Bulk URL check job, persisted so it can resume after a service worker restart
+export interface BatchJob {
+  id: string;
+  name: string;
+  status: 'running' | 'paused' | 'completed' | 'cancelled';
+  options: BatchJobOptions;
+  items: BatchJobItem[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface BatchJobOptions {
+  concurrency: number;
+  perHostDelayMs: number;
+  timeoutMs: number;
+}
+
+export interface BatchJobItem {
+  url: string;
+  expected?: RedirectExpectation;
+  status: 'pending' | 'running' | 'done' | 'failed';
+  historyId?: string;
+  finalUrl?: string;
+  statusCode?: number;
+  grade?: ChainScore['grade'];
+  redirectCount?: number;
+  hops?: Pick<RedirectItem, 'url' | 'status_code'>[];
+  error?: string;
+}
+
+export type WatchSchedule = 'hourly' | 'daily';
+
+// What differs from the previous check of a watched URL
+export type WatchChange = 'finalUrl' | 'hopCount' | 'status' | 'grade' | 'error';
+
+// URL re-traced on a schedule, persisted with a summary of every check
+export interface WatchedUrl {
+  id: string;
+  url: string;
+  schedule: WatchSchedule;
+  createdAt: number;
+  nextCheckAt: number;
+  lastCheckedAt?: number;
+  // Set when the last check couldn't trace the URL
+  lastError?: string;
+  snapshots: WatchSnapshot[]; // oldest first
+}
+
+export interface WatchSnapshot {
+  timestamp: number;
+  historyId?: string;
+  finalUrl: string;
+  redirectCount: number;
+  statusCodes: number[];
+  grade: ChainScore['grade'];
+  score: number;
+  changes: WatchChange[];
+  // Set when the check failed; without a historyId nothing was traced and the chain fields are empty
+  error?: string;
 }
 
 // Chain score for SEO analysis
@@ -126,15 +494,75 @@ export interface ChainScore {
   score: number; // 0-100
   grade: 'A' | 'B' | 'C' | 'D' | 'F';
   issues: ChainIssue[];
-  recommendations: string[];
+  // Plain English strings on entries scored before recommendations had codes
+  recommendations: (ChainRecommendation | string)[];
 }
 
+export type ChainIssueCode =
+  | 'trackingRedirects'
+  | 'redirectLoop'
+  | 'excessiveChain'
+  | 'longChain'
+  | 'multipleRedirects'
+  | 'temporaryRedirects'
+  | 'clientRedirects'
+  | 'errorResponses'
+  | 'insecureUrl'
+  | 'lostTrackingParams'
+  | 'fastChain'
+  | 'slowRedirects'
+  | 'directAccess'
+  | 'singlePermanentRedirect';
+
 export interface ChainIssue {
+  // Missing on entries scored before issues had codes; see getChainIssueCode
+  code?: ChainIssueCode;
+  // Substitutions ($1, $2) for the code's localized message; durations are raw milliseconds,
+  // formatted in the reader's language when the message is rendered
+  params?: string[];
   type: 'warning' | 'error' | 'info';
+  // English text, kept for exports and entries scored before params were stored
   message: string;
   impact: 'high' | 'medium' | 'low';
 }
 
+export type ChainRecommendationCode =
+  | 'breakLoop'
+  | 'pointToFinal'
+  | 'reduceChain'
+  | 'usePermanent'
+  | 'useServerRedirect'
+  | 'useHttps'
+  | 'forwardQueryString';
+
+export interface ChainRecommendation {
+  code: ChainRecommendationCode;
+  params?: string[];
+  message: string;
+}
+
+// Older entries only stored the English message, so their code is recovered from it
+const LEGACY_ISSUE_PATTERNS: [RegExp, ChainIssueCode][] = [
+  [/tracking redirect\(s\) detected/, 'trackingRedirects'],
+  [/^Redirect loop/, 'redirectLoop'],
+  [/^Excessive chain/, 'excessiveChain'],
+  [/^Long chain/, 'longChain'],
+  [/redirects in chain/, 'multipleRedirects'],
+  [/temporary redirect\(s\)/, 'temporaryRedirects'],
+  [/client-side redirect\(s\)/, 'clientRedirects'],
+  [/error response\(s\)/, 'errorResponses'],
+  [/^Non-HTTPS/, 'insecureUrl'],
+  [/^Tracking parameter\(s\) lost/, 'lostTrackingParams'],
+  [/^Fast chain/, 'fastChain'],
+  [/slow redirect\(s\)/, 'slowRedirects'],
+  [/^Perfect!/, 'directAccess'],
+  [/^Single permanent redirect/, 'singlePermanentRedirect'],
+];
+
+export function getChainIssueCode(issue: ChainIssue): ChainIssueCode | undefined {
+  return issue.code ?? LEGACY_ISSUE_PATTERNS.find(([pattern]) => pattern.test(issue.message))?.[1];
+}
+
 export function getStatusObject(statusCode: number): RedirectItem['statusObject'] {
   const isSuccess = statusCode >= 200 && statusCode < 300;
   const isRedirect = statusCode >= 300 && statusCode < 400;
@@ -161,137 +589,313 @@ export function generateId(): string {
   return Math.random().toString(36).substring(2, 15);
 }
 
-export function calculateChainScore(path: RedirectItem[]): ChainScore {
+export type ScoringRuleId =
+  | 'regularRedirect'
+  | 'trackingRedirect'
+  | 'longChain'
+  | 'excessiveChain'
+  | 'temporaryRedirect'
+  | 'clientRedirect'
+  | 'errorResponse'
+  | 'insecureUrl'
+  | 'slowRedirect'
+  | 'fastChain'
+  | 'redirectLoop'
+  | 'lostTrackingParams';
+
+// One scoring rule; weight is deducted per occurrence or once per chain (see SCORING_RULE_UNITS)
+export interface ScoringRule {
+  id: ScoringRuleId;
+  enabled: boolean;
+  weight: number;
+  threshold?: number;
+}
+
+// Minimum score for each grade, anything below D is an F
+export interface GradeThresholds {
+  A: number;
+  B: number;
+  C: number;
+  D: number;
+}
+
+export interface ScoringProfile {
+  rules: ScoringRule[];
+  gradeThresholds: GradeThresholds;
+  // Per-hop weight overrides by domain category; unset categories use their rule's weight
+  categoryWeights: Partial<Record<DomainCategory, number>>;
+}
+
+// What a rule's weight and threshold are measured in, for the settings editor
+export const SCORING_RULE_UNITS: Record<
+  ScoringRuleId,
+  { weight: 'perHop' | 'perChain' | 'bonus'; threshold?: 'hops' | 'ms' }
+> = {
+  regularRedirect: { weight: 'perHop' },
+  trackingRedirect: { weight: 'perHop' },
+  longChain: { weight: 'perChain', threshold: 'hops' },
+  excessiveChain: { weight: 'perChain', threshold: 'hops' },
+  temporaryRedirect: { weight: 'perHop' },
+  clientRedirect: { weight: 'perHop' },
+  errorResponse: { weight: 'perHop' },
+  insecureUrl: { weight: 'perChain' },
+  slowRedirect: { weight: 'perHop', threshold: 'ms' },
+  fastChain: { weight: 'bonus', threshold: 'ms' },
+  redirectLoop: { weight: 'perChain' },
+  lostTrackingParams: { weight: 'perChain' },
+};
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  rules: [
+    { id: 'regularRedirect', enabled: true, weight: 5 },
+    { id: 'trackingRedirect', enabled: true, weight: 2 },
+    { id: 'longChain', enabled: true, weight: 10, threshold: LONG_CHAIN_THRESHOLD },
+    { id: 'excessiveChain', enabled: true, weight: 20, threshold: EXCESSIVE_HOP_THRESHOLD },
+    { id: 'temporaryRedirect', enabled: true, weight: 3 },
+    { id: 'clientRedirect', enabled: true, weight: 10 },
+    { id: 'errorResponse', enabled: true, weight: 20 },
+    { id: 'insecureUrl', enabled: true, weight: 10 },
+    { id: 'slowRedirect', enabled: true, weight: 5, threshold: 1000 },
+    { id: 'fastChain', enabled: true, weight: 5, threshold: 500 },
+    { id: 'redirectLoop', enabled: true, weight: 50 },
+    { id: 'lostTrackingParams', enabled: true, weight: 5 },
+  ],
+  gradeThresholds: { A: 90, B: 75, C: 60, D: 40 },
+  categoryWeights: {},
+};
+
+// Fill in rules a stored profile doesn't know about yet, keeping the default order
+export function resolveScoringProfile(profile?: Partial<ScoringProfile> | null): ScoringProfile {
+  return {
+    rules: DEFAULT_SCORING_PROFILE.rules.map(defaultRule => {
+      const stored = profile?.rules?.find(rule => rule.id === defaultRule.id);
+      return stored ? { ...defaultRule, ...stored } : defaultRule;
+    }),
+    gradeThresholds: { ...DEFAULT_SCORING_PROFILE.gradeThresholds, ...profile?.gradeThresholds },
+    categoryWeights: { ...DEFAULT_SCORING_PROFILE.categoryWeights, ...profile?.categoryWeights },
+  };
+}
+
+export function getGradeForScore(
+  score: number,
+  thresholds: GradeThresholds = DEFAULT_SCORING_PROFILE.gradeThresholds
+): ChainScore['grade'] {
+  if (score >= thresholds.A) return 'A';
+  if (score >= thresholds.B) return 'B';
+  if (score >= thresholds.C) return 'C';
+  if (score >= thresholds.D) return 'D';
+  return 'F';
+}
+
+export function calculateChainScore(
+  path: RedirectItem[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ChainScore {
   const issues: ChainIssue[] = [];
-  const recommendations: string[] = [];
+  const recommendations: ChainRecommendation[] = [];
   let score = 100;
 
-  const TRACKING_DOMAINS = [
-    'bit.ly',
-    't.co',
-    'goo.gl',
-    'rb.gy',
-    'tinyurl.com',
-    'ow.ly',
-    'buff.ly',
-    'is.gd',
-    'cutt.ly',
-    'shorturl.at',
-    'tiny.cc',
-    'lnkd.in',
-    'fb.me',
-    'youtu.be',
-    'amzn.to',
-    'g.co',
-  ];
-
-  const isTrackingDomain = (url: string): boolean => {
-    try {
-      const hostname = new URL(url).hostname.toLowerCase();
-      return TRACKING_DOMAINS.some(d => hostname === d || hostname.endsWith('.' + d));
-    } catch {
-      return false;
-    }
+  const { rules, gradeThresholds, categoryWeights } = resolveScoringProfile(profile);
+  const getRule = (id: ScoringRuleId): ScoringRule | null => {
+    const rule = rules.find(r => r.id === id);
+    return rule?.enabled ? rule : null;
   };
 
   const redirects = path.filter(p => p.type === 'server_redirect' || p.type === 'client_redirect');
   const redirectCount = redirects.length;
-  const trackingRedirectCount = redirects.filter(r => isTrackingDomain(r.url)).length;
-  const regularRedirectCount = redirectCount - trackingRedirectCount;
+  // Shortener, ad, affiliate and analytics hops are expected in marketing links; internal ones are not
+  const trackingRedirects = redirects.filter(r => r.category && r.category !== 'internal');
+  const regularRedirects = redirects.filter(r => !r.category || r.category === 'internal');
+  const hopWeight = (item: RedirectItem, fallback: number) =>
+    (item.category ? categoryWeights[item.category] : undefined) ?? fallback;
 
   const totalTime = calculateTotalDuration(path);
-  const slowRedirects = path.filter(p => (p.timing?.duration || 0) > 1000);
 
-  if (regularRedirectCount > 0) {
-    score -= regularRedirectCount * 5;
+  const regularRule = getRule('regularRedirect');
+  if (regularRule) {
+    regularRedirects.forEach(item => (score -= hopWeight(item, regularRule.weight)));
   }
-  if (trackingRedirectCount > 0) {
-    score -= trackingRedirectCount * 2;
+  const trackingRule = getRule('trackingRedirect');
+  if (trackingRule && trackingRedirects.length > 0) {
+    trackingRedirects.forEach(item => (score -= hopWeight(item, trackingRule.weight)));
     issues.push({
+      code: 'trackingRedirects',
+      params: [String(trackingRedirects.length)],
       type: 'info',
-      message: `${trackingRedirectCount} tracking redirect(s) detected (expected for ads/analytics).`,
+      message: `${trackingRedirects.length} tracking redirect(s) detected (expected for ads/analytics).`,
       impact: 'low',
     });
   }
 
-  if (redirectCount > 3) {
+  const loopRule = getRule('redirectLoop');
+  const loopHops = path.filter(p => p.in_loop);
+  if (loopRule && loopHops.length > 0) {
+    issues.push({
+      code: 'redirectLoop',
+      params: [String(loopHops.length)],
+      type: 'error',
+      message: `Redirect loop: ${loopHops.length} hop(s) cycle back to an earlier URL. The page never loads.`,
+      impact: 'high',
+    });
+    recommendations.push({
+      code: 'breakLoop',
+      message: 'Break the redirect loop so the chain ends on a 200 response',
+    });
+    score -= loopRule.weight;
+  }
+
+  const excessiveRule = getRule('excessiveChain');
+  const longRule = getRule('longChain');
+  const excessiveThreshold = excessiveRule?.threshold ?? EXCESSIVE_HOP_THRESHOLD;
+  const longThreshold = longRule?.threshold ?? LONG_CHAIN_THRESHOLD;
+  if (excessiveRule && redirectCount >= excessiveThreshold) {
+    issues.push({
+      code: 'excessiveChain',
+      params: [String(redirectCount), String(excessiveThreshold)],
+      type: 'error',
+      message: `Excessive chain: ${redirectCount} redirects. Crawlers stop following after ~${excessiveThreshold} hops.`,
+      impact: 'high',
+    });
+    recommendations.push({
+      code: 'pointToFinal',
+      message: 'Point the first URL directly at the final destination',
+    });
+    score -= excessiveRule.weight;
+  } else if (longRule && redirectCount > longThreshold) {
     issues.push({
+      code: 'longChain',
+      params: [String(redirectCount)],
       type: 'error',
       message: `Long chain: ${redirectCount} redirects. Each hop loses ~5% link equity.`,
       impact: 'high',
     });
-    recommendations.push('Reduce redirect chain to 2-3 hops maximum');
-    score -= 10;
+    // The default threshold keeps the original "2-3 hops" advice; a custom one is quoted as set
+    const maxHops = longThreshold === LONG_CHAIN_THRESHOLD ? '2-3' : String(longThreshold);
+    recommendations.push({
+      code: 'reduceChain',
+      params: [maxHops],
+      message: `Reduce redirect chain to ${maxHops} hops maximum`,
+    });
+    score -= longRule.weight;
   } else if (redirectCount > 1) {
     issues.push({
+      code: 'multipleRedirects',
+      params: [String(redirectCount)],
       type: 'warning',
       message: `${redirectCount} redirects in chain.`,
       impact: 'medium',
     });
   }
 
+  const tempRule = getRule('temporaryRedirect');
   const tempRedirects = path.filter(p => p.status_code === 302 || p.status_code === 307);
-  if (tempRedirects.length > 0) {
+  if (tempRule && tempRedirects.length > 0) {
     issues.push({
+      code: 'temporaryRedirects',
+      params: [String(tempRedirects.length)],
       type: 'warning',
       message: `${tempRedirects.length} temporary redirect(s). Use 301 for permanent moves.`,
       impact: 'medium',
     });
-    recommendations.push('Change 302/307 to 301/308 if the move is permanent');
-    score -= tempRedirects.length * 3;
+    recommendations.push({
+      code: 'usePermanent',
+      message: 'Change 302/307 to 301/308 if the move is permanent',
+    });
+    score -= tempRedirects.length * tempRule.weight;
   }
 
+  const clientRule = getRule('clientRedirect');
   const clientRedirects = path.filter(p => p.type === 'client_redirect');
-  if (clientRedirects.length > 0) {
+  if (clientRule && clientRedirects.length > 0) {
     issues.push({
+      code: 'clientRedirects',
+      params: [String(clientRedirects.length)],
       type: 'error',
       message: `${clientRedirects.length} client-side redirect(s). Bad for SEO and slow.`,
       impact: 'high',
     });
-    recommendations.push('Replace meta/JavaScript redirects with server-side 301');
-    score -= clientRedirects.length * 10;
+    recommendations.push({
+      code: 'useServerRedirect',
+      message: 'Replace meta/JavaScript redirects with server-side 301',
+    });
+    score -= clientRedirects.length * clientRule.weight;
   }
 
+  const errorRule = getRule('errorResponse');
   const errors = path.filter(p => p.status_code >= 400);
-  if (errors.length > 0) {
+  if (errorRule && errors.length > 0) {
     issues.push({
+      code: 'errorResponses',
+      params: [String(errors.length)],
       type: 'error',
       message: `${errors.length} error response(s) in chain.`,
       impact: 'high',
     });
-    score -= errors.length * 20;
+    score -= errors.length * errorRule.weight;
   }
 
+  const insecureRule = getRule('insecureUrl');
   const hasHttp = path.some(p => p.url.startsWith('http://'));
-  if (hasHttp) {
+  if (insecureRule && hasHttp) {
     issues.push({
+      code: 'insecureUrl',
+      params: [],
       type: 'warning',
       message: 'Non-HTTPS URL detected.',
       impact: 'medium',
     });
-    recommendations.push('Ensure all URLs use HTTPS');
-    score -= 10;
+    recommendations.push({ code: 'useHttps', message: 'Ensure all URLs use HTTPS' });
+    score -= insecureRule.weight;
+  }
+
+  const lostParamsRule = getRule('lostTrackingParams');
+  const lostParams = findLostTrackingParams(path);
+  if (lostParamsRule && lostParams.length > 0) {
+    const names = [...new Set(lostParams.map(lost => lost.param))];
+    issues.push({
+      code: 'lostTrackingParams',
+      params: [names.join(', ')],
+      type: 'warning',
+      message: `Tracking parameter(s) lost along the chain: ${names.join(', ')}.`,
+      impact: 'medium',
+    });
+    recommendations.push({
+      code: 'forwardQueryString',
+      message:
+        'Forward the query string on every redirect so UTM and click IDs reach the destination',
+    });
+    score -= lostParamsRule.weight;
   }
 
-  if (totalTime > 0 && totalTime < 500 && redirectCount > 0) {
-    score += 5;
+  const fastRule = getRule('fastChain');
+  if (fastRule && totalTime > 0 && totalTime < (fastRule.threshold ?? 500) && redirectCount > 0) {
+    score += fastRule.weight;
     issues.push({
+      code: 'fastChain',
+      params: [String(totalTime)],
       type: 'info',
       message: `Fast chain: ${formatDuration(totalTime, { style: 'long' })} total.`,
       impact: 'low',
     });
   }
-  if (slowRedirects.length > 0) {
+  const slowRule = getRule('slowRedirect');
+  const slowThreshold = slowRule?.threshold ?? 1000;
+  const slowRedirects = path.filter(p => (p.timing?.duration || 0) > slowThreshold);
+  if (slowRule && slowRedirects.length > 0) {
     issues.push({
+      code: 'slowRedirects',
+      params: [String(slowRedirects.length), String(slowThreshold)],
       type: 'warning',
-      message: `${slowRedirects.length} slow redirect(s) (>1 second each).`,
+      message: `${slowRedirects.length} slow redirect(s) (>${formatDuration(slowThreshold, { style: 'long' })} each).`,
       impact: 'medium',
     });
-    score -= slowRedirects.length * 5;
+    score -= slowRedirects.length * slowRule.weight;
   }
 
   if (redirectCount === 0 && issues.filter(i => i.type !== 'info').length === 0) {
     issues.push({
+      code: 'directAccess',
+      params: [],
       type: 'info',
       message: 'Perfect! Direct access with no redirects.',
       impact: 'low',
@@ -300,6 +904,8 @@ export function calculateChainScore(path: RedirectItem[]): ChainScore {
     const redirectItem = redirects[0];
     if (redirectItem?.status_code === 301 || redirectItem?.status_code === 308) {
       issues.push({
+        code: 'singlePermanentRedirect',
+        params: [],
         type: 'info',
         message: 'Single permanent redirect (minimal SEO impact).',
         impact: 'low',
@@ -308,13 +914,7 @@ export function calculateChainScore(path: RedirectItem[]): ChainScore {
   }
 
   score = Math.max(0, Math.min(100, score));
-
-  let grade: ChainScore['grade'];
-  if (score >= 90) grade = 'A';
-  else if (score >= 75) grade = 'B';
-  else if (score >= 60) grade = 'C';
-  else if (score >= 40) grade = 'D';
-  else grade = 'F';
+  const grade = getGradeForScore(score, gradeThresholds);
 
   return { score, grade, issues, recommendations };
 }
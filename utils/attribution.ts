@@ -0,0 +1,244 @@
+// Who takes part in a redirect chain, and what happens to their tracking parameters hop by hop
+
+import {
+  DEFAULT_DOMAIN_REGISTRY,
+  DomainCategory,
+  DomainRule,
+  RedirectItem,
+  getDomainCategory,
+  matchesDomainPattern,
+} from '../types/redirect';
+
+interface KnownNetwork {
+  name: string;
+  category: DomainCategory;
+  hosts: string[];
+  params: string[];
+}
+
+const KNOWN_NETWORKS: KnownNetwork[] = [
+  {
+    name: 'Google Ads',
+    category: 'ad_network',
+    hosts: ['googleadservices.com'],
+    params: ['gclid', 'gclsrc', 'gbraid', 'wbraid'],
+  },
+  {
+    name: 'Google Marketing Platform',
+    category: 'ad_network',
+    hosts: ['doubleclick.net'],
+    params: ['dclid'],
+  },
+  { name: 'Google AdSense', category: 'ad_network', hosts: ['googlesyndication.com'], params: [] },
+  {
+    name: 'Microsoft Advertising',
+    category: 'ad_network',
+    hosts: ['bat.bing.com'],
+    params: ['msclkid'],
+  },
+  {
+    name: 'Meta',
+    category: 'analytics',
+    hosts: ['l.facebook.com', 'l.instagram.com', 'fb.me'],
+    params: ['fbclid', 'igshid'],
+  },
+  { name: 'TikTok Ads', category: 'ad_network', hosts: [], params: ['ttclid'] },
+  {
+    name: 'LinkedIn Ads',
+    category: 'ad_network',
+    hosts: ['ads.linkedin.com', 'lnkd.in'],
+    params: ['li_fat_id'],
+  },
+  { name: 'X Ads', category: 'ad_network', hosts: ['t.co'], params: ['twclid'] },
+  { name: 'Yandex Direct', category: 'ad_network', hosts: [], params: ['yclid'] },
+  { name: 'Xandr', category: 'ad_network', hosts: ['adnxs.com'], params: [] },
+  { name: 'Criteo', category: 'ad_network', hosts: ['criteo.com'], params: [] },
+  { name: 'Taboola', category: 'ad_network', hosts: ['taboola.com'], params: ['tblci'] },
+  { name: 'Outbrain', category: 'ad_network', hosts: ['outbrain.com'], params: ['dicbo'] },
+  { name: 'Awin', category: 'affiliate', hosts: ['awin1.com'], params: ['awc'] },
+  {
+    name: 'CJ Affiliate',
+    category: 'affiliate',
+    hosts: ['anrdoezrs.net', 'dpbolvw.net', 'jdoqocy.com', 'kqzyfj.com', 'tkqlhce.com'],
+    params: ['cjevent', 'cjdata'],
+  },
+  { name: 'ShareASale', category: 'affiliate', hosts: ['shareasale.com'], params: ['sscid'] },
+  {
+    name: 'Rakuten Advertising',
+    category: 'affiliate',
+    hosts: ['click.linksynergy.com'],
+    params: ['ranmid', 'raneaid', 'ransiteid'],
+  },
+  { name: 'Skimlinks', category: 'affiliate', hosts: ['go.skimresources.com'], params: [] },
+  { name: 'Partnerize', category: 'affiliate', hosts: ['prf.hn'], params: ['clickref'] },
+  {
+    name: 'Impact',
+    category: 'affiliate',
+    hosts: ['sjv.io', 'pntra.com'],
+    params: ['irclickid', 'irgwc'],
+  },
+  { name: 'Amazon Associates', category: 'affiliate', hosts: ['amzn.to'], params: [] },
+  {
+    name: 'Mailchimp',
+    category: 'analytics',
+    hosts: ['*.list-manage.com'],
+    params: ['mc_cid', 'mc_eid'],
+  },
+  {
+    name: 'HubSpot',
+    category: 'analytics',
+    hosts: ['hubspotlinks.com'],
+    params: ['_hsenc', '_hsmi'],
+  },
+  { name: 'SendGrid', category: 'analytics', hosts: ['*.ct.sendgrid.net'], params: [] },
+  { name: 'Mandrill', category: 'analytics', hosts: ['mandrillapp.com'], params: [] },
+];
+
+// Affiliate sub-IDs that many networks share, so they don't point at one party
+const GENERIC_AFFILIATE_PARAMS =
+  /^(aff_?id|affiliate_?id|aff_sub\d*|sub_?id\d*|click_?id|transaction_id|partner_?id)$/i;
+const CAMPAIGN_PARAM_PATTERN = /^(utm_\w+|_ga|_gl)$/i;
+
+export interface AttributionParty {
+  name: string;
+  category: DomainCategory;
+  hosts: string[];
+  // Indexes into the path of hops served by this party or carrying its click ID
+  hops: number[];
+  // Parameters introduced or removed by redirects this party issued
+  paramsAdded: string[];
+  paramsStripped: string[];
+}
+
+export interface LostParameter {
+  param: string;
+  value: string;
+  // Index of the hop whose redirect dropped the parameter, and who served it
+  hop: number;
+  host: string;
+  party?: string;
+}
+
+export interface AttributionAnalysis {
+  parties: AttributionParty[];
+  lostParams: LostParameter[];
+}
+
+function findNetworkByHost(hostname: string): KnownNetwork | undefined {
+  return KNOWN_NETWORKS.find(network =>
+    network.hosts.some(pattern => matchesDomainPattern(hostname, pattern))
+  );
+}
+
+function findNetworkByParam(param: string): KnownNetwork | undefined {
+  const key = param.toLowerCase();
+  return KNOWN_NETWORKS.find(network => network.params.includes(key));
+}
+
+// Parameters that carry attribution: network click IDs, affiliate sub-IDs and campaign tags
+export function isAttributionParam(param: string): boolean {
+  return (
+    !!findNetworkByParam(param) ||
+    GENERIC_AFFILIATE_PARAMS.test(param) ||
+    CAMPAIGN_PARAM_PATTERN.test(param)
+  );
+}
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
+
+export function analyzeAttribution(
+  path: RedirectItem[],
+  registry: DomainRule[] = DEFAULT_DOMAIN_REGISTRY
+): AttributionAnalysis {
+  const parties = new Map<string, AttributionParty>();
+  const lostParams: LostParameter[] = [];
+  const urls = path.map(item => parseUrl(item.url));
+
+  const getParty = (name: string, category: DomainCategory): AttributionParty => {
+    let party = parties.get(name);
+    if (!party) {
+      party = { name, category, hosts: [], hops: [], paramsAdded: [], paramsStripped: [] };
+      parties.set(name, party);
+    }
+    return party;
+  };
+
+  const addUnique = (list: (string | number)[], value: string | number) => {
+    if (!list.includes(value)) list.push(value);
+  };
+
+  // The party that served each hop, if the host is a known network or a categorized domain
+  const hopParties = path.map((item, index) => {
+    const url = urls[index];
+    if (!url) return null;
+
+    const network = findNetworkByHost(url.hostname);
+    const category = item.category ?? getDomainCategory(item.url, registry);
+    if (!network && (!category || category === 'internal')) return null;
+
+    const party = network
+      ? getParty(network.name, network.category)
+      : getParty(url.hostname, category!);
+    addUnique(party.hosts, url.hostname);
+    addUnique(party.hops, index);
+    return party;
+  });
+
+  path.forEach((_, index) => {
+    const url = urls[index];
+    if (!url) return;
+
+    for (const key of url.searchParams.keys()) {
+      const network = findNetworkByParam(key);
+      if (network) addUnique(getParty(network.name, network.category).hops, index);
+    }
+
+    // Only compare hops that one redirect leads into the next; a navigation starts a new chain
+    const previous = urls[index - 1];
+    if (!previous || path[index - 1].type === 'navigation') return;
+
+    const issuer = hopParties[index - 1];
+    const previousKeys = [...new Set(previous.searchParams.keys())];
+    const currentKeys = [...new Set(url.searchParams.keys())];
+
+    for (const key of currentKeys) {
+      if (previous.searchParams.has(key)) continue;
+      if (issuer) {
+        addUnique(issuer.paramsAdded, key);
+      } else if (GENERIC_AFFILIATE_PARAMS.test(key)) {
+        // An uncategorized host that adds affiliate sub-IDs is acting as an affiliate
+        const party = getParty(previous.hostname, 'affiliate');
+        addUnique(party.hosts, previous.hostname);
+        addUnique(party.hops, index - 1);
+        addUnique(party.paramsAdded, key);
+      }
+    }
+
+    for (const key of previousKeys) {
+      if (url.searchParams.has(key)) continue;
+      if (issuer) addUnique(issuer.paramsStripped, key);
+      if (isAttributionParam(key)) {
+        lostParams.push({
+          param: key,
+          value: previous.searchParams.get(key) ?? '',
+          hop: index - 1,
+          host: previous.hostname,
+          party: issuer?.name,
+        });
+      }
+    }
+  });
+
+  return {
+    parties: [...parties.values()]
+      .map(party => ({ ...party, hops: [...party.hops].sort((a, b) => a - b) }))
+      .sort((a, b) => a.hops[0] - b.hops[0]),
+    lostParams,
+  };
+}
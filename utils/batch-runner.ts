@@ -0,0 +1,239 @@
+// Queued bulk URL checker; jobs live in storage.local so they resume after a service worker restart
+
+import { BatchJob, BatchJobItem, BatchJobOptions, generateId } from '../types/redirect';
+import { MappingRow } from './redirect-mapping';
+import { saveHistoryEntry } from './storage';
+import { TraceResult } from './url-tracer';
+
+const BATCH_JOBS_STORAGE_KEY = 'redirectwise_batch_jobs';
+const MAX_BATCH_URLS = 5000;
+
+// Periodic wake-up so a running job picks up again if the service worker was stopped mid-batch
+export const BATCH_RUNNER_ALARM = 'redirectwise-batch-runner';
+
+export const DEFAULT_BATCH_OPTIONS: BatchJobOptions = {
+  concurrency: 3,
+  perHostDelayMs: 1000,
+  timeoutMs: 15000,
+};
+
+export type BatchTraceFn = (url: string, timeoutMs: number) => Promise<TraceResult>;
+
+// The background keeps the authoritative copy in memory while it runs jobs
+let jobsCache: BatchJob[] | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+let runnerPromise: Promise<void> | null = null;
+
+// Get all batch jobs, newest first
+export async function getBatchJobs(): Promise<BatchJob[]> {
+  try {
+    const result = await chrome.storage.local.get(BATCH_JOBS_STORAGE_KEY);
+    return result[BATCH_JOBS_STORAGE_KEY] || [];
+  } catch (error) {
+    console.error('[RedirectWise] Error getting batch jobs:', error);
+    return [];
+  }
+}
+
+// Subscribe to job progress from any extension page
+export function onBatchJobsChanged(callback: (jobs: BatchJob[]) => void): () => void {
+  const listener = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    if (areaName !== 'local' || !changes[BATCH_JOBS_STORAGE_KEY]) return;
+    callback(changes[BATCH_JOBS_STORAGE_KEY].newValue || []);
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
+
+async function loadJobs(): Promise<BatchJob[]> {
+  if (!jobsCache) {
+    jobsCache = await getBatchJobs();
+    // Nothing is in flight right after a restart, so interrupted items go back in the queue
+    for (const job of jobsCache) {
+      for (const item of job.items) {
+        if (item.status === 'running') item.status = 'pending';
+      }
+    }
+  }
+  return jobsCache;
+}
+
+// Writes are chained so progress from parallel workers is stored in order
+function persistJobs(): Promise<void> {
+  writeQueue = writeQueue
+    .then(() => chrome.storage.local.set({ [BATCH_JOBS_STORAGE_KEY]: jobsCache ?? [] }))
+    .catch(error => console.error('[RedirectWise] Error saving batch jobs:', error));
+  return writeQueue;
+}
+
+function touch(job: BatchJob): void {
+  job.updatedAt = Date.now();
+}
+
+export async function createBatchJob(
+  name: string,
+  rows: MappingRow[],
+  options: Partial<BatchJobOptions> = {}
+): Promise<BatchJob> {
+  const jobs = await loadJobs();
+  const now = Date.now();
+  const job: BatchJob = {
+    id: generateId(),
+    name: name.trim() || `Batch ${new Date(now).toISOString().substring(0, 16).replace('T', ' ')}`,
+    status: 'running',
+    options: { ...DEFAULT_BATCH_OPTIONS, ...options },
+    items: rows
+      .slice(0, MAX_BATCH_URLS)
+      .map(row => ({ url: row.url, expected: row.expected, status: 'pending' })),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  jobs.unshift(job);
+  await persistJobs();
+  console.log('[RedirectWise] Created batch job:', job.id, job.items.length);
+  return job;
+}
+
+export async function setBatchJobStatus(
+  id: string,
+  status: 'running' | 'paused' | 'cancelled'
+): Promise<boolean> {
+  const jobs = await loadJobs();
+  const job = jobs.find(existing => existing.id === id);
+  if (!job || job.status === 'completed' || job.status === 'cancelled') return false;
+
+  job.status = status;
+  touch(job);
+  await persistJobs();
+  return true;
+}
+
+export async function deleteBatchJob(id: string): Promise<boolean> {
+  const jobs = await loadJobs();
+  const job = jobs.find(existing => existing.id === id);
+  if (!job) return false;
+
+  // Stop workers that still hold a reference to the removed job
+  job.status = 'cancelled';
+  jobsCache = jobs.filter(existing => existing.id !== id);
+  await persistJobs();
+  return true;
+}
+
+function getHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+// Next pending item whose host is outside its rate-limit window, or how long to wait for one
+function pickNextItem(
+  job: BatchJob,
+  hostLastStart: Map<string, number>
+): { item?: BatchJobItem; waitMs: number } | null {
+  const now = Date.now();
+  let waitMs = Infinity;
+
+  for (const item of job.items) {
+    if (item.status !== 'pending') continue;
+
+    const lastStart = hostLastStart.get(getHost(item.url));
+    const readyIn = lastStart == null ? 0 : lastStart + job.options.perHostDelayMs - now;
+    if (readyIn <= 0) return { item, waitMs: 0 };
+    waitMs = Math.min(waitMs, readyIn);
+  }
+
+  return waitMs === Infinity ? null : { waitMs };
+}
+
+async function processItem(job: BatchJob, item: BatchJobItem, trace: BatchTraceFn): Promise<void> {
+  try {
+    const result = await trace(item.url, job.options.timeoutMs);
+    const entry = await saveHistoryEntry(result.path, {
+      tags: [job.name],
+      batchId: job.id,
+      expected: item.expected,
+    });
+
+    if (entry) {
+      item.status = 'done';
+      item.historyId = entry.id;
+      item.finalUrl = entry.finalUrl;
+      item.statusCode = entry.path[0]?.status_code;
+      item.grade = entry.chainScore.grade;
+      item.redirectCount = entry.redirectCount;
+      item.hops = entry.path.map(hop => ({ url: hop.url, status_code: hop.status_code }));
+    } else {
+      item.status = 'failed';
+    }
+    item.error = result.error;
+  } catch (error) {
+    item.status = 'failed';
+    item.error = error instanceof Error ? error.message : String(error);
+  }
+}
+
+async function runJob(job: BatchJob, trace: BatchTraceFn): Promise<void> {
+  const hostLastStart = new Map<string, number>();
+
+  const worker = async () => {
+    while (job.status === 'running') {
+      const next = pickNextItem(job, hostLastStart);
+      if (!next) return;
+
+      if (!next.item) {
+        await new Promise(resolve => setTimeout(resolve, next.waitMs));
+        continue;
+      }
+
+      const item = next.item;
+      item.status = 'running';
+      hostLastStart.set(getHost(item.url), Date.now());
+      touch(job);
+      void persistJobs();
+
+      await processItem(job, item, trace);
+      touch(job);
+      await persistJobs();
+    }
+  };
+
+  const pendingCount = job.items.filter(item => item.status === 'pending').length;
+  const workerCount = Math.max(1, Math.min(job.options.concurrency, pendingCount));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  if (job.status === 'running' && job.items.every(item => item.status !== 'pending')) {
+    job.status = 'completed';
+    touch(job);
+    await persistJobs();
+    console.log('[RedirectWise] Completed batch job:', job.id);
+  }
+}
+
+// Work through running jobs one at a time; calling again while busy joins the current run
+export function runBatchJobs(trace: BatchTraceFn): Promise<void> {
+  if (runnerPromise) return runnerPromise;
+
+  runnerPromise = (async () => {
+    try {
+      await chrome.alarms.create(BATCH_RUNNER_ALARM, { periodInMinutes: 1 });
+
+      let job = (await loadJobs()).find(existing => existing.status === 'running');
+      while (job) {
+        await runJob(job, trace);
+        job = (jobsCache ?? []).find(existing => existing.status === 'running');
+      }
+
+      await chrome.alarms.clear(BATCH_RUNNER_ALARM);
+    } catch (error) {
+      console.error('[RedirectWise] Batch runner failed:', error);
+    } finally {
+      runnerPromise = null;
+    }
+  })();
+
+  return runnerPromise;
+}
@@ -0,0 +1,93 @@
+// Per-site capture rules deciding whether the background records a chain and saves it to history
+
+import { matchesDomainPattern } from '../types/redirect';
+
+// ignore: not recorded at all; capture: shown live but not saved; save: recorded and saved
+export type CaptureAction = 'ignore' | 'capture' | 'save';
+
+// Same pattern syntax as the domain registry: "example.com" also covers its subdomains
+export interface CaptureRule {
+  pattern: string;
+  action: CaptureAction;
+}
+
+// Most restrictive first
+export const CAPTURE_ACTIONS: CaptureAction[] = ['ignore', 'capture', 'save'];
+
+// 172.16.0.0/12, spelled out since patterns only have the * wildcard
+const PRIVATE_172_PATTERNS = Array.from({ length: 16 }, (_, i) => `172.${16 + i}.*`);
+
+// Online banking hosts; "*bank*" errs on the side of keeping finance sites out of history
+const BANKING_PATTERNS = [
+  'bank',
+  '*bank*',
+  'paypal.com',
+  'chase.com',
+  'wellsfargo.com',
+  'citi.com',
+  'capitalone.com',
+  'americanexpress.com',
+  'hsbc.com',
+  'barclays.co.uk',
+  'natwest.com',
+  'revolut.com',
+  'wise.com',
+];
+
+// Local development, intranet and banking hosts are inspected live but kept out of history
+export const DEFAULT_CAPTURE_RULES: CaptureRule[] = [
+  'localhost',
+  '127.0.0.1',
+  '[::1]',
+  '10.*',
+  ...PRIVATE_172_PATTERNS,
+  '192.168.*',
+  'local',
+  'internal',
+  'intranet',
+  'corp',
+  'lan',
+  'home.arpa',
+  ...BANKING_PATTERNS,
+].map(pattern => ({ pattern, action: 'capture' as const }));
+
+function mostRestrictive(actions: CaptureAction[], fallback: CaptureAction): CaptureAction {
+  return actions.reduce(
+    (result, action) =>
+      CAPTURE_ACTIONS.indexOf(action) < CAPTURE_ACTIONS.indexOf(result) ? action : result,
+    fallback
+  );
+}
+
+// When several rules match, the most restrictive wins so rule order doesn't matter
+export function getCaptureAction(
+  url: string,
+  rules: CaptureRule[],
+  defaultAction: CaptureAction
+): CaptureAction {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return defaultAction;
+  }
+  const matched = rules.filter(rule => matchesDomainPattern(hostname, rule.pattern));
+  return matched.length > 0
+    ? mostRestrictive(
+        matched.map(rule => rule.action),
+        'save'
+      )
+    : defaultAction;
+}
+
+// A chain is only as capturable as its most restricted hop, so a tracker can't carry a bank into history
+export function getChainCaptureAction(
+  urls: string[],
+  rules: CaptureRule[],
+  defaultAction: CaptureAction
+): CaptureAction {
+  return mostRestrictive(
+    urls.map(url => getCaptureAction(url, rules, defaultAction)),
+    'save'
+  );
+}
@@ -0,0 +1,212 @@
+// Hop-by-hop comparison of two runs of the same URL, e.g. before and after a deploy
+
+import {
+  ChainScore,
+  HeaderCategory,
+  HistoryEntry,
+  RedirectItem,
+  getHeaderCategory,
+} from '../types/redirect';
+
+export type HopChange = 'same' | 'changed' | 'added' | 'removed';
+
+export interface HeaderChange {
+  name: string;
+  category?: HeaderCategory;
+  before?: string;
+  after?: string;
+}
+
+export interface HopDiff {
+  change: HopChange;
+  before?: RedirectItem;
+  after?: RedirectItem;
+  statusChanged: boolean;
+  urlChanged: boolean;
+  redirectUrlChanged: boolean;
+  // After minus before, null unless both hops were timed
+  timingDelta: number | null;
+  headerChanges: HeaderChange[];
+}
+
+export interface ChainDiff {
+  hops: HopDiff[];
+  scoreDelta: number;
+  gradeBefore: ChainScore['grade'];
+  gradeAfter: ChainScore['grade'];
+  totalTimeDelta: number;
+  redirectCountDelta: number;
+}
+
+// Differ on every response, so they'd drown out the changes that matter
+const VOLATILE_HEADERS = [
+  'date',
+  'age',
+  'expires',
+  'set-cookie',
+  'cookie',
+  'authorization',
+  'cf-ray',
+  'x-request-id',
+  'x-amz-cf-id',
+  'x-amz-request-id',
+  'x-served-by',
+  'x-timer',
+  'server-timing',
+  'report-to',
+  'nel',
+];
+
+// Hops line up when they hit the same place; the query string is allowed to differ
+function getHopKey(item: RedirectItem): string {
+  try {
+    const url = new URL(item.url);
+    return `${url.host}${url.pathname}`;
+  } catch {
+    return item.url;
+  }
+}
+
+function getHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+}
+
+function collectHeaders(item: RedirectItem): Map<string, string> {
+  const headers = new Map<string, string>();
+  item.headers.forEach(({ name, value }) => {
+    const lower = name.toLowerCase();
+    if (VOLATILE_HEADERS.includes(lower)) return;
+    headers.set(lower, headers.has(lower) ? `${headers.get(lower)}, ${value}` : value);
+  });
+  return headers;
+}
+
+export function diffHeaders(before: RedirectItem, after: RedirectItem): HeaderChange[] {
+  const beforeHeaders = collectHeaders(before);
+  const afterHeaders = collectHeaders(after);
+  const names = [...new Set([...beforeHeaders.keys(), ...afterHeaders.keys()])].sort();
+
+  return names
+    .filter(name => beforeHeaders.get(name) !== afterHeaders.get(name))
+    .map(name => ({
+      name,
+      category: getHeaderCategory(name),
+      before: beforeHeaders.get(name),
+      after: afterHeaders.get(name),
+    }));
+}
+
+function diffHop(before?: RedirectItem, after?: RedirectItem): HopDiff {
+  if (!before || !after) {
+    return {
+      change: before ? 'removed' : 'added',
+      before,
+      after,
+      statusChanged: false,
+      urlChanged: false,
+      redirectUrlChanged: false,
+      timingDelta: null,
+      headerChanges: [],
+    };
+  }
+
+  const statusChanged = before.status_code !== after.status_code;
+  const urlChanged = before.url !== after.url;
+  const redirectUrlChanged = (before.redirect_url ?? '') !== (after.redirect_url ?? '');
+  const headerChanges = diffHeaders(before, after);
+  const timingDelta =
+    before.timing && after.timing ? after.timing.duration - before.timing.duration : null;
+
+  return {
+    change:
+      statusChanged ||
+      urlChanged ||
+      redirectUrlChanged ||
+      before.type !== after.type ||
+      headerChanges.length > 0
+        ? 'changed'
+        : 'same',
+    before,
+    after,
+    statusChanged,
+    urlChanged,
+    redirectUrlChanged,
+    timingDelta,
+    headerChanges,
+  };
+}
+
+// Longest common subsequence of hop keys, as pairs of indexes
+function alignHops(before: RedirectItem[], after: RedirectItem[]): [number, number][] {
+  const beforeKeys = before.map(getHopKey);
+  const afterKeys = after.map(getHopKey);
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        beforeKeys[i] === afterKeys[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (beforeKeys[i] === afterKeys[j]) {
+      pairs.push([i++, j++]);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+export function diffChains(before: HistoryEntry, after: HistoryEntry): ChainDiff {
+  const hops: HopDiff[] = [];
+  let i = 0;
+  let j = 0;
+
+  // Sentinel pair flushes the hops left over after the last match
+  for (const [matchBefore, matchAfter] of [
+    ...alignHops(before.path, after.path),
+    [before.path.length, after.path.length],
+  ]) {
+    const removed = before.path.slice(i, matchBefore);
+    const added = after.path.slice(j, matchAfter);
+    // Unmatched hops in the same gap on the same host are one hop whose URL changed
+    while (
+      removed.length > 0 &&
+      added.length > 0 &&
+      getHost(removed[0].url) === getHost(added[0].url)
+    ) {
+      hops.push(diffHop(removed.shift(), added.shift()));
+    }
+    removed.forEach(item => hops.push(diffHop(item, undefined)));
+    added.forEach(item => hops.push(diffHop(undefined, item)));
+
+    if (matchBefore < before.path.length) {
+      hops.push(diffHop(before.path[matchBefore], after.path[matchAfter]));
+    }
+    i = matchBefore + 1;
+    j = matchAfter + 1;
+  }
+
+  return {
+    hops,
+    scoreDelta: after.chainScore.score - before.chainScore.score,
+    gradeBefore: before.chainScore.grade,
+    gradeAfter: after.chainScore.grade,
+    totalTimeDelta: after.totalTime - before.totalTime,
+    redirectCountDelta: after.redirectCount - before.redirectCount,
+  };
+}
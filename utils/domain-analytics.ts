@@ -0,0 +1,102 @@
+// Per-domain rollups of history, to find which hosts produce the worst chains
+
+import { ChainIssueCode, HistoryEntry, getChainIssueCode } from '../types/redirect';
+
+export type DomainGroupBy = 'original' | 'final';
+
+export interface DomainIssueCount {
+  code: ChainIssueCode;
+  // Chains in the group that reported the issue
+  count: number;
+}
+
+export interface DomainStats {
+  hostname: string;
+  entryIds: string[];
+  chains: number;
+  avgScore: number;
+  worstScore: number;
+  worstEntryId: string;
+  avgHops: number;
+  // Share of chains with at least one 302/307, 0-1
+  temporaryRedirectRate: number;
+  topIssues: DomainIssueCount[];
+  slowestHop?: { url: string; duration: number; entryId: string };
+}
+
+const TOP_ISSUE_LIMIT = 3;
+
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname || null;
+  } catch {
+    return null;
+  }
+}
+
+function summarize(hostname: string, entries: HistoryEntry[]): DomainStats {
+  const issueCounts = new Map<ChainIssueCode, number>();
+  let totalScore = 0;
+  let totalHops = 0;
+  let temporaryChains = 0;
+  let worst = entries[0];
+  let slowestHop: DomainStats['slowestHop'];
+
+  for (const entry of entries) {
+    totalScore += entry.chainScore.score;
+    totalHops += entry.redirectCount;
+    if (entry.chainScore.score < worst.chainScore.score) worst = entry;
+    // Same definition as the temporary redirect scoring rule
+    if (entry.path.some(hop => hop.status_code === 302 || hop.status_code === 307)) {
+      temporaryChains++;
+    }
+
+    // Info notes like "fast chain" aren't problems, and each code counts once per chain
+    const codes = new Set(
+      entry.chainScore.issues
+        .filter(issue => issue.type !== 'info')
+        .map(getChainIssueCode)
+        .filter((code): code is ChainIssueCode => !!code)
+    );
+    codes.forEach(code => issueCounts.set(code, (issueCounts.get(code) ?? 0) + 1));
+
+    for (const hop of entry.path) {
+      const duration = hop.timing?.duration;
+      if (duration != null && duration > (slowestHop?.duration ?? -1)) {
+        slowestHop = { url: hop.url, duration, entryId: entry.id };
+      }
+    }
+  }
+
+  return {
+    hostname,
+    entryIds: entries.map(entry => entry.id),
+    chains: entries.length,
+    avgScore: Math.round(totalScore / entries.length),
+    worstScore: worst.chainScore.score,
+    worstEntryId: worst.id,
+    avgHops: totalHops / entries.length,
+    temporaryRedirectRate: temporaryChains / entries.length,
+    topIssues: [...issueCounts]
+      .map(([code, count]) => ({ code, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_ISSUE_LIMIT),
+    slowestHop,
+  };
+}
+
+// One row per hostname, worst average score first
+export function getDomainStats(entries: HistoryEntry[], groupBy: DomainGroupBy): DomainStats[] {
+  const groups = new Map<string, HistoryEntry[]>();
+  for (const entry of entries) {
+    const hostname = getHostname(groupBy === 'original' ? entry.originalUrl : entry.finalUrl);
+    if (!hostname) continue;
+    const group = groups.get(hostname);
+    if (group) group.push(entry);
+    else groups.set(hostname, [entry]);
+  }
+
+  return [...groups]
+    .map(([hostname, groupEntries]) => summarize(hostname, groupEntries))
+    .sort((a, b) => a.avgScore - b.avgScore || b.chains - a.chains);
+}
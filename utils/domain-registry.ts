@@ -0,0 +1,61 @@
+// Import/export of the tracking and shortener domain registry
+
+import { format } from 'date-fns';
+import { DOMAIN_CATEGORIES, DomainCategory, DomainRule } from '../types/redirect';
+
+function isDomainCategory(value: unknown): value is DomainCategory {
+  return DOMAIN_CATEGORIES.includes(value as DomainCategory);
+}
+
+// Lower-case, drop a scheme or path pasted along with the host
+export function normalizeDomainPattern(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[/?#].*$/, '');
+}
+
+// Accepts the exported JSON or plain "pattern,category" lines; unknown categories are skipped
+export function parseDomainRegistry(text: string): DomainRule[] {
+  const trimmed = text.trim();
+  let candidates: { pattern?: unknown; category?: unknown }[];
+
+  if (trimmed.startsWith('[')) {
+    try {
+      candidates = JSON.parse(trimmed);
+    } catch (error) {
+      console.error('[RedirectWise] Invalid domain registry JSON:', error);
+      return [];
+    }
+  } else {
+    candidates = trimmed.split(/\r?\n/).map(line => {
+      const [pattern, category] = line.split(/[,\t;]/).map(cell => cell.trim());
+      return { pattern, category };
+    });
+  }
+
+  const rules = new Map<string, DomainRule>();
+  for (const candidate of candidates) {
+    if (typeof candidate?.pattern !== 'string' || !isDomainCategory(candidate.category)) continue;
+    const pattern = normalizeDomainPattern(candidate.pattern);
+    if (pattern) rules.set(pattern, { pattern, category: candidate.category });
+  }
+  return [...rules.values()];
+}
+
+// Imported entries replace existing ones with the same pattern
+export function mergeDomainRegistry(current: DomainRule[], incoming: DomainRule[]): DomainRule[] {
+  const incomingPatterns = new Set(incoming.map(rule => rule.pattern));
+  return [...current.filter(rule => !incomingPatterns.has(rule.pattern)), ...incoming];
+}
+
+export function downloadDomainRegistry(rules: DomainRule[]): void {
+  const blob = new Blob([JSON.stringify(rules, null, 2)], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `redirectwise-domains-${format(new Date(), 'yyyy-MM-dd')}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
@@ -0,0 +1,199 @@
+// Categorized response header summaries, shared by HeadersList and the HTML report
+
+import { HeaderCategory, RedirectHeader } from '../types/redirect';
+import { Translate, uiTranslate } from './report-i18n';
+
+export interface HeaderSummaryItem {
+  label: string;
+  value: string;
+}
+
+export interface HeaderSummary {
+  category: HeaderCategory;
+  items: HeaderSummaryItem[];
+}
+
+// Never listed, so exported reports don't leak session cookies or credentials
+const SENSITIVE_HEADERS = ['set-cookie', 'cookie', 'authorization'];
+
+export function getVisibleHeaders(headers: RedirectHeader[]): RedirectHeader[] {
+  return headers.filter(h => !SENSITIVE_HEADERS.includes(h.name.toLowerCase()));
+}
+
+export function summarizeHeaders(
+  headers: RedirectHeader[],
+  ip?: string,
+  translate: Translate = uiTranslate
+): HeaderSummary[] {
+  // Helper to find header value (case-insensitive)
+  const getHeader = (name: string): string | undefined => {
+    const header = headers.find(h => h.name.toLowerCase() === name.toLowerCase());
+    return header?.value;
+  };
+
+  // Parse cache-control header
+  const parseCacheControl = (value: string | undefined): string => {
+    if (!value) return translate('notSpecified');
+    const parts = value.split(',').map(p => p.trim());
+    const maxAge = parts.find(p => p.startsWith('max-age='));
+    const sMaxAge = parts.find(p => p.startsWith('s-maxage='));
+    const isPrivate = parts.includes('private');
+    const isPublic = parts.includes('public');
+    const noCache = parts.includes('no-cache');
+    const noStore = parts.includes('no-store');
+
+    if (noStore) return '🚫 No Store';
+    if (noCache) return '⚠️ No Cache';
+
+    let result = isPrivate ? '🔒 Private' : isPublic ? '🌐 Public' : '';
+    if (maxAge) {
+      const seconds = parseInt(maxAge.split('=')[1]);
+      if (seconds === 0) result += ' (0s)';
+      else if (seconds < 60) result += ` (${seconds}s)`;
+      else if (seconds < 3600) result += ` (${Math.round(seconds / 60)}m)`;
+      else if (seconds < 86400) result += ` (${Math.round(seconds / 3600)}h)`;
+      else result += ` (${Math.round(seconds / 86400)}d)`;
+    }
+    return result || value;
+  };
+
+  // Build categories
+  const categories: HeaderSummary[] = [];
+
+  // Server Info
+  const serverItems: HeaderSummaryItem[] = [];
+  // Always show IP Address
+  serverItems.push({ label: translate('ipAddress'), value: ip || translate('notAvailable') });
+  const server = getHeader('server');
+  if (server) serverItems.push({ label: 'Server', value: server });
+  const poweredBy = getHeader('x-powered-by');
+  if (poweredBy) serverItems.push({ label: 'Powered By', value: poweredBy });
+  const via = getHeader('via');
+  if (via) serverItems.push({ label: 'Via', value: via });
+  const altSvc = getHeader('alt-svc');
+  if (altSvc) {
+    const protocols: string[] = [];
+    if (altSvc.includes('h3')) protocols.push('HTTP/3');
+    if (altSvc.includes('h2')) protocols.push('HTTP/2');
+    if (protocols.length > 0)
+      serverItems.push({ label: 'Alt Protocols', value: protocols.join(', ') });
+  }
+
+  if (serverItems.length > 0) {
+    categories.push({ category: 'server', items: serverItems });
+  }
+
+  // Caching
+  const cacheItems: HeaderSummaryItem[] = [];
+  const cacheControl = getHeader('cache-control');
+  if (cacheControl)
+    cacheItems.push({ label: 'Cache Control', value: parseCacheControl(cacheControl) });
+  const expires = getHeader('expires');
+  if (expires)
+    cacheItems.push({ label: 'Expires', value: expires === '-1' ? 'Immediately' : expires });
+  const age = getHeader('age');
+  if (age) cacheItems.push({ label: 'Age', value: `${age}s` });
+  const etag = getHeader('etag');
+  if (etag)
+    cacheItems.push({
+      label: 'ETag',
+      value: etag.length > 30 ? etag.substring(0, 30) + '...' : etag,
+    });
+  const lastModified = getHeader('last-modified');
+  if (lastModified) cacheItems.push({ label: 'Last Modified', value: lastModified });
+
+  if (cacheItems.length > 0) {
+    categories.push({ category: 'caching', items: cacheItems });
+  }
+
+  // Security
+  const securityItems: HeaderSummaryItem[] = [];
+  const hsts = getHeader('strict-transport-security');
+  if (hsts) {
+    const maxAgeMatch = hsts.match(/max-age=(\d+)/);
+    const maxAgeDays = maxAgeMatch ? Math.round(parseInt(maxAgeMatch[1]) / 86400) : 0;
+    const includesSub = hsts.includes('includeSubDomains');
+    securityItems.push({
+      label: 'HSTS',
+      value: `✅ ${maxAgeDays}d${includesSub ? ' +subdomains' : ''}`,
+    });
+  }
+  const csp =
+    getHeader('content-security-policy') || getHeader('content-security-policy-report-only');
+  if (csp) securityItems.push({ label: 'CSP', value: '✅ Enabled' });
+  const xfo = getHeader('x-frame-options');
+  if (xfo) securityItems.push({ label: 'X-Frame-Options', value: xfo });
+  const xss = getHeader('x-xss-protection');
+  if (xss)
+    securityItems.push({
+      label: 'XSS Protection',
+      value: xss === '0' ? '❌ Disabled' : '✅ Enabled',
+    });
+  const xcto = getHeader('x-content-type-options');
+  if (xcto) securityItems.push({ label: 'Content-Type Options', value: xcto });
+  const coop = getHeader('cross-origin-opener-policy');
+  if (coop) securityItems.push({ label: 'COOP', value: coop.split(';')[0] });
+  const corp = getHeader('cross-origin-resource-policy');
+  if (corp) securityItems.push({ label: 'CORP', value: corp });
+  const coep = getHeader('cross-origin-embedder-policy');
+  if (coep) securityItems.push({ label: 'COEP', value: coep });
+  const permissions = getHeader('permissions-policy');
+  if (permissions) securityItems.push({ label: 'Permissions', value: '✅ Set' });
+
+  if (securityItems.length > 0) {
+    categories.push({ category: 'security', items: securityItems });
+  }
+
+  // Content
+  const contentItems: HeaderSummaryItem[] = [];
+  const contentType = getHeader('content-type');
+  if (contentType) {
+    const parts = contentType.split(';');
+    const type = parts[0].trim();
+    const charset = parts
+      .find(p => p.includes('charset='))
+      ?.split('=')[1]
+      ?.trim();
+    contentItems.push({ label: 'Type', value: type });
+    if (charset) contentItems.push({ label: 'Charset', value: charset.toUpperCase() });
+  }
+  const encoding = getHeader('content-encoding');
+  if (encoding) {
+    const label = encoding === 'br' ? 'Brotli' : encoding === 'gzip' ? 'Gzip' : encoding;
+    contentItems.push({ label: 'Compression', value: `⚡ ${label}` });
+  }
+  const contentLength = getHeader('content-length');
+  if (contentLength) {
+    const bytes = parseInt(contentLength);
+    const size =
+      bytes < 1024
+        ? `${bytes}B`
+        : bytes < 1048576
+          ? `${(bytes / 1024).toFixed(1)}KB`
+          : `${(bytes / 1048576).toFixed(1)}MB`;
+    contentItems.push({ label: 'Size', value: size });
+  }
+  const transferEncoding = getHeader('transfer-encoding');
+  if (transferEncoding) contentItems.push({ label: 'Transfer', value: transferEncoding });
+
+  if (contentItems.length > 0) {
+    categories.push({ category: 'content', items: contentItems });
+  }
+
+  // Client Hints
+  const acceptCh = headers.filter(h => h.name.toLowerCase() === 'accept-ch');
+  if (acceptCh.length > 0) {
+    const hints = acceptCh
+      .map(h => h.value)
+      .join(', ')
+      .split(',')
+      .map(h => h.trim());
+    const uniqueHints = [...new Set(hints)];
+    categories.push({
+      category: 'clientHints',
+      items: [{ label: 'Requested', value: `${uniqueHints.length} hints` }],
+    });
+  }
+
+  return categories;
+}
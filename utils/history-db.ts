@@ -0,0 +1,402 @@
+// IndexedDB store for history entries, indexed for filtered and paginated listing
+
+import { ChainScore, HistoryEntry } from '../types/redirect';
+
+const DB_NAME = 'redirectwise';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'history';
+const LEGACY_HISTORY_STORAGE_KEY = 'redirectwise_history';
+const DEFAULT_PAGE_SIZE = 50;
+
+// Stored records carry lookup fields derived from the entry, stripped again on read
+interface HistoryRecord extends HistoryEntry {
+  originalHost: string;
+  finalHost: string;
+  grade: ChainScore['grade'];
+}
+
+export interface HistoryQuery {
+  grade?: ChainScore['grade'];
+  originalHost?: string;
+  // Exact original URL, looked up through its host's index
+  originalUrl?: string;
+  finalHost?: string;
+  tag?: string;
+  favorite?: boolean;
+  // Case-insensitive match on the original and final URL and the notes
+  search?: string;
+  limit?: number;
+  // Opaque position returned as nextCursor by the previous page
+  cursor?: string | null;
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  nextCursor: string | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const encoder = new TextEncoder();
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+// Visit records until the callback returns false or the cursor runs out
+function walkCursor(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  visit: (cursor: IDBCursorWithValue) => boolean | void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || visit(cursor) === false) {
+        resolve();
+        return;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function getHost(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+}
+
+function toRecord(entry: HistoryEntry): HistoryRecord {
+  return {
+    ...entry,
+    originalHost: getHost(entry.originalUrl),
+    finalHost: getHost(entry.finalUrl),
+    grade: entry.chainScore.grade,
+  };
+}
+
+function toEntry(record: HistoryRecord): HistoryEntry {
+  const { originalHost, finalHost, grade, ...entry } = record;
+  return entry;
+}
+
+// Serialized size of an entry, used to estimate how much space history takes
+export function estimateEntryBytes(entry: HistoryEntry): number {
+  return encoder.encode(JSON.stringify(entry)).length;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+      // Every index ends in timestamp and id so each filter lists newest first with a stable cursor
+      store.createIndex('timestamp', ['timestamp', 'id']);
+      store.createIndex('originalHost', ['originalHost', 'timestamp', 'id']);
+      store.createIndex('finalHost', ['finalHost', 'timestamp', 'id']);
+      store.createIndex('grade', ['grade', 'timestamp', 'id']);
+      store.createIndex('tags', 'tags', { multiEntry: true });
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version of the extension upgrade the schema
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Move history out of the single storage.local array it used to live in
+async function migrateLegacyHistory(db: IDBDatabase): Promise<void> {
+  const result = await chrome.storage.local.get(LEGACY_HISTORY_STORAGE_KEY);
+  const legacy: HistoryEntry[] | undefined = result[LEGACY_HISTORY_STORAGE_KEY];
+  if (!legacy) return;
+
+  if (legacy.length > 0) {
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    legacy.forEach(entry => store.put(toRecord(entry)));
+    await transactionDone(tx);
+  }
+  await chrome.storage.local.remove(LEGACY_HISTORY_STORAGE_KEY);
+  console.log('[RedirectWise] Migrated history entries to IndexedDB:', legacy.length);
+}
+
+function getHistoryDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = (async () => {
+      const db = await openDatabase();
+      await migrateLegacyHistory(db);
+      return db;
+    })();
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// All entries, newest first
+export async function getAllHistoryEntries(): Promise<HistoryEntry[]> {
+  const db = await getHistoryDb();
+  const tx = db.transaction(HISTORY_STORE, 'readonly');
+  const records: HistoryRecord[] = await requestToPromise(
+    tx.objectStore(HISTORY_STORE).index('timestamp').getAll()
+  );
+  return records.reverse().map(toEntry);
+}
+
+export async function getHistoryEntryById(id: string): Promise<HistoryEntry | null> {
+  const db = await getHistoryDb();
+  const tx = db.transaction(HISTORY_STORE, 'readonly');
+  const record: HistoryRecord | undefined = await requestToPromise(
+    tx.objectStore(HISTORY_STORE).get(id)
+  );
+  return record ? toEntry(record) : null;
+}
+
+// Drop the oldest unprotected entries beyond maxEntries
+async function trimToLimit(
+  store: IDBObjectStore,
+  maxEntries: number,
+  isProtected: (entry: HistoryEntry) => boolean
+): Promise<void> {
+  const count = await requestToPromise(store.count());
+  let excess = count - maxEntries;
+  if (excess > 0) {
+    await walkCursor(store.index('timestamp').openCursor(), cursor => {
+      if (isProtected(toEntry(cursor.value))) return;
+      cursor.delete();
+      return --excess > 0;
+    });
+  }
+}
+
+// Insert an entry and drop the oldest unprotected ones beyond maxEntries in the same transaction
+export async function addHistoryEntry(
+  entry: HistoryEntry,
+  maxEntries: number,
+  isProtected: (entry: HistoryEntry) => boolean = () => false
+): Promise<void> {
+  const db = await getHistoryDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const done = transactionDone(tx);
+  const store = tx.objectStore(HISTORY_STORE);
+
+  store.put(toRecord(entry));
+  await trimToLimit(store, maxEntries, isProtected);
+  await done;
+}
+
+// Add entries whose id isn't stored yet, then trim to maxEntries like a new capture;
+// returns how many were added
+export async function importHistoryRecords(
+  entries: HistoryEntry[],
+  maxEntries: number,
+  isProtected: (entry: HistoryEntry) => boolean = () => false
+): Promise<number> {
+  const db = await getHistoryDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const done = transactionDone(tx);
+  const store = tx.objectStore(HISTORY_STORE);
+
+  const existing = new Set(await requestToPromise(store.getAllKeys()));
+  let added = 0;
+  for (const entry of entries) {
+    if (existing.has(entry.id)) continue;
+    existing.add(entry.id);
+    store.put(toRecord(entry));
+    added++;
+  }
+  await trimToLimit(store, maxEntries, isProtected);
+  await done;
+  return added;
+}
+
+export async function updateHistoryRecord(
+  id: string,
+  updates: Partial<HistoryEntry>
+): Promise<boolean> {
+  const db = await getHistoryDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const done = transactionDone(tx);
+  const store = tx.objectStore(HISTORY_STORE);
+
+  const record: HistoryRecord | undefined = await requestToPromise(store.get(id));
+  if (record) store.put(toRecord({ ...toEntry(record), ...updates }));
+  await done;
+  return !!record;
+}
+
+// Visit every entry without loading the whole store into memory
+export async function forEachHistoryEntry(visit: (entry: HistoryEntry) => void): Promise<void> {
+  const db = await getHistoryDb();
+  const tx = db.transaction(HISTORY_STORE, 'readonly');
+  await walkCursor(tx.objectStore(HISTORY_STORE).openCursor(), cursor => {
+    visit(toEntry(cursor.value));
+  });
+}
+
+// Rewrite every entry in place; returns how many were visited
+export async function mapHistoryEntries(
+  transform: (entry: HistoryEntry) => HistoryEntry
+): Promise<number> {
+  const db = await getHistoryDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const done = transactionDone(tx);
+  let count = 0;
+
+  await walkCursor(tx.objectStore(HISTORY_STORE).openCursor(), cursor => {
+    cursor.update(toRecord(transform(toEntry(cursor.value))));
+    count++;
+  });
+  await done;
+  return count;
+}
+
+// Walk entries newest first and delete the ones the callback picks; returns how many were deleted
+export async function pruneHistory(
+  shouldDelete: (entry: HistoryEntry, bytes: number) => boolean
+): Promise<number> {
+  const db = await getHistoryDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const done = transactionDone(tx);
+  let deleted = 0;
+
+  await walkCursor(
+    tx.objectStore(HISTORY_STORE).index('timestamp').openCursor(null, 'prev'),
+    cursor => {
+      const entry = toEntry(cursor.value);
+      if (shouldDelete(entry, estimateEntryBytes(entry))) {
+        cursor.delete();
+        deleted++;
+      }
+    }
+  );
+  await done;
+  return deleted;
+}
+
+export async function measureHistory(): Promise<{ count: number; bytes: number }> {
+  const db = await getHistoryDb();
+  const tx = db.transaction(HISTORY_STORE, 'readonly');
+  let count = 0;
+  let bytes = 0;
+
+  await walkCursor(tx.objectStore(HISTORY_STORE).openCursor(), cursor => {
+    count++;
+    bytes += estimateEntryBytes(toEntry(cursor.value));
+  });
+  return { count, bytes };
+}
+
+export async function deleteHistoryRecord(id: string): Promise<void> {
+  const db = await getHistoryDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  tx.objectStore(HISTORY_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+export async function clearHistoryStore(): Promise<void> {
+  const db = await getHistoryDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  tx.objectStore(HISTORY_STORE).clear();
+  await transactionDone(tx);
+}
+
+function matchesQuery(record: HistoryRecord, query: HistoryQuery): boolean {
+  const search = query.search?.toLowerCase();
+  return (
+    (!query.grade || record.grade === query.grade) &&
+    (!query.originalHost || record.originalHost === query.originalHost) &&
+    (!query.originalUrl || record.originalUrl === query.originalUrl) &&
+    (!query.finalHost || record.finalHost === query.finalHost) &&
+    (!query.tag || !!record.tags?.includes(query.tag)) &&
+    (!query.favorite || !!record.isFavorite) &&
+    (!search ||
+      record.originalUrl.toLowerCase().includes(search) ||
+      record.finalUrl.toLowerCase().includes(search) ||
+      !!record.notes?.toLowerCase().includes(search))
+  );
+}
+
+// One page of entries, newest first; pass nextCursor back in to get the following page
+// Position just past an entry, so the next page starts with the entries older than it
+export function getHistoryCursor(entry: Pick<HistoryEntry, 'timestamp' | 'id'>): string {
+  return JSON.stringify([entry.timestamp, entry.id]);
+}
+
+export async function queryHistory(query: HistoryQuery = {}): Promise<HistoryPage> {
+  if (query.originalUrl && !query.originalHost) {
+    query = { ...query, originalHost: getHost(query.originalUrl) };
+  }
+  const db = await getHistoryDb();
+  const tx = db.transaction(HISTORY_STORE, 'readonly');
+  const store = tx.objectStore(HISTORY_STORE);
+  const limit = Math.max(1, query.limit ?? DEFAULT_PAGE_SIZE);
+  const after: [number, string] | null = query.cursor ? JSON.parse(query.cursor) : null;
+  const records: HistoryRecord[] = [];
+  let hasMore = false;
+
+  if (query.tag && !query.grade && !query.originalHost && !query.finalHost) {
+    // multiEntry indexes can't be compound, so tagged entries are ordered in memory
+    const tagged: HistoryRecord[] = await requestToPromise(
+      store.index('tags').getAll(IDBKeyRange.only(query.tag))
+    );
+    const matching = tagged.filter(record => matchesQuery(record, query));
+    matching.sort((a, b) => b.timestamp - a.timestamp || (b.id < a.id ? -1 : 1));
+    const start = after
+      ? matching.findIndex(
+          record =>
+            record.timestamp < after[0] || (record.timestamp === after[0] && record.id < after[1])
+        )
+      : 0;
+    if (start !== -1) {
+      records.push(...matching.slice(start, start + limit));
+      hasMore = matching.length > start + limit;
+    }
+  } else {
+    const [indexName, prefix] = query.grade
+      ? ['grade', [query.grade]]
+      : query.originalHost
+        ? ['originalHost', [query.originalHost]]
+        : query.finalHost
+          ? ['finalHost', [query.finalHost]]
+          : ['timestamp', []];
+    // An empty array sorts after every number and string, so it closes the range when there's no cursor
+    const range = IDBKeyRange.bound(prefix, [...prefix, ...(after ?? [[]])], false, !!after);
+
+    await walkCursor(store.index(indexName).openCursor(range, 'prev'), cursor => {
+      const record: HistoryRecord = cursor.value;
+      if (!matchesQuery(record, query)) return;
+      if (records.length === limit) {
+        hasMore = true;
+        return false;
+      }
+      records.push(record);
+    });
+  }
+
+  const last = records[records.length - 1];
+  return {
+    entries: records.map(toEntry),
+    nextCursor: hasMore && last ? getHistoryCursor(last) : null,
+  };
+}
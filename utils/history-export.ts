@@ -0,0 +1,316 @@
+// History export to JSON, CSV and HAR, and import of JSON exports
+
+import { format } from 'date-fns';
+import {
+  ChainIssue,
+  ChainScore,
+  HistoryEntry,
+  RedirectHeader,
+  RedirectItem,
+  calculateTotalDuration,
+} from '../types/redirect';
+
+export type HistoryExportFormat = 'json' | 'csv' | 'har';
+
+const EXPORT_FORMAT_ID = 'redirectwise-history';
+// Bump when the entry shape changes in a way importers need to know about
+export const HISTORY_EXPORT_VERSION = 1;
+
+export interface HistoryExportFile {
+  format: typeof EXPORT_FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  extensionVersion: string;
+  entries: HistoryEntry[];
+}
+
+function getExtensionVersion(): string {
+  try {
+    return chrome.runtime.getManifest().version;
+  } catch {
+    return '';
+  }
+}
+
+export function historyToJson(entries: HistoryEntry[]): string {
+  const file: HistoryExportFile = {
+    format: EXPORT_FORMAT_ID,
+    version: HISTORY_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    extensionVersion: getExtensionVersion(),
+    entries,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const CSV_COLUMNS = [
+  'entry_id',
+  'entry_time',
+  'original_url',
+  'final_url',
+  'grade',
+  'score',
+  'favorite',
+  'tags',
+  'notes',
+  'hop',
+  'url',
+  'status_code',
+  'status_line',
+  'type',
+  'redirect_type',
+  'redirect_url',
+  'ip',
+  'category',
+  'duration_ms',
+];
+
+function escapeCsv(value: unknown): string {
+  const text = value == null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per hop, repeating the entry columns so the file can be filtered in a spreadsheet
+export function historyToCsv(entries: HistoryEntry[]): string {
+  const rows = entries.flatMap(entry =>
+    entry.path.map((item, idx) => [
+      entry.id,
+      new Date(entry.timestamp).toISOString(),
+      entry.originalUrl,
+      entry.finalUrl,
+      entry.chainScore.grade,
+      entry.chainScore.score,
+      entry.isFavorite ? 'yes' : 'no',
+      entry.tags?.join(';'),
+      entry.notes,
+      idx + 1,
+      item.url,
+      item.status_code,
+      item.status_line,
+      item.type,
+      item.redirect_type,
+      item.redirect_url,
+      item.ip,
+      item.category,
+      item.timing?.duration,
+    ])
+  );
+  return [CSV_COLUMNS, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+}
+
+function getQueryString(url: string): { name: string; value: string }[] {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+function toHarEntry(item: RedirectItem, pageref: string) {
+  // Status lines look like "HTTP/1.1 301 Moved Permanently"; hops without one default to HTTP/1.1
+  const [version, , ...statusText] = item.status_line.split(' ');
+  const httpVersion = version?.startsWith('HTTP/') ? version : 'HTTP/1.1';
+  const duration = Math.max(0, item.timing?.duration ?? 0);
+  const location = item.headers.find(header => header.name.toLowerCase() === 'location')?.value;
+  const contentType = item.headers.find(header => header.name.toLowerCase() === 'content-type');
+
+  return {
+    pageref,
+    startedDateTime: new Date(item.timing?.startTime ?? item.timestamp).toISOString(),
+    time: duration,
+    request: {
+      method: 'GET',
+      url: item.url,
+      httpVersion,
+      cookies: [],
+      headers: [],
+      queryString: getQueryString(item.url),
+      headersSize: -1,
+      bodySize: -1,
+    },
+    response: {
+      status: item.status_code,
+      statusText: statusText.join(' '),
+      httpVersion,
+      cookies: [],
+      headers: item.headers.map(({ name, value }) => ({ name, value })),
+      content: { size: 0, mimeType: contentType?.value ?? '' },
+      // Client-side redirects have no Location header, so fall back to the detected target
+      redirectURL: location ?? item.redirect_url ?? '',
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    // Only the total is captured, so it's all reported as waiting time
+    timings: { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: duration, receive: 0 },
+    // 'Unknown' is the placeholder for a hop whose IP was never reported
+    serverIPAddress: item.ip && item.ip !== 'Unknown' ? item.ip : undefined,
+  };
+}
+
+interface HarPage {
+  id: string;
+  title: string;
+  path: RedirectItem[];
+  onLoad: number;
+}
+
+// HAR 1.2 log; DevTools, Charles and Fiddler group entries under their page
+function buildHar(pages: HarPage[]): string {
+  const har = {
+    log: {
+      version: '1.2',
+      creator: { name: 'RedirectWise', version: getExtensionVersion() },
+      pages: pages.map(page => ({
+        startedDateTime: new Date(
+          page.path[0]?.timing?.startTime ?? page.path[0]?.timestamp ?? Date.now()
+        ).toISOString(),
+        id: page.id,
+        title: page.title,
+        pageTimings: { onLoad: page.onLoad },
+      })),
+      entries: pages.flatMap(page => page.path.map(item => toHarEntry(item, page.id))),
+    },
+  };
+  return JSON.stringify(har, null, 2);
+}
+
+// One page per history entry and one entry per hop
+export function historyToHar(entries: HistoryEntry[]): string {
+  return buildHar(
+    entries.map(entry => ({
+      id: entry.id,
+      title: entry.originalUrl,
+      path: entry.path,
+      onLoad: entry.totalTime,
+    }))
+  );
+}
+
+export function chainToHar(path: RedirectItem[]): string {
+  return buildHar([
+    {
+      id: 'chain',
+      title: path[0]?.url ?? '',
+      path,
+      onLoad: calculateTotalDuration(path),
+    },
+  ]);
+}
+
+const FORMAT_DETAILS: Record<
+  HistoryExportFormat,
+  { serialize: (entries: HistoryEntry[]) => string; mimeType: string; extension: string }
+> = {
+  json: { serialize: historyToJson, mimeType: 'application/json', extension: 'json' },
+  csv: { serialize: historyToCsv, mimeType: 'text/csv', extension: 'csv' },
+  har: { serialize: historyToHar, mimeType: 'application/json', extension: 'har' },
+};
+
+export function downloadFile(content: string, mimeType: string, filename: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+export function downloadHistoryExport(
+  entries: HistoryEntry[],
+  exportFormat: HistoryExportFormat
+): void {
+  const { serialize, mimeType, extension } = FORMAT_DETAILS[exportFormat];
+  downloadFile(
+    serialize(entries),
+    mimeType,
+    `redirectwise-history-${format(new Date(), 'yyyy-MM-dd')}.${extension}`
+  );
+}
+
+// Named after the first hop's host so several chain exports stay apart
+export function downloadChainHar(path: RedirectItem[]): void {
+  let host = '';
+  try {
+    host = new URL(path[0]?.url ?? '').hostname;
+  } catch {
+    // Fall through to the generic name
+  }
+  downloadFile(
+    chainToHar(path),
+    'application/json',
+    `redirectwise-${host || 'chain'}-${format(new Date(), 'yyyy-MM-dd-HHmmss')}.har`
+  );
+}
+
+const GRADES: readonly string[] = ['A', 'B', 'C', 'D', 'F'];
+
+function isHeader(value: unknown): boolean {
+  const header = value as RedirectHeader;
+  return typeof header?.name === 'string' && typeof header.value === 'string';
+}
+
+// Every hop is rendered and re-scored, so each one needs the fields those read
+function isPathItem(value: unknown): boolean {
+  const item = value as RedirectItem;
+  return (
+    typeof item?.url === 'string' &&
+    typeof item.status_code === 'number' &&
+    Array.isArray(item.headers) &&
+    item.headers.every(isHeader)
+  );
+}
+
+function isIssue(value: unknown): boolean {
+  const issue = value as ChainIssue;
+  return typeof issue?.message === 'string' && typeof issue.type === 'string';
+}
+
+function isChainScore(value: unknown): boolean {
+  const score = value as ChainScore;
+  return (
+    typeof score?.score === 'number' &&
+    GRADES.includes(score.grade) &&
+    Array.isArray(score.issues) &&
+    score.issues.every(isIssue) &&
+    Array.isArray(score.recommendations)
+  );
+}
+
+function isHistoryEntry(value: unknown): value is HistoryEntry {
+  const entry = value as HistoryEntry;
+  return (
+    typeof entry?.id === 'string' &&
+    typeof entry.originalUrl === 'string' &&
+    typeof entry.finalUrl === 'string' &&
+    typeof entry.timestamp === 'number' &&
+    Array.isArray(entry.path) &&
+    entry.path.length > 0 &&
+    entry.path.every(isPathItem) &&
+    isChainScore(entry.chainScore)
+  );
+}
+
+// Accepts a JSON export (or a bare entry array); malformed entries are skipped
+export function parseHistoryImport(text: string): HistoryEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    console.error('[RedirectWise] Invalid history import JSON:', error);
+    return [];
+  }
+
+  const file = data as Partial<HistoryExportFile>;
+  if (!Array.isArray(data) && file?.format !== EXPORT_FORMAT_ID) {
+    console.error('[RedirectWise] Not a RedirectWise history export');
+    return [];
+  }
+  if ((file.version ?? HISTORY_EXPORT_VERSION) > HISTORY_EXPORT_VERSION) {
+    console.warn('[RedirectWise] History export is from a newer version:', file.version);
+  }
+
+  const candidates: unknown[] = Array.isArray(data) ? data : (file.entries ?? []);
+  return candidates.filter(isHistoryEntry);
+}
@@ -0,0 +1,142 @@
+// Time-bucketed history metrics for the dashboard charts and the PDF trends page
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { ChainScore, HistoryEntry } from '../types/redirect';
+
+export type TrendBucket = 'day' | 'week' | 'month';
+
+export interface TrendPoint {
+  start: number;
+  label: string;
+  chains: number;
+  // Null for buckets without chains, so lines break instead of dropping to zero
+  avgScore: number | null;
+  grades: Record<ChainScore['grade'], number>;
+  p50Time: number | null;
+  p95Time: number | null;
+}
+
+export interface StatusCodeCount {
+  code: number;
+  count: number;
+}
+
+export interface HistoryTrends {
+  bucket: TrendBucket;
+  points: TrendPoint[];
+  // Every hop's status code, most common first
+  statusCodes: StatusCodeCount[];
+}
+
+export const TREND_GRADES: ChainScore['grade'][] = ['A', 'B', 'C', 'D', 'F'];
+
+// Past these spans, days and then weeks make too many bars to read
+const MAX_DAY_BUCKETS = 90;
+const MAX_WEEK_BUCKETS = 104;
+const MAX_STATUS_CODES = 10;
+
+const BUCKETS: Record<
+  TrendBucket,
+  {
+    startOf: (date: number) => Date;
+    next: (date: Date) => Date;
+    label: Intl.DateTimeFormatOptions;
+  }
+> = {
+  day: {
+    startOf: startOfDay,
+    next: date => addDays(date, 1),
+    label: { month: 'short', day: 'numeric' },
+  },
+  week: {
+    startOf: date => startOfWeek(date, { weekStartsOn: 1 }),
+    next: date => addWeeks(date, 1),
+    label: { month: 'short', day: 'numeric' },
+  },
+  month: {
+    startOf: startOfMonth,
+    next: date => addMonths(date, 1),
+    label: { month: 'short', year: 'numeric' },
+  },
+};
+
+// Nearest-rank percentile of an ascending list
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+function pickBucket(entries: HistoryEntry[]): TrendBucket {
+  let first = Infinity;
+  let last = -Infinity;
+  for (const entry of entries) {
+    first = Math.min(first, entry.timestamp);
+    last = Math.max(last, entry.timestamp);
+  }
+  const days = differenceInCalendarDays(last, first) + 1;
+  if (days <= MAX_DAY_BUCKETS) return 'day';
+  return days / 7 <= MAX_WEEK_BUCKETS ? 'week' : 'month';
+}
+
+// Labels follow languageTag, or the browser's language when it's omitted
+export function getHistoryTrends(entries: HistoryEntry[], languageTag?: string): HistoryTrends {
+  if (entries.length === 0) return { bucket: 'day', points: [], statusCodes: [] };
+
+  const bucket = pickBucket(entries);
+  const { startOf, next, label } = BUCKETS[bucket];
+  const labelFormat = new Intl.DateTimeFormat(languageTag, label);
+
+  const groups = new Map<number, HistoryEntry[]>();
+  const statusCounts = new Map<number, number>();
+  for (const entry of entries) {
+    const key = startOf(entry.timestamp).getTime();
+    const group = groups.get(key);
+    if (group) group.push(entry);
+    else groups.set(key, [entry]);
+
+    entry.path.forEach(hop =>
+      statusCounts.set(hop.status_code, (statusCounts.get(hop.status_code) ?? 0) + 1)
+    );
+  }
+
+  // Walk every bucket between the first and last chain so gaps show up as empty
+  const points: TrendPoint[] = [];
+  const last = Math.max(...groups.keys());
+  for (let date = new Date(Math.min(...groups.keys())); date.getTime() <= last; date = next(date)) {
+    const group = groups.get(date.getTime()) ?? [];
+    const grades: TrendPoint['grades'] = { A: 0, B: 0, C: 0, D: 0, F: 0 };
+    group.forEach(entry => grades[entry.chainScore.grade]++);
+    const times = group.map(entry => entry.totalTime).sort((a, b) => a - b);
+
+    points.push({
+      start: date.getTime(),
+      label: labelFormat.format(date),
+      chains: group.length,
+      avgScore:
+        group.length > 0
+          ? Math.round(group.reduce((sum, entry) => sum + entry.chainScore.score, 0) / group.length)
+          : null,
+      grades,
+      p50Time: percentile(times, 50),
+      p95Time: percentile(times, 95),
+    });
+  }
+
+  return {
+    bucket,
+    points,
+    statusCodes: [...statusCounts]
+      .map(([code, count]) => ({ code, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_STATUS_CODES),
+  };
+}
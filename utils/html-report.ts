@@ -0,0 +1,511 @@
+// Self-contained HTML report: one offline file with inlined CSS and JS that
+// mirrors the redirect path view, for sharing with people without the extension
+
+import { format } from 'date-fns';
+import { CATEGORY_MESSAGE_KEYS } from '../components/CategoryChip';
+import {
+  ChainScore,
+  HistoryEntry,
+  RedirectItem,
+  calculateGapDuration,
+  calculateTotalDuration,
+  formatDuration,
+} from '../types/redirect';
+import { getVisibleHeaders, summarizeHeaders } from './header-summary';
+import { downloadFile } from './history-export';
+import { DEFAULT_REPORT_BRANDING, ReportBranding, normalizeHexColor } from './report-branding';
+import {
+  Translate,
+  getImpactLabel,
+  getIssueMessage,
+  getRecommendationMessage,
+  getReportTranslator,
+} from './report-i18n';
+import { getSettings } from './storage';
+
+export interface HtmlReportOptions {
+  // Report language; defaults to the report language setting
+  locale?: string;
+  // Defaults to the report branding setting
+  branding?: ReportBranding;
+}
+
+const HEADER_CATEGORY_KEYS = {
+  server: 'categoryServer',
+  caching: 'categoryCaching',
+  security: 'categorySecurity',
+  content: 'categoryContent',
+  clientHints: 'categoryClientHints',
+};
+
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur'];
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function getStatusClass(item: RedirectItem): string {
+  if (item.statusObject.isSuccess) return 'success';
+  if (item.statusObject.isRedirect) return 'redirect';
+  if (item.statusObject.isClientError || item.statusObject.isServerError) return 'error';
+  return 'other';
+}
+
+// Same labels as RedirectItemCard
+function getStatusLabel(item: RedirectItem, t: Translate): string {
+  if (item.type === 'server_redirect') {
+    return item.redirect_type === 'permanent'
+      ? t('permanentRedirect')
+      : item.redirect_type === 'hsts'
+        ? t('hstsRedirect')
+        : t('temporaryRedirect');
+  }
+  if (item.type === 'client_redirect') {
+    return item.redirect_type === 'meta' ? t('metaRefreshRedirect') : t('javascriptRedirect');
+  }
+  return item.status_line;
+}
+
+// Only http(s) links are clickable so a recorded javascript: URL can't run in the report
+function renderUrlLink(url: string): string {
+  return /^https?:\/\//i.test(url)
+    ? `<a href="${escapeHtml(url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(url)}</a>`
+    : escapeHtml(url);
+}
+
+function renderHeaders(item: RedirectItem, t: Translate): string {
+  const categories = summarizeHeaders(item.headers, item.ip, t)
+    .map(
+      ({ category, items }) => `
+        <div class="header-card header-${category}">
+          <div class="header-card-title">${escapeHtml(t(HEADER_CATEGORY_KEYS[category]))}</div>
+          ${items
+            .map(
+              ({ label, value }) =>
+                `<div class="header-item"><span>${escapeHtml(label)}:</span> <strong>${escapeHtml(value)}</strong></div>`
+            )
+            .join('')}
+        </div>`
+    )
+    .join('');
+
+  const visible = getVisibleHeaders(item.headers);
+  const rows = visible
+    .map(
+      header =>
+        `<tr><th>${escapeHtml(header.name)}</th><td>${escapeHtml(header.value || '-')}</td></tr>`
+    )
+    .join('');
+
+  return `
+    ${categories}
+    <details class="all-headers">
+      <summary>${escapeHtml(t('allHeaders'))} (${visible.length})</summary>
+      ${
+        visible.length > 0
+          ? `<table>${rows}</table>`
+          : `<p class="muted">${escapeHtml(t('noHeadersAvailable'))}</p>`
+      }
+    </details>`;
+}
+
+function renderHop(item: RedirectItem, index: number, t: Translate): string {
+  const badges = [
+    item.in_loop ? `<span class="badge badge-loop">${escapeHtml(t('redirectLoop'))}</span>` : '',
+    item.category
+      ? `<span class="badge badge-category">${escapeHtml(t(CATEGORY_MESSAGE_KEYS[item.category]))}</span>`
+      : '',
+  ].join('');
+  const timing = item.timing
+    ? `<span class="pill">${escapeHtml(formatDuration(item.timing.duration))}</span>`
+    : '';
+  const https = item.url.startsWith('https://') ? '<span class="https">HTTPS</span>' : '';
+  const ip =
+    item.ip && item.ip !== 'Unknown'
+      ? `<div class="muted small">IP: ${escapeHtml(item.ip)}</div>`
+      : '';
+
+  const notes: string[] = [];
+  if (item.redirect_type === 'hsts') {
+    notes.push(
+      `<div class="note note-hsts"><strong>${escapeHtml(t('hstsRedirect'))}:</strong> ${escapeHtml(
+        t('hstsRedirectDesc')
+      )}</div>`
+    );
+  }
+  if (item.type === 'client_redirect') {
+    notes.push(`<div class="note note-client">
+      ${item.redirect_url ? `<div>&rarr; ${escapeHtml(item.redirect_url)}</div>` : ''}
+      ${
+        item.redirect_delay != null
+          ? `<div><strong>${escapeHtml(t('clientRedirectDelay'))}:</strong> ${escapeHtml(
+              formatDuration(item.redirect_delay)
+            )}</div>`
+          : ''
+      }
+      ${
+        item.redirect_source
+          ? `<div><strong>${escapeHtml(t('clientRedirectSource'))}:</strong> <code>${escapeHtml(
+              item.redirect_source
+            )}</code></div>`
+          : ''
+      }
+    </div>`);
+  }
+
+  return `
+    <details class="hop hop-${getStatusClass(item)}${item.in_loop ? ' hop-loop' : ''}">
+      <summary>
+        <span class="hop-number">${index + 1}</span>
+        <span class="hop-main">
+          <span class="hop-title">
+            <strong>${escapeHtml(getStatusLabel(item, t))}</strong>${badges}
+            <span class="spacer"></span>
+            <span class="status status-${getStatusClass(item)}">${escapeHtml(item.status_code)}</span>${timing}${https}
+          </span>
+          <span class="hop-url">${escapeHtml(item.url)}</span>
+          ${ip}
+        </span>
+      </summary>
+      <div class="hop-body">
+        <div class="hop-link">${renderUrlLink(item.url)}</div>
+        ${notes.join('')}
+        <div class="section-label">${escapeHtml(t('responseHeaders'))}</div>
+        ${renderHeaders(item, t)}
+      </div>
+    </details>`;
+}
+
+function renderScoreCard(score: ChainScore, t: Translate, languageTag: string): string {
+  const issues = score.issues
+    .map(
+      issue => `
+        <li class="issue issue-${escapeHtml(issue.type)}">
+          <span class="issue-icon">${issue.type === 'error' ? '&#10005;' : issue.type === 'warning' ? '!' : '&#10003;'}</span>
+          <span>${escapeHtml(getIssueMessage(issue, t, languageTag))}
+            <span class="muted small">${escapeHtml(t('impactLabel'))}: ${escapeHtml(
+              getImpactLabel(issue.impact, t)
+            )}</span>
+          </span>
+        </li>`
+    )
+    .join('');
+  const recommendations = score.recommendations
+    .map(rec => `<li>${escapeHtml(getRecommendationMessage(rec, t))}</li>`)
+    .join('');
+
+  return `
+    <div class="score-card">
+      <div class="score-head">
+        <span class="grade grade-${escapeHtml(score.grade)}">${escapeHtml(score.grade)}</span>
+        <span class="score-value">${escapeHtml(score.score)}</span>
+        <span class="muted">${escapeHtml(t(`scoreGrade${score.grade}`))}</span>
+      </div>
+      ${issues ? `<ul class="issues">${issues}</ul>` : ''}
+      ${
+        recommendations
+          ? `<div class="section-label">${escapeHtml(t('recommendations'))}</div><ol class="recommendations">${recommendations}</ol>`
+          : ''
+      }
+    </div>`;
+}
+
+function renderEntry(
+  entry: HistoryEntry,
+  t: Translate,
+  languageTag: string,
+  dateFormat: Intl.DateTimeFormat,
+  open: boolean
+): string {
+  const totalTime = calculateTotalDuration(entry.path);
+  const steps = `${entry.path.length} ${t(entry.path.length === 1 ? 'stepSingle' : 'stepsLabel')}`;
+  const hops = entry.path
+    .map((item, i) => {
+      const gap = i > 0 ? calculateGapDuration(entry.path[i - 1], item) : null;
+      return `${
+        gap != null
+          ? `<div class="gap">${escapeHtml(t('reportGap', [formatDuration(gap)]))}</div>`
+          : ''
+      }${renderHop(item, i, t)}`;
+    })
+    .join('');
+  const tags = entry.tags ?? [];
+  const notes = entry.notes?.trim();
+  const search = [entry.originalUrl, entry.finalUrl, ...tags, notes ?? ''].join(' ').toLowerCase();
+
+  return `
+  <details class="entry"${open ? ' open' : ''} data-date="${escapeHtml(entry.timestamp)}" data-score="${escapeHtml(
+    entry.chainScore.score
+  )}" data-redirects="${escapeHtml(entry.redirectCount)}" data-search="${escapeHtml(search)}">
+    <summary class="entry-summary">
+      <span class="grade grade-${escapeHtml(entry.chainScore.grade)}">${escapeHtml(
+        entry.chainScore.grade
+      )}</span>
+      <span class="entry-urls">
+        <span class="entry-url">${escapeHtml(entry.originalUrl)}</span>
+        <span class="muted small">&rarr; ${escapeHtml(entry.finalUrl)}</span>
+      </span>
+      <span class="entry-meta muted small">
+        ${escapeHtml(dateFormat.format(entry.timestamp))}<br />
+        ${escapeHtml(entry.redirectCount)} ${escapeHtml(t('compareRedirects'))}
+      </span>
+    </summary>
+    <div class="entry-body">
+      ${renderScoreCard(entry.chainScore, t, languageTag)}
+      <div class="path-head">
+        <span class="section-label">${escapeHtml(`${t('redirectPath')} (${steps})`)}</span>
+        ${
+          totalTime > 0
+            ? `<span class="muted small">${escapeHtml(t('totalRequestTime'))}: ${escapeHtml(
+                formatDuration(totalTime)
+              )}</span>`
+            : ''
+        }
+      </div>
+      ${hops}
+      ${
+        tags.length > 0 || notes
+          ? `<div class="section-label">${escapeHtml(t('reportTagsNotes'))}</div>
+             ${tags.length > 0 ? `<div class="tags">${tags.map(tag => `<span class="badge">${escapeHtml(tag)}</span>`).join('')}</div>` : ''}
+             ${notes ? `<p class="notes" dir="auto">${escapeHtml(notes)}</p>` : ''}`
+          : ''
+      }
+    </div>
+  </details>`;
+}
+
+const REPORT_CSS = `
+*{box-sizing:border-box}
+body{margin:0;font:14px/1.45 system-ui,-apple-system,"Segoe UI",Roboto,"Noto Sans",sans-serif;color:#1e293b;background:#f8fafc}
+header.brand{display:flex;align-items:center;gap:12px;padding:16px 24px;background:var(--brand);color:var(--on-brand)}
+header.brand img{max-width:48px;max-height:48px}
+header.brand h1{margin:0;font-size:22px}
+header.brand .subtitle{font-size:13px;opacity:.85}
+main{max-width:960px;margin:0 auto;padding:16px}
+.toolbar{display:flex;flex-wrap:wrap;gap:8px;align-items:center;margin-bottom:12px}
+.toolbar input,.toolbar select,.toolbar button{font:inherit;font-size:13px;padding:6px 10px;border:1px solid #cbd5e1;border-radius:8px;background:#fff;color:inherit}
+.toolbar input{flex:1;min-width:200px}
+.toolbar button{cursor:pointer}
+.muted{color:#64748b}
+.small{font-size:12px}
+.spacer{flex:1}
+details>summary{cursor:pointer;list-style:none}
+details>summary::-webkit-details-marker{display:none}
+.entry{background:#fff;border:1px solid #e2e8f0;border-radius:12px;margin-bottom:10px}
+.entry-summary{display:flex;gap:12px;align-items:center;padding:12px 14px}
+.entry-urls{flex:1;min-width:0;display:flex;flex-direction:column}
+.entry-url{font-weight:600;word-break:break-all}
+.entry-meta{text-align:end;white-space:nowrap}
+.entry-body{padding:0 14px 14px}
+.grade{display:inline-flex;align-items:center;justify-content:center;width:32px;height:32px;border-radius:50%;color:#fff;font-weight:700;flex-shrink:0}
+.grade-A{background:#22c55e}.grade-B{background:#84cc16}.grade-C{background:#f59e0b}.grade-D{background:#f97316}.grade-F{background:#ef4444}
+.score-card{background:#f1f5f9;border-radius:10px;padding:10px 12px;margin-bottom:12px}
+.score-head{display:flex;align-items:center;gap:10px}
+.score-value{font-weight:600}
+.issues{list-style:none;margin:10px 0 0;padding:0}
+.issue{display:flex;gap:8px;margin:4px 0;font-size:13px}
+.issue .small{display:block}
+.issue-icon{width:18px;height:18px;border-radius:50%;color:#fff;font-size:11px;font-weight:700;display:inline-flex;align-items:center;justify-content:center;flex-shrink:0}
+.issue-error .issue-icon{background:#ef4444}.issue-warning .issue-icon{background:#f59e0b}.issue-info .issue-icon{background:#22c55e}
+.recommendations{margin:4px 0 0;padding-inline-start:20px;font-size:13px}
+.section-label{display:block;margin:12px 0 6px;font-size:12px;font-weight:600;text-transform:uppercase;letter-spacing:.03em;color:#64748b}
+.path-head{display:flex;justify-content:space-between;align-items:baseline;gap:8px}
+.hop{border:1px solid #e2e8f0;border-radius:10px;margin:6px 0;background:#f8fafc}
+.hop-success{background:#f0fdf4;border-color:#bbf7d0}.hop-redirect{background:#fffbeb;border-color:#fde68a}.hop-error{background:#fef2f2;border-color:#fecaca}
+.hop-loop{box-shadow:0 0 0 2px rgba(239,68,68,.6)}
+.hop>summary{display:flex;gap:10px;padding:10px 12px}
+.hop-number{width:28px;height:28px;border-radius:50%;color:#fff;background:#94a3b8;display:inline-flex;align-items:center;justify-content:center;font-size:13px;font-weight:600;flex-shrink:0}
+.hop-success .hop-number{background:#22c55e}.hop-redirect .hop-number{background:#f59e0b}.hop-error .hop-number{background:#ef4444}
+.hop-main{flex:1;min-width:0;display:flex;flex-direction:column;gap:2px}
+.hop-title{display:flex;flex-wrap:wrap;align-items:center;gap:6px;font-size:13px}
+.hop-url{font-size:12px;color:#475569;word-break:break-all;display:-webkit-box;-webkit-line-clamp:2;-webkit-box-orient:vertical;overflow:hidden}
+.hop[open] .hop-url{display:block}
+.hop-body{padding:0 12px 12px;border-top:1px solid rgba(148,163,184,.3)}
+.hop-link{margin:8px 0;font-size:12px;word-break:break-all}
+.hop-link a{color:var(--brand-link)}
+.status{font-size:12px;font-weight:600;padding:1px 6px;border-radius:4px;background:#e2e8f0}
+.status-success{background:#dcfce7;color:#15803d}.status-redirect{background:#fef3c7;color:#b45309}.status-error{background:#fee2e2;color:#b91c1c}
+.pill{font-size:12px;padding:1px 6px;border-radius:4px;background:#e2e8f0;color:#475569}
+.https{font-size:11px;color:#16a34a;font-weight:600}
+.badge{font-size:10px;font-weight:600;padding:1px 6px;border-radius:4px;background:#e2e8f0;color:#475569}
+.badge-loop{background:#fee2e2;color:#b91c1c;text-transform:uppercase}
+.badge-category{background:#e0f2fe;color:#0369a1}
+.gap{text-align:center;font-size:11px;color:#64748b}
+.gap::before,.gap::after{content:"";display:inline-block;width:40px;border-top:1px dashed #cbd5e1;vertical-align:middle;margin:0 8px}
+.note{margin:8px 0;padding:6px 8px;border-radius:6px;font-size:12px;word-break:break-all}
+.note-hsts{background:#faf5ff;border:1px solid #e9d5ff;color:#7e22ce}
+.note-client{background:#fff7ed;border:1px solid #fed7aa;color:#c2410c}
+.header-card{border:1px solid;border-radius:8px;padding:8px 10px;margin:6px 0;font-size:12px}
+.header-card-title{font-weight:600;margin-bottom:4px}
+.header-item span{opacity:.7}
+.header-item strong{font-weight:500;word-break:break-all}
+.header-server{background:#dbeafe;color:#1d4ed8;border-color:#bfdbfe}
+.header-caching{background:#fef3c7;color:#b45309;border-color:#fde68a}
+.header-security{background:#dcfce7;color:#15803d;border-color:#bbf7d0}
+.header-content{background:#f3e8ff;color:#7e22ce;border-color:#e9d5ff}
+.header-clientHints{background:#cffafe;color:#0e7490;border-color:#a5f3fc}
+.all-headers>summary{font-size:12px;font-weight:600;padding:6px 10px;border-radius:8px;background:#e2e8f0;color:#475569;margin-top:6px}
+.all-headers table{width:100%;border-collapse:collapse;margin-top:4px;font-size:12px;background:#fff}
+.all-headers th,.all-headers td{padding:4px 8px;border-bottom:1px solid #f1f5f9;text-align:start;vertical-align:top;word-break:break-all}
+.all-headers th{width:30%;font-weight:500;color:#475569;background:#f8fafc}
+.tags{display:flex;flex-wrap:wrap;gap:4px}
+.notes{white-space:pre-wrap;margin:6px 0 0}
+.empty{text-align:center;padding:24px}
+footer{max-width:960px;margin:0 auto;padding:8px 16px 24px;font-size:12px;color:#64748b}
+@media print{.toolbar{display:none}body{background:#fff}}
+`;
+
+// Search and sort for multi-entry reports, plus expand/collapse all
+const REPORT_SCRIPT = `
+(function () {
+  var list = document.getElementById('entries');
+  var search = document.getElementById('search');
+  var sort = document.getElementById('sort');
+  var order = document.getElementById('order');
+  var empty = document.getElementById('empty');
+  var desc = true;
+  function entries() { return Array.prototype.slice.call(list.querySelectorAll('details.entry')); }
+  function apply() {
+    var query = search ? search.value.trim().toLowerCase() : '';
+    var visible = 0;
+    entries().forEach(function (entry) {
+      var match = !query || entry.getAttribute('data-search').indexOf(query) !== -1;
+      entry.hidden = !match;
+      if (match) visible++;
+    });
+    if (empty) empty.hidden = visible > 0;
+  }
+  function reorder() {
+    var key = 'data-' + sort.value;
+    entries()
+      .sort(function (a, b) {
+        var diff = Number(a.getAttribute(key)) - Number(b.getAttribute(key));
+        return desc ? -diff : diff;
+      })
+      .forEach(function (entry) { list.appendChild(entry); });
+  }
+  if (search) search.addEventListener('input', apply);
+  if (sort) sort.addEventListener('change', reorder);
+  if (order) order.addEventListener('click', function () {
+    desc = !desc;
+    order.textContent = desc ? '\\u2193' : '\\u2191';
+    reorder();
+  });
+  function setOpen(open) {
+    document.querySelectorAll('details').forEach(function (el) {
+      if (!el.classList.contains('all-headers')) el.open = open;
+    });
+  }
+  document.getElementById('expand-all').addEventListener('click', function () { setOpen(true); });
+  document.getElementById('collapse-all').addEventListener('click', function () { setOpen(false); });
+})();
+`;
+
+// The extension icon inlined, since the report is opened outside the extension
+async function loadIconDataUrl(): Promise<string> {
+  try {
+    const response = await fetch(chrome.runtime.getURL('icons/icon-128.png'));
+    if (!response.ok) return '';
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    let binary = '';
+    bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+    return `data:image/png;base64,${btoa(binary)}`;
+  } catch {
+    return '';
+  }
+}
+
+export async function buildHtmlReport(
+  entries: HistoryEntry[],
+  options: HtmlReportOptions = {}
+): Promise<string> {
+  const settings = await getSettings();
+  const { translate: t, languageTag } = await getReportTranslator(
+    options.locale ?? settings.reportLanguage
+  );
+  const branding = { ...DEFAULT_REPORT_BRANDING, ...(options.branding ?? settings.reportBranding) };
+  const brandColor =
+    normalizeHexColor(branding.primaryColor) ?? DEFAULT_REPORT_BRANDING.primaryColor;
+  const logo = branding.logoDataUrl || (await loadIconDataUrl());
+  const companyName = branding.companyName.trim() || 'RedirectWise';
+  const isSingle = entries.length === 1;
+  const title = isSingle ? t('reportChainTitle') : t('reportHistoryTitle');
+  const dateFormat = new Intl.DateTimeFormat(languageTag, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+  const generatedOn = t('reportGeneratedOn', [
+    new Intl.DateTimeFormat(languageTag, { dateStyle: 'long' }).format(new Date()),
+  ]);
+  const dir = RTL_LANGUAGES.includes(languageTag.split('-')[0]) ? 'rtl' : 'ltr';
+
+  const toolbar = `
+    <div class="toolbar">
+      ${
+        isSingle
+          ? '<span class="spacer"></span>'
+          : `<input id="search" type="search" placeholder="${escapeHtml(t('searchUrls'))}" />
+      <select id="sort">
+        <option value="date">${escapeHtml(t('sortByDate'))}</option>
+        <option value="score">${escapeHtml(t('sortByScore'))}</option>
+        <option value="redirects">${escapeHtml(t('sortByRedirects'))}</option>
+      </select>
+      <button id="order" type="button">&darr;</button>`
+      }
+      <button id="expand-all" type="button">${escapeHtml(t('htmlExpandAll'))}</button>
+      <button id="collapse-all" type="button">${escapeHtml(t('htmlCollapseAll'))}</button>
+    </div>`;
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(languageTag)}" dir="${dir}">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<meta name="generator" content="RedirectWise" />
+<title>${escapeHtml(`${companyName} - ${title}`)}</title>
+<style>:root{--brand:${brandColor};--on-brand:#fff;--brand-link:#2563eb}${REPORT_CSS}</style>
+</head>
+<body>
+<header class="brand">
+  ${logo ? `<img src="${escapeHtml(logo)}" alt="" />` : ''}
+  <div>
+    <h1>${escapeHtml(companyName)}</h1>
+    <div class="subtitle">${escapeHtml(title)} &bull; ${
+      isSingle ? '' : `${entries.length} ${escapeHtml(t('entriesLabel'))} &bull; `
+    }${escapeHtml(generatedOn)}</div>
+  </div>
+</header>
+<main>
+  ${toolbar}
+  <div id="entries">
+    ${entries.map(entry => renderEntry(entry, t, languageTag, dateFormat, isSingle)).join('')}
+  </div>
+  <p id="empty" class="empty muted" hidden>${escapeHtml(t('noMatches'))}</p>
+</main>
+<footer>
+  <div>${escapeHtml(branding.footerText.trim() || t('reportGeneratedBy'))}</div>
+  ${branding.contactLine.trim() ? `<div>${escapeHtml(branding.contactLine.trim())}</div>` : ''}
+</footer>
+<script>${REPORT_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+export async function downloadHtmlReport(
+  entries: HistoryEntry[],
+  options: HtmlReportOptions = {}
+): Promise<void> {
+  if (entries.length === 0) return;
+  const html = await buildHtmlReport(entries, options);
+  const name =
+    entries.length === 1
+      ? `redirectwise-${entries[0].id.substring(0, 8)}-${format(entries[0].timestamp, 'yyyy-MM-dd')}`
+      : `redirectwise-history-${format(new Date(), 'yyyy-MM-dd')}`;
+  downloadFile(html, 'text/html', `${name}.html`);
+}
@@ -0,0 +1,68 @@
+// Query parameters as rows and hops as columns, showing what each redirect did to them
+
+import { RedirectItem, isTrackingParam } from '../types/redirect';
+
+export type ParamCellState = 'original' | 'added' | 'changed' | 'removed' | 'preserved' | 'absent';
+
+export interface ParamCell {
+  state: ParamCellState;
+  value?: string;
+}
+
+export interface ParamFlowRow {
+  param: string;
+  tracking: boolean;
+  cells: ParamCell[];
+}
+
+export interface ParamFlow {
+  // One column per hop; a trailing column holds a redirect target that was never loaded
+  columns: { url: string; captured: boolean }[];
+  rows: ParamFlowRow[];
+}
+
+function getParams(url: string): Map<string, string> {
+  try {
+    const params = new Map<string, string>();
+    new URL(url).searchParams.forEach((value, key) => {
+      params.set(key, params.has(key) ? `${params.get(key)},${value}` : value);
+    });
+    return params;
+  } catch {
+    return new Map();
+  }
+}
+
+export function buildParamFlow(path: RedirectItem[]): ParamFlow {
+  const columns = path.map(item => ({ url: item.url, captured: true }));
+  const last = path[path.length - 1];
+  if (last?.redirect_url && last.redirect_url !== last.url) {
+    columns.push({ url: last.redirect_url, captured: false });
+  }
+
+  const columnParams = columns.map(column => getParams(column.url));
+  const names: string[] = [];
+  columnParams.forEach(params => {
+    for (const key of params.keys()) {
+      if (!names.includes(key)) names.push(key);
+    }
+  });
+
+  const rows = names.map(param => ({
+    param,
+    tracking: isTrackingParam(param),
+    cells: columnParams.map((params, index): ParamCell => {
+      const value = params.get(param);
+      if (index === 0) return value == null ? { state: 'absent' } : { state: 'original', value };
+
+      const previous = columnParams[index - 1].get(param);
+      if (value == null) return previous == null ? { state: 'absent' } : { state: 'removed' };
+      if (previous == null) return { state: 'added', value };
+      return { state: previous === value ? 'preserved' : 'changed', value };
+    }),
+  }));
+
+  // Tracking parameters first, since those are the ones that usually go missing
+  rows.sort((a, b) => Number(b.tracking) - Number(a.tracking));
+  return { columns, rows };
+}
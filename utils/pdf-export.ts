@@ -1,19 +1,48 @@
 // PDF Export utility using pdf-lib (Pure TypeScript, no external deps)
 import { format } from 'date-fns';
-import { Color, PDFDocument, PDFFont, StandardFonts, rgb } from 'pdf-lib';
+import { Color, PDFDocument, PDFImage, PDFPage, rgb } from 'pdf-lib';
 import {
   ChainScore,
   HistoryEntry,
   RedirectItem,
   calculateGapDuration,
   formatDuration,
+  hasRedirectLoop,
 } from '../types/redirect';
-
-interface PDFExportOptions {
+import { TREND_GRADES, TrendPoint, getHistoryTrends } from './history-trends';
+import { PdfTextFont, drawText, embedPdfFonts, getTextDirection } from './pdf-fonts';
+import { MappingReportRow } from './redirect-mapping';
+import {
+  DEFAULT_REPORT_BRANDING,
+  ReportBranding,
+  ReportSections,
+  ReportTemplate,
+  decodeLogoDataUrl,
+  getReportSections,
+  hexToRgbChannels,
+  isLightColor,
+} from './report-branding';
+import {
+  ReportTranslator,
+  Translate,
+  getImpactLabel,
+  getIssueMessage,
+  getRecommendationMessage,
+  getReportTranslator,
+} from './report-i18n';
+import { getSettings } from './storage';
+import { getTraceErrorMessage } from './url-tracer';
+
+export interface PDFExportOptions {
   title?: string;
-  includeHeaders?: boolean;
-  includeScore?: boolean;
-  includeRecommendations?: boolean;
+  // Report language; defaults to the report language setting
+  locale?: string;
+  // Defaults to the report template setting
+  template?: ReportTemplate;
+  // Per-section overrides on top of the template
+  sections?: Partial<ReportSections>;
+  // Defaults to the report branding setting
+  branding?: ReportBranding;
 }
 
 const COLORS = {
@@ -21,17 +50,138 @@ const COLORS = {
   success: rgb(34 / 255, 197 / 255, 94 / 255), // #22C55E
   warning: rgb(245 / 255, 158 / 255, 11 / 255), // #F59E0B
   error: rgb(239 / 255, 68 / 255, 68 / 255), // #EF4444
+  errorLight: rgb(254 / 255, 226 / 255, 226 / 255), // #FEE2E2
   dark: rgb(30 / 255, 41 / 255, 59 / 255), // #1E293B
   light: rgb(241 / 255, 245 / 255, 249 / 255), // #F1F5F9
   white: rgb(1, 1, 1),
   textSecondary: rgb(100 / 255, 116 / 255, 139 / 255), // #64748B
 };
 
+export interface HistoryPdfOptions {
+  // Append a page of time-series charts for the exported entries
+  includeCharts?: boolean;
+  locale?: string;
+  // Defaults to the report branding setting
+  branding?: ReportBranding;
+}
+
+// Report branding resolved to what gets drawn
+interface PdfBrand {
+  primary: Color;
+  // Text on the primary color
+  onPrimary: Color;
+  companyName: string;
+  footerText: string;
+  contactLine: string;
+  logoDataUrl: string;
+}
+
 const PAGE_WIDTH = 595.28;
 const PAGE_HEIGHT = 841.89;
 const MARGIN = 40;
 const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
 
+// Report language and branding from the settings unless the caller picked them
+async function loadReportSettings(
+  locale?: string,
+  branding?: ReportBranding
+): Promise<{ translator: ReportTranslator; branding: ReportBranding }> {
+  const settings = await getSettings();
+  return {
+    translator: await getReportTranslator(locale ?? settings.reportLanguage),
+    branding: { ...DEFAULT_REPORT_BRANDING, ...(branding ?? settings.reportBranding) },
+  };
+}
+
+function getPdfBrand(branding: ReportBranding, t: Translate): PdfBrand {
+  const brandChannels = hexToRgbChannels(branding.primaryColor);
+  return {
+    primary: brandChannels ? rgb(...brandChannels) : COLORS.primary,
+    onPrimary: brandChannels && isLightColor(branding.primaryColor) ? COLORS.dark : COLORS.white,
+    companyName: branding.companyName.trim() || 'RedirectWise',
+    footerText: branding.footerText.trim() || t('reportGeneratedBy'),
+    contactLine: branding.contactLine.trim(),
+    logoDataUrl: branding.logoDataUrl,
+  };
+}
+
+// Header band of the multi-entry reports: logo, company name, then the report title and subtitle
+function drawListReportHeader(
+  page: PDFPage,
+  brand: PdfBrand,
+  logoImage: PDFImage | null,
+  title: string,
+  subtitle: string,
+  fontNormal: PdfTextFont,
+  fontBold: PdfTextFont
+) {
+  page.drawRectangle({
+    x: 0,
+    y: PAGE_HEIGHT - 55,
+    width: PAGE_WIDTH,
+    height: 55,
+    color: brand.primary,
+  });
+  if (logoImage) {
+    const { width, height } = logoImage.scaleToFit(35, 35);
+    page.drawImage(logoImage, {
+      x: 15 + (35 - width) / 2,
+      y: PAGE_HEIGHT - 45 + (35 - height) / 2,
+      width,
+      height,
+    });
+  }
+  drawText(page, wrapText(brand.companyName, PAGE_WIDTH - 75, fontBold, 20)[0], {
+    x: 60,
+    y: PAGE_HEIGHT - 30,
+    size: 20,
+    font: fontBold,
+    color: brand.onPrimary,
+  });
+  drawText(page, wrapText(`${title} • ${subtitle}`, PAGE_WIDTH - 75, fontNormal, 10)[0], {
+    x: 60,
+    y: PAGE_HEIGHT - 46,
+    size: 10,
+    font: fontNormal,
+    color: brand.onPrimary,
+  });
+}
+
+// Footer text, contact line and page numbers on every page
+function drawReportFooters(
+  pdfDoc: PDFDocument,
+  brand: PdfBrand,
+  fontNormal: PdfTextFont,
+  t: Translate
+) {
+  const pageCount = pdfDoc.getPageCount();
+  // A contact line goes under the footer text, so the band grows to two lines
+  const footerHeight = brand.contactLine ? 30 : 20;
+  const footerLines = [brand.footerText, brand.contactLine]
+    .filter(Boolean)
+    .map(line => wrapText(line, PAGE_WIDTH - 120, fontNormal, 8)[0]);
+  pdfDoc.getPages().forEach((p, i) => {
+    p.drawRectangle({ x: 0, y: 0, width: PAGE_WIDTH, height: footerHeight, color: COLORS.light });
+    footerLines.forEach((line, lIdx) => {
+      drawText(p, line, {
+        x: 15,
+        y: footerHeight - 13 - lIdx * 10,
+        size: 8,
+        font: fontNormal,
+        color: COLORS.textSecondary,
+      });
+    });
+    const pageText = t('reportPage', [String(i + 1), String(pageCount)]);
+    drawText(p, pageText, {
+      x: PAGE_WIDTH - 15 - fontNormal.widthOfTextAtSize(pageText, 8),
+      y: footerHeight - 13,
+      size: 8,
+      font: fontNormal,
+      color: COLORS.textSecondary,
+    });
+  });
+}
+
 async function loadLogo(): Promise<ArrayBuffer | null> {
   try {
     const logoUrl = chrome.runtime.getURL('icons/icon-128.png');
@@ -42,6 +192,22 @@ async function loadLogo(): Promise<ArrayBuffer | null> {
   }
 }
 
+// The uploaded brand logo, or the extension icon when there is none or it can't be read
+async function embedLogo(pdfDoc: PDFDocument, logoDataUrl: string): Promise<PDFImage | null> {
+  const custom = logoDataUrl ? decodeLogoDataUrl(logoDataUrl) : null;
+  if (custom) {
+    try {
+      return custom.type === 'png'
+        ? await pdfDoc.embedPng(custom.bytes)
+        : await pdfDoc.embedJpg(custom.bytes);
+    } catch (error) {
+      console.error('[RedirectWise] Failed to embed report logo:', error);
+    }
+  }
+  const logoBuffer = await loadLogo();
+  return logoBuffer ? pdfDoc.embedPng(logoBuffer) : null;
+}
+
 function getGradeColor(grade: ChainScore['grade']): Color {
   switch (grade) {
     case 'A':
@@ -66,23 +232,23 @@ function getStatusColor(statusCode: number): Color {
   return COLORS.dark;
 }
 
-function getStatusLabel(item: RedirectItem): string {
+function getStatusLabel(item: RedirectItem, t: Translate): string {
   if (item.type === 'server_redirect') {
-    if (item.redirect_type === 'permanent') return 'Permanent (301/308)';
-    if (item.redirect_type === 'hsts') return 'HSTS Redirect';
-    return 'Temporary (302/307)';
+    if (item.redirect_type === 'permanent') return t('reportTypePermanent');
+    if (item.redirect_type === 'hsts') return t('hstsRedirect');
+    return t('reportTypeTemporary');
   }
   if (item.type === 'client_redirect') {
-    return `Client (${item.redirect_type?.toUpperCase() || 'JS'})`;
+    return t('reportTypeClient', [item.redirect_type?.toUpperCase() || 'JS']);
   }
-  if (item.statusObject.isSuccess) return 'Final (Success)';
-  if (item.statusObject.isClientError) return 'Client Error';
-  if (item.statusObject.isServerError) return 'Server Error';
-  return 'Navigation';
+  if (item.statusObject.isSuccess) return t('reportTypeFinal');
+  if (item.statusObject.isClientError) return t('reportTypeClientError');
+  if (item.statusObject.isServerError) return t('reportTypeServerError');
+  return t('reportTypeNavigation');
 }
 
 // Helper to wrap text (handling both spaces and long strings like URLs/IPs)
-function wrapText(text: string, maxWidth: number, font: PDFFont, fontSize: number): string[] {
+function wrapText(text: string, maxWidth: number, font: PdfTextFont, fontSize: number): string[] {
   const paragraphs = text.split(/\r?\n/);
   const lines: string[] = [];
 
@@ -106,14 +272,15 @@ function wrapText(text: string, maxWidth: number, font: PDFFont, fontSize: numbe
           currentLine = '';
         }
 
-        let remaining = word;
+        // Code points, so surrogate pairs (CJK extensions, emoji) never split across lines
+        let remaining = Array.from(word);
         while (remaining.length > 0) {
           let fitIndex = 0;
-          let w = '';
+          let w = 0;
+          // Summing per-character widths keeps long header values linear with fallback fonts
           for (let k = 0; k < remaining.length; k++) {
-            const char = remaining[k];
-            const newW = w + char;
-            if (font.widthOfTextAtSize(newW, fontSize) > maxWidth) {
+            const newW = w + font.widthOfTextAtSize(remaining[k], fontSize);
+            if (newW > maxWidth) {
               break;
             }
             w = newW;
@@ -122,8 +289,8 @@ function wrapText(text: string, maxWidth: number, font: PDFFont, fontSize: numbe
 
           if (fitIndex === 0) fitIndex = 1;
 
-          lines.push(remaining.substring(0, fitIndex));
-          remaining = remaining.substring(fitIndex);
+          lines.push(remaining.slice(0, fitIndex).join(''));
+          remaining = remaining.slice(fitIndex);
         }
       } else {
         const testLine = currentLine ? `${currentLine} ${word}` : word;
@@ -148,15 +315,39 @@ export async function exportToPDF(
   entry: HistoryEntry,
   options: PDFExportOptions = {}
 ): Promise<void> {
-  const {
-    title = 'Redirect Chain Analysis',
-    includeScore = true,
-    includeRecommendations = true,
-  } = options;
+  const settings = await getSettings();
+  const { translate: t, languageTag } = await getReportTranslator(
+    options.locale ?? settings.reportLanguage
+  );
+  const sections = getReportSections(options.template ?? settings.reportTemplate, options.sections);
+  const brand = getPdfBrand(
+    { ...DEFAULT_REPORT_BRANDING, ...(options.branding ?? settings.reportBranding) },
+    t
+  );
+  const { primary, onPrimary, companyName, footerText, contactLine } = brand;
+  const title = options.title ?? t('reportChainTitle');
+  const issueMessages = entry.chainScore.issues.map(issue =>
+    getIssueMessage(issue, t, languageTag)
+  );
+  const recommendations = entry.chainScore.recommendations.map(rec =>
+    getRecommendationMessage(rec, t)
+  );
 
   const pdfDoc = await PDFDocument.create();
-  const fontNormal = await pdfDoc.embedFont(StandardFonts.Helvetica);
-  const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  // Labels in the report language decide which script fonts get embedded too
+  const { normal: fontNormal, bold: fontBold } = await embedPdfFonts(
+    pdfDoc,
+    [
+      companyName,
+      footerText,
+      contactLine,
+      title,
+      t('reportChainDetails'),
+      ...issueMessages,
+      ...recommendations,
+      JSON.stringify(entry),
+    ].join('\n')
+  );
 
   let page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
   let yPos = PAGE_HEIGHT - 20;
@@ -174,56 +365,60 @@ export async function exportToPDF(
     y: PAGE_HEIGHT - 55,
     width: PAGE_WIDTH,
     height: 55,
-    color: COLORS.primary,
+    color: primary,
   });
 
-  // Logo
-  const logoBuffer = await loadLogo();
-  if (logoBuffer) {
-    const logoImage = await pdfDoc.embedPng(logoBuffer);
+  // Logo, scaled to fit the header without stretching wide or tall images
+  const logoImage = await embedLogo(pdfDoc, brand.logoDataUrl);
+  if (logoImage) {
+    const { width, height } = logoImage.scaleToFit(35, 35);
     page.drawImage(logoImage, {
-      x: 15,
-      y: PAGE_HEIGHT - 45,
-      width: 35,
-      height: 35,
+      x: 15 + (35 - width) / 2,
+      y: PAGE_HEIGHT - 45 + (35 - height) / 2,
+      width,
+      height,
     });
   }
 
-  page.drawText('RedirectWise', {
+  // Leave room for the date and report ID on the right
+  drawText(page, wrapText(companyName, PAGE_WIDTH - 250, fontBold, 24)[0], {
     x: 60,
     y: PAGE_HEIGHT - 32,
     size: 24,
     font: fontBold,
-    color: COLORS.white,
+    color: onPrimary,
   });
 
-  page.drawText(title, {
+  drawText(page, title, {
     x: 60,
     y: PAGE_HEIGHT - 48,
     size: 12,
     font: fontNormal,
-    color: COLORS.white,
+    color: onPrimary,
   });
 
   // Date
-  const dateText = format(entry.timestamp, "MMMM d, yyyy 'at' h:mm a");
+  const dateText = new Intl.DateTimeFormat(languageTag, {
+    dateStyle: 'long',
+    timeStyle: 'short',
+  }).format(entry.timestamp);
   const dateWidth = fontNormal.widthOfTextAtSize(dateText, 10);
-  page.drawText(dateText, {
+  drawText(page, dateText, {
     x: PAGE_WIDTH - dateWidth - 15,
     y: PAGE_HEIGHT - 30,
     size: 10,
     font: fontNormal,
-    color: COLORS.white,
+    color: onPrimary,
   });
 
-  const idText = `Report ID: ${entry.id.substring(0, 8)}`;
+  const idText = t('reportId', [entry.id.substring(0, 8)]);
   const idWidth = fontNormal.widthOfTextAtSize(idText, 10);
-  page.drawText(idText, {
+  drawText(page, idText, {
     x: PAGE_WIDTH - idWidth - 15,
     y: PAGE_HEIGHT - 45,
     size: 10,
     font: fontNormal,
-    color: COLORS.white,
+    color: onPrimary,
   });
 
   yPos = PAGE_HEIGHT - 80;
@@ -240,41 +435,43 @@ export async function exportToPDF(
   });
 
   // Grade Circle
-  const scoreX = 50;
-  const scoreY = yPos - summaryBoxHeight / 2 + 5;
-  const gradeColor = getGradeColor(entry.chainScore.grade);
+  if (sections.score) {
+    const scoreX = 50;
+    const scoreY = yPos - summaryBoxHeight / 2 + 5;
+    const gradeColor = getGradeColor(entry.chainScore.grade);
 
-  page.drawCircle({
-    x: scoreX,
-    y: scoreY - 2,
-    size: 20,
-    color: gradeColor,
-  });
+    page.drawCircle({
+      x: scoreX,
+      y: scoreY - 2,
+      size: 20,
+      color: gradeColor,
+    });
 
-  const gradeWidth = fontBold.widthOfTextAtSize(entry.chainScore.grade, 24);
-  page.drawText(entry.chainScore.grade, {
-    x: scoreX - gradeWidth / 2,
-    y: scoreY - 10,
-    size: 24,
-    font: fontBold,
-    color: COLORS.white,
-  });
+    const gradeWidth = fontBold.widthOfTextAtSize(entry.chainScore.grade, 24);
+    drawText(page, entry.chainScore.grade, {
+      x: scoreX - gradeWidth / 2,
+      y: scoreY - 10,
+      size: 24,
+      font: fontBold,
+      color: COLORS.white,
+    });
 
-  const scoreText = `Score: ${entry.chainScore.score}/100`;
-  const scoreWidth = fontBold.widthOfTextAtSize(scoreText, 10);
-  page.drawText(scoreText, {
-    x: scoreX - scoreWidth / 2,
-    y: scoreY - 35,
-    size: 10,
-    font: fontBold,
-    color: COLORS.dark,
-  });
+    const scoreText = t('reportScore', [String(entry.chainScore.score)]);
+    const scoreWidth = fontBold.widthOfTextAtSize(scoreText, 10);
+    drawText(page, scoreText, {
+      x: scoreX - scoreWidth / 2,
+      y: scoreY - 35,
+      size: 10,
+      font: fontBold,
+      color: COLORS.dark,
+    });
+  }
 
   // Summary URL Stats
-  const statsX = 100;
+  const statsX = sections.score ? 100 : 25;
   const maxUrlWidth = PAGE_WIDTH - 250;
 
-  page.drawText('ORIGINAL URL', {
+  drawText(page, t('originalUrl').toLocaleUpperCase(languageTag), {
     x: statsX,
     y: yPos - 15,
     size: 9,
@@ -285,9 +482,9 @@ export async function exportToPDF(
   if (fontBold.widthOfTextAtSize(origUrl, 9) > maxUrlWidth) {
     origUrl = origUrl.substring(0, 50) + '...';
   }
-  page.drawText(origUrl, { x: statsX, y: yPos - 27, size: 9, font: fontBold, color: COLORS.dark });
+  drawText(page, origUrl, { x: statsX, y: yPos - 27, size: 9, font: fontBold, color: COLORS.dark });
 
-  page.drawText('FINAL URL', {
+  drawText(page, t('finalUrl').toLocaleUpperCase(languageTag), {
     x: statsX,
     y: yPos - 42,
     size: 9,
@@ -298,14 +495,20 @@ export async function exportToPDF(
   if (fontBold.widthOfTextAtSize(finalUrl, 9) > maxUrlWidth) {
     finalUrl = finalUrl.substring(0, 50) + '...';
   }
-  page.drawText(finalUrl, { x: statsX, y: yPos - 54, size: 9, font: fontBold, color: COLORS.dark });
+  drawText(page, finalUrl, {
+    x: statsX,
+    y: yPos - 54,
+    size: 9,
+    font: fontBold,
+    color: COLORS.dark,
+  });
 
   // Right Stats
   const rightX = PAGE_WIDTH - 60;
 
   const redirectCountText = entry.redirectCount.toString();
   const rcWidth = fontBold.widthOfTextAtSize(redirectCountText, 18);
-  page.drawText(redirectCountText, {
+  drawText(page, redirectCountText, {
     x: rightX - rcWidth / 2,
     y: yPos - 20,
     size: 18,
@@ -313,9 +516,9 @@ export async function exportToPDF(
     color: COLORS.dark,
   });
 
-  const rLabel = 'Redirects';
+  const rLabel = t('compareRedirects');
   const rlWidth = fontNormal.widthOfTextAtSize(rLabel, 9);
-  page.drawText(rLabel, {
+  drawText(page, rLabel, {
     x: rightX - rlWidth / 2,
     y: yPos - 30,
     size: 9,
@@ -325,7 +528,7 @@ export async function exportToPDF(
 
   const hopsText = entry.path.length.toString();
   const hWidth = fontBold.widthOfTextAtSize(hopsText, 18);
-  page.drawText(hopsText, {
+  drawText(page, hopsText, {
     x: rightX - hWidth / 2,
     y: yPos - 45,
     size: 18,
@@ -333,9 +536,9 @@ export async function exportToPDF(
     color: COLORS.dark,
   });
 
-  const hLabel = 'Total Hops';
+  const hLabel = t('reportTotalHops');
   const hlWidth = fontNormal.widthOfTextAtSize(hLabel, 9);
-  page.drawText(hLabel, {
+  drawText(page, hLabel, {
     x: rightX - hlWidth / 2,
     y: yPos - 55,
     size: 9,
@@ -346,19 +549,31 @@ export async function exportToPDF(
   yPos -= summaryBoxHeight + 30;
 
   // ========== TABLE ==========
-  page.drawText('Redirect Chain Details', {
+  drawText(page, t('reportChainDetails'), {
     x: 15,
     y: yPos,
     size: 16,
     font: fontBold,
     color: COLORS.dark,
   });
+  if (hasRedirectLoop(entry.path)) {
+    const loopText = t('reportLoopNote');
+    const loopWidth = fontBold.widthOfTextAtSize(loopText, 10);
+    drawText(page, loopText, {
+      x: PAGE_WIDTH - loopWidth - 15,
+      y: yPos,
+      size: 10,
+      font: fontBold,
+      color: COLORS.error,
+    });
+  }
   yPos -= 20;
 
-  // Table Headers
-  const colWidths = [30, 40, 90, 210, 140, 40];
-  const cols = ['#', 'Status', 'Type', 'URL', 'IP', 'Time'];
-  let currentX = 15;
+  // Table Headers; without timing the URL column takes the time column's width
+  const colWidths = sections.timing ? [30, 40, 90, 210, 140, 40] : [30, 40, 90, 250, 140];
+  const cols = ['#', t('reportColStatus'), t('reportColType'), 'URL', 'IP'];
+  if (sections.timing) cols.push(t('reportColTime'));
+  const colX = colWidths.map((_, i) => 15 + colWidths.slice(0, i).reduce((a, b) => a + b, 0));
 
   // Header Row Background
   page.drawRectangle({
@@ -366,13 +581,13 @@ export async function exportToPDF(
     y: yPos - 5,
     width: PAGE_WIDTH - 30,
     height: 20,
-    color: COLORS.primary,
+    color: primary,
   });
 
   cols.forEach((col, i) => {
-    const xPos = i === cols.length - 1 ? currentX + 5 + colWidths[i] / 2 - 10 : currentX + 5;
-    page.drawText(col, { x: xPos, y: yPos, size: 10, font: fontBold, color: COLORS.white });
-    currentX += colWidths[i];
+    const xPos =
+      sections.timing && i === cols.length - 1 ? colX[i] + 5 + colWidths[i] / 2 - 10 : colX[i] + 5;
+    drawText(page, col, { x: xPos, y: yPos, size: 10, font: fontBold, color: onPrimary });
   });
 
   yPos -= 25;
@@ -385,9 +600,9 @@ export async function exportToPDF(
       const prevItem = entry.path[i - 1];
       const delayMs = calculateGapDuration(prevItem, item);
 
-      if (delayMs != null) {
+      if (sections.timing && delayMs != null) {
         checkPageBreak(25);
-        const gapText = `${formatDuration(delayMs)} gap`;
+        const gapText = t('reportGap', [formatDuration(delayMs)]);
         const textWidth = fontNormal.widthOfTextAtSize(gapText, 8);
         const tagWidth = textWidth + 16;
         const tagHeight = 14;
@@ -403,7 +618,7 @@ export async function exportToPDF(
           borderColor: rgb(0.8, 0.85, 0.9),
         });
 
-        page.drawText(gapText, {
+        drawText(page, gapText, {
           x: centerX - textWidth / 2,
           y: yPos,
           size: 8,
@@ -413,19 +628,35 @@ export async function exportToPDF(
         yPos -= 18;
       }
     }
-    const statusLabel = getStatusLabel(item);
+    const typeLines = wrapText(getStatusLabel(item, t), colWidths[2] - 10, fontNormal, 9);
     const timing = item.timing ? formatDuration(item.timing.duration) : '-';
     const statusColor = item.status_code ? getStatusColor(item.status_code) : COLORS.dark;
 
     const urlLines = wrapText(item.url, colWidths[3] - 10, fontNormal, 9);
     const ipLines = wrapText(item.ip || '-', colWidths[4] - 10, fontNormal, 9);
 
-    const maxLines = Math.max(urlLines.length, ipLines.length);
+    const maxLines = Math.max(urlLines.length, ipLines.length, typeLines.length);
     const rowHeight = Math.max(24, maxLines * 12 + 12);
 
     checkPageBreak(rowHeight);
 
-    if (i % 2 === 0) {
+    // Hops of a redirect loop are highlighted instead of striped
+    if (item.in_loop) {
+      page.drawRectangle({
+        x: 15,
+        y: yPos - rowHeight + 14,
+        width: PAGE_WIDTH - 30,
+        height: rowHeight,
+        color: COLORS.errorLight,
+      });
+      page.drawRectangle({
+        x: 15,
+        y: yPos - rowHeight + 14,
+        width: 3,
+        height: rowHeight,
+        color: COLORS.error,
+      });
+    } else if (i % 2 === 0) {
       page.drawRectangle({
         x: 15,
         y: yPos - rowHeight + 14,
@@ -437,33 +668,35 @@ export async function exportToPDF(
 
     const textY = yPos - 2;
 
-    page.drawText((i + 1).toString(), {
+    drawText(page, (i + 1).toString(), {
       x: 15 + 5,
       y: textY,
       size: 9,
-      font: fontNormal,
-      color: COLORS.dark,
+      font: item.in_loop ? fontBold : fontNormal,
+      color: item.in_loop ? COLORS.error : COLORS.dark,
     });
 
-    page.drawText(item.status_code.toString(), {
-      x: 15 + colWidths[0] + 5,
+    drawText(page, item.status_code.toString(), {
+      x: colX[1] + 5,
       y: textY,
       size: 9,
       font: fontBold,
       color: statusColor,
     });
 
-    page.drawText(statusLabel, {
-      x: 15 + colWidths[0] + colWidths[1] + 5,
-      y: textY,
-      size: 9,
-      font: fontNormal,
-      color: COLORS.dark,
+    typeLines.forEach((line, lineIdx) => {
+      drawText(page, line, {
+        x: colX[2] + 5,
+        y: textY - lineIdx * 12,
+        size: 9,
+        font: fontNormal,
+        color: COLORS.dark,
+      });
     });
 
     urlLines.forEach((line, lineIdx) => {
-      page.drawText(line, {
-        x: 15 + colWidths[0] + colWidths[1] + colWidths[2] + 5,
+      drawText(page, line, {
+        x: colX[3] + 5,
         y: textY - lineIdx * 12,
         size: 9,
         font: fontNormal,
@@ -472,8 +705,8 @@ export async function exportToPDF(
     });
 
     ipLines.forEach((line, lineIdx) => {
-      page.drawText(line, {
-        x: 15 + colWidths[0] + colWidths[1] + colWidths[2] + colWidths[3] + 5,
+      drawText(page, line, {
+        x: colX[4] + 5,
         y: textY - lineIdx * 12,
         size: 9,
         font: fontNormal,
@@ -481,18 +714,11 @@ export async function exportToPDF(
       });
     });
 
-    const timeWidth = fontNormal.widthOfTextAtSize(timing, 9);
-    const timeX =
-      15 +
-      colWidths[0] +
-      colWidths[1] +
-      colWidths[2] +
-      colWidths[3] +
-      colWidths[4] +
-      5 +
-      colWidths[5] / 2 -
-      timeWidth / 2;
-    page.drawText(timing, { x: timeX, y: textY, size: 9, font: fontNormal, color: COLORS.dark });
+    if (sections.timing) {
+      const timeWidth = fontNormal.widthOfTextAtSize(timing, 9);
+      const timeX = colX[5] + 5 + colWidths[5] / 2 - timeWidth / 2;
+      drawText(page, timing, { x: timeX, y: textY, size: 9, font: fontNormal, color: COLORS.dark });
+    }
 
     yPos -= rowHeight;
   }
@@ -500,9 +726,9 @@ export async function exportToPDF(
   yPos -= 30;
 
   // ========== ANALYTICS & RECOMMENDATIONS ==========
-  if (includeScore && entry.chainScore.issues.length > 0) {
+  if (sections.issues && entry.chainScore.issues.length > 0) {
     checkPageBreak(50);
-    page.drawText('Analysis & Issues', {
+    drawText(page, t('reportIssues'), {
       x: 15,
       y: yPos,
       size: 16,
@@ -511,8 +737,10 @@ export async function exportToPDF(
     });
     yPos -= 20;
 
-    entry.chainScore.issues.forEach(issue => {
-      checkPageBreak(30);
+    entry.chainScore.issues.forEach((issue, idx) => {
+      // Translated messages can run longer than the English ones
+      const messageLines = wrapText(issueMessages[idx], PAGE_WIDTH - 45, fontNormal, 11);
+      checkPageBreak(messageLines.length * 13 + 17);
       const iconColor =
         issue.type === 'error'
           ? COLORS.error
@@ -521,29 +749,32 @@ export async function exportToPDF(
             : COLORS.success;
 
       page.drawCircle({ x: 20, y: yPos + 3, size: 4, color: iconColor });
-      page.drawText(issue.message, {
-        x: 30,
-        y: yPos,
-        size: 11,
-        font: fontNormal,
-        color: COLORS.dark,
+      messageLines.forEach((line, lIdx) => {
+        drawText(page, line, {
+          x: 30,
+          y: yPos - lIdx * 13,
+          size: 11,
+          font: fontNormal,
+          color: COLORS.dark,
+        });
       });
-      page.drawText(`Impact: ${issue.impact.toUpperCase()}`, {
+      const impactText = `${t('impactLabel')}: ${getImpactLabel(issue.impact, t)}`;
+      drawText(page, impactText.toLocaleUpperCase(languageTag), {
         x: 30,
-        y: yPos - 12,
+        y: yPos - messageLines.length * 13 + 1,
         size: 9,
         font: fontNormal,
         color: COLORS.textSecondary,
       });
 
-      yPos -= 30;
+      yPos -= messageLines.length * 13 + 17;
     });
     yPos -= 10;
   }
 
-  if (includeRecommendations && entry.chainScore.recommendations.length > 0) {
+  if (sections.issues && recommendations.length > 0) {
     checkPageBreak(50);
-    page.drawText('Recommendations', {
+    drawText(page, t('recommendations'), {
       x: 15,
       y: yPos,
       size: 16,
@@ -552,22 +783,22 @@ export async function exportToPDF(
     });
     yPos -= 20;
 
-    entry.chainScore.recommendations.forEach((rec, idx) => {
+    recommendations.forEach((rec, idx) => {
       const recLines = wrapText(rec, PAGE_WIDTH - 60, fontNormal, 11);
       const height = recLines.length * 14 + 10;
       checkPageBreak(height);
 
-      page.drawCircle({ x: 20, y: yPos + 4, size: 8, color: COLORS.primary });
-      page.drawText((idx + 1).toString(), {
+      page.drawCircle({ x: 20, y: yPos + 4, size: 8, color: primary });
+      drawText(page, (idx + 1).toString(), {
         x: 17.5,
         y: yPos + 1,
         size: 9,
         font: fontBold,
-        color: COLORS.white,
+        color: onPrimary,
       });
 
       recLines.forEach((line, lIdx) => {
-        page.drawText(line, {
+        drawText(page, line, {
           x: 35,
           y: yPos - lIdx * 14,
           size: 11,
@@ -580,26 +811,86 @@ export async function exportToPDF(
     });
   }
 
-  // Add Page Numbers
-  const pageCount = pdfDoc.getPageCount();
-  const pages = pdfDoc.getPages();
-  pages.forEach((p, i) => {
-    p.drawRectangle({ x: 0, y: 0, width: PAGE_WIDTH, height: 20, color: COLORS.light });
-    p.drawText('Generated by RedirectWise', {
+  const tags = entry.tags ?? [];
+  const notes = entry.notes?.trim();
+  if (sections.notes && (tags.length > 0 || notes)) {
+    checkPageBreak(50);
+    drawText(page, t('reportTagsNotes'), {
       x: 15,
-      y: 7,
-      size: 8,
-      font: fontNormal,
-      color: COLORS.textSecondary,
+      y: yPos,
+      size: 16,
+      font: fontBold,
+      color: COLORS.dark,
     });
-    p.drawText(`Page ${i + 1} of ${pageCount}`, {
-      x: PAGE_WIDTH - 80,
-      y: 7,
-      size: 8,
-      font: fontNormal,
-      color: COLORS.textSecondary,
+    yPos -= 20;
+
+    if (tags.length > 0) {
+      const tagsText = `${t('reportTags')}: ${tags.join(', ')}`;
+      wrapText(tagsText, PAGE_WIDTH - 45, fontNormal, 10).forEach(line => {
+        checkPageBreak(14);
+        drawText(page, line, { x: 15, y: yPos, size: 10, font: fontNormal, color: COLORS.dark });
+        yPos -= 14;
+      });
+      yPos -= 4;
+    }
+
+    if (notes) {
+      wrapText(notes, PAGE_WIDTH - 45, fontNormal, 10).forEach(line => {
+        checkPageBreak(14);
+        // Right-to-left notes (Arabic, Hebrew) are right-aligned
+        const x =
+          getTextDirection(line) === 'rtl'
+            ? PAGE_WIDTH - 15 - fontNormal.widthOfTextAtSize(line, 10)
+            : 15;
+        drawText(page, line, { x, y: yPos, size: 10, font: fontNormal, color: COLORS.dark });
+        yPos -= 14;
+      });
+    }
+    yPos -= 16;
+  }
+
+  if (sections.headers && entry.path.some(item => item.headers.length > 0)) {
+    checkPageBreak(50);
+    drawText(page, t('responseHeaders'), {
+      x: 15,
+      y: yPos,
+      size: 16,
+      font: fontBold,
+      color: COLORS.dark,
     });
-  });
+    yPos -= 20;
+
+    entry.path.forEach((item, i) => {
+      if (item.headers.length === 0) return;
+      checkPageBreak(30);
+      const hopTitle = wrapText(`${i + 1}. ${item.url}`, PAGE_WIDTH - 30, fontBold, 9)[0];
+      drawText(page, hopTitle, { x: 15, y: yPos, size: 9, font: fontBold, color: COLORS.dark });
+      yPos -= 13;
+
+      item.headers.forEach(header => {
+        const name = wrapText(header.name, 140, fontBold, 8)[0];
+        // Break per line so long values (CSP, cookies) can span pages
+        wrapText(header.value, PAGE_WIDTH - 190, fontNormal, 8).forEach((line, lIdx) => {
+          checkPageBreak(10);
+          if (lIdx === 0) {
+            drawText(page, name, {
+              x: 25,
+              y: yPos,
+              size: 8,
+              font: fontBold,
+              color: COLORS.textSecondary,
+            });
+          }
+          drawText(page, line, { x: 170, y: yPos, size: 8, font: fontNormal, color: COLORS.dark });
+          yPos -= 10;
+        });
+        yPos -= 2;
+      });
+      yPos -= 8;
+    });
+  }
+
+  drawReportFooters(pdfDoc, brand, fontNormal, t);
 
   const pdfBytes = await pdfDoc.save();
   downloadPDF(
@@ -609,38 +900,303 @@ export async function exportToPDF(
 }
 
 // Export History
-export async function exportHistoryToPDF(entries: HistoryEntry[]): Promise<void> {
-  const pdfDoc = await PDFDocument.create();
-  const fontNormal = await pdfDoc.embedFont(StandardFonts.Helvetica);
-  const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+const TREND_CHART_HEIGHT = 110;
+const TREND_BUCKET_KEYS = { day: 'chartPerDay', week: 'chartPerWeek', month: 'chartPerMonth' };
+
+// Axes, gridlines and first/last labels for one trends chart; returns the plot area
+function drawTrendChartFrame(
+  page: PDFPage,
+  top: number,
+  title: string,
+  points: TrendPoint[],
+  max: number,
+  formatValue: (value: number) => string,
+  fontNormal: PdfTextFont,
+  fontBold: PdfTextFont
+): { left: number; bottom: number; width: number; height: number; slot: number } {
+  const left = MARGIN + 40;
+  const width = CONTENT_WIDTH - 40;
+  const height = TREND_CHART_HEIGHT;
+  const bottom = top - 18 - height;
+
+  drawText(page, title, { x: MARGIN, y: top - 10, size: 11, font: fontBold, color: COLORS.dark });
+  [0, 0.5, 1].forEach(fraction => {
+    const y = bottom + height * fraction;
+    page.drawLine({
+      start: { x: left, y },
+      end: { x: left + width, y },
+      thickness: 0.5,
+      color: COLORS.light,
+    });
+    const label = formatValue(max * fraction);
+    drawText(page, label, {
+      x: left - 4 - fontNormal.widthOfTextAtSize(label, 7),
+      y: y - 2,
+      size: 7,
+      font: fontNormal,
+      color: COLORS.textSecondary,
+    });
+  });
 
-  let page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
-  let yPos = PAGE_HEIGHT - MARGIN;
+  const firstLabel = points[0].label;
+  const lastLabel = points[points.length - 1].label;
+  drawText(page, firstLabel, {
+    x: left,
+    y: bottom - 10,
+    size: 7,
+    font: fontNormal,
+    color: COLORS.textSecondary,
+  });
+  if (points.length > 1) {
+    drawText(page, lastLabel, {
+      x: left + width - fontNormal.widthOfTextAtSize(lastLabel, 7),
+      y: bottom - 10,
+      size: 7,
+      font: fontNormal,
+      color: COLORS.textSecondary,
+    });
+  }
 
-  // Header
-  page.drawRectangle({
-    x: 0,
-    y: PAGE_HEIGHT - 50,
-    width: PAGE_WIDTH,
-    height: 50,
-    color: COLORS.primary,
+  return { left, bottom, width, height, slot: width / points.length };
+}
+
+// Round the axis maximum up to a readable number
+function getTrendAxisMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 2.5, 5, 10].find(candidate => candidate * magnitude >= value) ?? 10;
+  return step * magnitude;
+}
+
+function drawTrendLine(
+  page: PDFPage,
+  frame: ReturnType<typeof drawTrendChartFrame>,
+  points: TrendPoint[],
+  value: (point: TrendPoint) => number | null,
+  max: number,
+  color: Color
+) {
+  let previous: { x: number; y: number } | null = null;
+  points.forEach((point, idx) => {
+    const v = value(point);
+    if (v == null) {
+      // Break the line across empty buckets
+      previous = null;
+      return;
+    }
+    const current = {
+      x: frame.left + frame.slot * (idx + 0.5),
+      y: frame.bottom + frame.height * (v / max),
+    };
+    if (previous) page.drawLine({ start: previous, end: current, thickness: 1.5, color });
+    else page.drawCircle({ x: current.x, y: current.y, size: 1.5, color });
+    previous = current;
   });
-  page.drawText('RedirectWise History Report', {
-    x: 15,
-    y: PAGE_HEIGHT - 30,
-    size: 22,
+}
+
+// Color swatches right-aligned on a chart's title line
+function drawTrendLegend(
+  page: PDFPage,
+  top: number,
+  items: { label: string; color: Color }[],
+  fontBold: PdfTextFont
+) {
+  let legendX = PAGE_WIDTH - MARGIN - items.length * 24;
+  items.forEach(({ label, color }) => {
+    page.drawRectangle({ x: legendX, y: top - 11, width: 7, height: 7, color });
+    drawText(page, label, {
+      x: legendX + 10,
+      y: top - 10,
+      size: 8,
+      font: fontBold,
+      color: COLORS.dark,
+    });
+    legendX += 24;
+  });
+}
+
+function drawHistoryTrendsPage(
+  pdfDoc: PDFDocument,
+  entries: HistoryEntry[],
+  fontNormal: PdfTextFont,
+  fontBold: PdfTextFont,
+  { translate: t, languageTag }: ReportTranslator,
+  brand: PdfBrand,
+  logoImage: PDFImage | null
+) {
+  const { bucket, points, statusCodes } = getHistoryTrends(entries, languageTag);
+  if (points.length === 0) return;
+
+  const page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const per = t(TREND_BUCKET_KEYS[bucket]);
+
+  drawListReportHeader(
+    page,
+    brand,
+    logoImage,
+    t('reportTrendsTitle'),
+    `${points[0].label} - ${points[points.length - 1].label} • ${per}`,
+    fontNormal,
+    fontBold
+  );
+
+  const barWidth = (slot: number) => Math.max(0.5, slot * 0.7);
+  let top = PAGE_HEIGHT - 75;
+
+  // Chains and grade mix share one stacked bar chart
+  const chainsMax = getTrendAxisMax(Math.max(...points.map(point => point.chains)));
+  const chains = drawTrendChartFrame(
+    page,
+    top,
+    `${t('chartChains')} (${per})`,
+    points,
+    chainsMax,
+    v => String(Math.round(v)),
+    fontNormal,
+    fontBold
+  );
+  points.forEach((point, idx) => {
+    let base = 0;
+    TREND_GRADES.forEach(grade => {
+      const count = point.grades[grade];
+      if (count === 0) return;
+      const height = chains.height * (count / chainsMax);
+      page.drawRectangle({
+        x: chains.left + chains.slot * idx + (chains.slot - barWidth(chains.slot)) / 2,
+        y: chains.bottom + base,
+        width: barWidth(chains.slot),
+        height,
+        color: getGradeColor(grade),
+      });
+      base += height;
+    });
+  });
+  drawTrendLegend(
+    page,
+    top,
+    TREND_GRADES.map(grade => ({ label: grade, color: getGradeColor(grade) })),
+    fontBold
+  );
+  top = chains.bottom - 30;
+
+  const score = drawTrendChartFrame(
+    page,
+    top,
+    `${t('chartAvgScore')} (${per})`,
+    points,
+    100,
+    v => String(Math.round(v)),
+    fontNormal,
+    fontBold
+  );
+  drawTrendLine(page, score, points, point => point.avgScore, 100, COLORS.primary);
+  top = score.bottom - 30;
+
+  const timeMax = getTrendAxisMax(Math.max(0, ...points.map(point => point.p95Time ?? 0)));
+  const time = drawTrendChartFrame(
+    page,
+    top,
+    `${t('chartChainTime')} (${per})`,
+    points,
+    timeMax,
+    v => formatDuration(v),
+    fontNormal,
+    fontBold
+  );
+  drawTrendLine(page, time, points, point => point.p50Time, timeMax, COLORS.primary);
+  drawTrendLine(page, time, points, point => point.p95Time, timeMax, COLORS.error);
+  drawTrendLegend(
+    page,
+    top,
+    [
+      { label: 'p50', color: COLORS.primary },
+      { label: 'p95', color: COLORS.error },
+    ],
+    fontBold
+  );
+  top = time.bottom - 30;
+
+  // Status code mix across every hop
+  drawText(page, t('chartStatusCodes'), {
+    x: MARGIN,
+    y: top - 10,
+    size: 11,
     font: fontBold,
-    color: COLORS.white,
+    color: COLORS.dark,
   });
-  page.drawText(`${entries.length} entries • Generated ${format(new Date(), 'MMMM d, yyyy')}`, {
-    x: 15,
-    y: PAGE_HEIGHT - 42,
-    size: 10,
-    font: fontNormal,
-    color: COLORS.white,
+  top -= 26;
+  const totalHops = statusCodes.reduce((sum, status) => sum + status.count, 0);
+  const barLeft = MARGIN + 40;
+  const barMaxWidth = CONTENT_WIDTH - 40 - 70;
+  statusCodes.forEach(status => {
+    const code = status.code ? String(status.code) : '-';
+    drawText(page, code, {
+      x: barLeft - 6 - fontBold.widthOfTextAtSize(code, 9),
+      y: top,
+      size: 9,
+      font: fontBold,
+      color: COLORS.dark,
+    });
+    page.drawRectangle({
+      x: barLeft,
+      y: top - 1,
+      width: Math.max(1, barMaxWidth * (status.count / statusCodes[0].count)),
+      height: 9,
+      color: getStatusColor(status.code),
+    });
+    drawText(page, `${status.count} (${Math.round((status.count / totalHops) * 100)}%)`, {
+      x: barLeft + barMaxWidth + 6,
+      y: top,
+      size: 9,
+      font: fontNormal,
+      color: COLORS.textSecondary,
+    });
+    top -= 14;
   });
+}
+
+export async function exportHistoryToPDF(
+  entries: HistoryEntry[],
+  options: HistoryPdfOptions = {}
+): Promise<void> {
+  const { translator, branding } = await loadReportSettings(options.locale, options.branding);
+  const { translate: t, languageTag } = translator;
+  const brand = getPdfBrand(branding, t);
+  const title = t('reportHistoryTitle');
+  const generatedOn = t('reportGeneratedOn', [
+    new Intl.DateTimeFormat(languageTag, { dateStyle: 'long' }).format(new Date()),
+  ]);
+
+  const pdfDoc = await PDFDocument.create();
+  const { normal: fontNormal, bold: fontBold } = await embedPdfFonts(
+    pdfDoc,
+    [
+      brand.companyName,
+      brand.footerText,
+      brand.contactLine,
+      title,
+      generatedOn,
+      t('reportTrendsTitle'),
+      ...entries.map(entry => `${entry.originalUrl}\n${entry.finalUrl}`),
+    ].join('\n')
+  );
+
+  let page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let yPos = PAGE_HEIGHT - MARGIN;
+
+  // Header
+  const logoImage = await embedLogo(pdfDoc, brand.logoDataUrl);
+  drawListReportHeader(
+    page,
+    brand,
+    logoImage,
+    title,
+    `${entries.length} ${t('entriesLabel')} • ${generatedOn}`,
+    fontNormal,
+    fontBold
+  );
 
-  yPos = PAGE_HEIGHT - 70;
+  yPos = PAGE_HEIGHT - 75;
 
   // Summary
   const avgScore = entries.reduce((acc, e) => acc + e.chainScore.score, 0) / entries.length;
@@ -653,21 +1209,21 @@ export async function exportHistoryToPDF(entries: HistoryEntry[]): Promise<void>
     height: 30,
     color: COLORS.light,
   });
-  page.drawText(`Average Score: ${Math.round(avgScore)}`, {
+  drawText(page, `${t('chartAvgScore')}: ${Math.round(avgScore)}`, {
     x: 25,
     y: yPos - 20,
     size: 12,
     font: fontBold,
     color: COLORS.dark,
   });
-  page.drawText(`Total Redirects: ${totalRedirects}`, {
+  drawText(page, `${t('reportTotalRedirects')}: ${totalRedirects}`, {
     x: 200,
     y: yPos - 20,
     size: 12,
     font: fontBold,
     color: COLORS.dark,
   });
-  page.drawText(`Entries: ${entries.length}`, {
+  drawText(page, `${t('historyEntriesStored')}: ${entries.length}`, {
     x: 400,
     y: yPos - 20,
     size: 12,
@@ -679,7 +1235,13 @@ export async function exportHistoryToPDF(entries: HistoryEntry[]): Promise<void>
 
   // Table Headers
   const colWidths = [100, 50, 50, 150, 150];
-  const cols = ['Date', 'Grade', 'Redir', 'Original URL', 'Final URL'];
+  const cols = [
+    t('reportColDate'),
+    t('reportColGrade'),
+    t('reportColRedirects'),
+    t('originalUrl'),
+    t('finalUrl'),
+  ];
   let currentX = 15;
 
   page.drawRectangle({
@@ -687,16 +1249,26 @@ export async function exportHistoryToPDF(entries: HistoryEntry[]): Promise<void>
     y: yPos - 5,
     width: PAGE_WIDTH - 30,
     height: 20,
-    color: COLORS.primary,
+    color: brand.primary,
   });
   cols.forEach((col, i) => {
-    page.drawText(col, { x: currentX + 5, y: yPos, size: 10, font: fontBold, color: COLORS.white });
+    drawText(page, col, {
+      x: currentX + 5,
+      y: yPos,
+      size: 10,
+      font: fontBold,
+      color: brand.onPrimary,
+    });
     currentX += colWidths[i];
   });
 
   yPos -= 25;
 
   // Table Body
+  const rowDateFormat = new Intl.DateTimeFormat(languageTag, {
+    dateStyle: 'short',
+    timeStyle: 'short',
+  });
   for (let i = 0; i < entries.length; i++) {
     const entry = entries[i];
 
@@ -715,14 +1287,14 @@ export async function exportHistoryToPDF(entries: HistoryEntry[]): Promise<void>
       });
     }
 
-    const dateStr = format(entry.timestamp, 'MM/dd/yy HH:mm');
+    const dateStr = rowDateFormat.format(entry.timestamp);
     const gradeColor = getGradeColor(entry.chainScore.grade);
 
     let cx = 15;
-    page.drawText(dateStr, { x: cx + 2, y: yPos, size: 9, font: fontNormal, color: COLORS.dark });
+    drawText(page, dateStr, { x: cx + 2, y: yPos, size: 9, font: fontNormal, color: COLORS.dark });
     cx += colWidths[0];
 
-    page.drawText(entry.chainScore.grade, {
+    drawText(page, entry.chainScore.grade, {
       x: cx + 15,
       y: yPos,
       size: 9,
@@ -731,7 +1303,7 @@ export async function exportHistoryToPDF(entries: HistoryEntry[]): Promise<void>
     });
     cx += colWidths[1];
 
-    page.drawText(entry.redirectCount.toString(), {
+    drawText(page, entry.redirectCount.toString(), {
       x: cx + 15,
       y: yPos,
       size: 9,
@@ -745,20 +1317,241 @@ export async function exportHistoryToPDF(entries: HistoryEntry[]): Promise<void>
       entry.originalUrl.length > 30
         ? entry.originalUrl.substring(0, 30) + '...'
         : entry.originalUrl;
-    page.drawText(orig, { x: cx + 2, y: yPos, size: 9, font: fontNormal, color: COLORS.dark });
+    drawText(page, orig, { x: cx + 2, y: yPos, size: 9, font: fontNormal, color: COLORS.dark });
     cx += colWidths[3];
 
     let final =
       entry.finalUrl.length > 30 ? entry.finalUrl.substring(0, 30) + '...' : entry.finalUrl;
-    page.drawText(final, { x: cx + 2, y: yPos, size: 9, font: fontNormal, color: COLORS.dark });
+    drawText(page, final, { x: cx + 2, y: yPos, size: 9, font: fontNormal, color: COLORS.dark });
 
     yPos -= 16;
   }
 
+  if (options.includeCharts) {
+    drawHistoryTrendsPage(pdfDoc, entries, fontNormal, fontBold, translator, brand, logoImage);
+  }
+
+  drawReportFooters(pdfDoc, brand, fontNormal, t);
+
   const pdfBytes = await pdfDoc.save();
   downloadPDF(pdfBytes, `redirectwise-history-${format(new Date(), 'yyyy-MM-dd')}.pdf`);
 }
 
+// Export migration mapping validation
+export async function exportMappingReportToPDF(
+  jobName: string,
+  rows: MappingReportRow[],
+  locale?: string,
+  reportBranding?: ReportBranding
+): Promise<void> {
+  const { translator, branding } = await loadReportSettings(locale, reportBranding);
+  const { translate: t, languageTag } = translator;
+  const brand = getPdfBrand(branding, t);
+  const title = t('reportMappingTitle');
+  const generatedOn = t('reportGeneratedOn', [
+    new Intl.DateTimeFormat(languageTag, { dateStyle: 'long' }).format(new Date()),
+  ]);
+
+  const pdfDoc = await PDFDocument.create();
+  const { normal: fontNormal, bold: fontBold } = await embedPdfFonts(
+    pdfDoc,
+    [
+      brand.companyName,
+      brand.footerText,
+      brand.contactLine,
+      title,
+      generatedOn,
+      t('reportColSourceExpected'),
+      jobName,
+      JSON.stringify(rows),
+    ].join('\n')
+  );
+
+  let page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let yPos = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (needed: number) => {
+    if (yPos - needed < MARGIN) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      yPos = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  // Header
+  drawListReportHeader(
+    page,
+    brand,
+    await embedLogo(pdfDoc, brand.logoDataUrl),
+    title,
+    `${jobName} • ${generatedOn}`,
+    fontNormal,
+    fontBold
+  );
+
+  yPos = PAGE_HEIGHT - 75;
+
+  // Summary
+  const passed = rows.filter(row => row.result?.pass).length;
+  const failed = rows.filter(row => row.result && !row.result.pass).length;
+  const unchecked = rows.length - passed - failed;
+
+  page.drawRectangle({
+    x: 15,
+    y: yPos - 30,
+    width: PAGE_WIDTH - 30,
+    height: 30,
+    color: COLORS.light,
+  });
+  drawText(page, t('reportPassed', [String(passed)]), {
+    x: 25,
+    y: yPos - 20,
+    size: 12,
+    font: fontBold,
+    color: COLORS.success,
+  });
+  drawText(page, t('reportFailed', [String(failed)]), {
+    x: 200,
+    y: yPos - 20,
+    size: 12,
+    font: fontBold,
+    color: COLORS.error,
+  });
+  drawText(page, t('reportNotChecked', [String(unchecked)]), {
+    x: 400,
+    y: yPos - 20,
+    size: 12,
+    font: fontBold,
+    color: COLORS.dark,
+  });
+
+  yPos -= 50;
+
+  // Table Headers
+  const colWidths = [45, 205, 45, 205];
+  const cols = [
+    t('reportColResult'),
+    t('reportColSourceExpected'),
+    t('reportColStatus'),
+    t('actualTarget'),
+  ];
+  let currentX = 15;
+
+  page.drawRectangle({
+    x: 15,
+    y: yPos - 5,
+    width: PAGE_WIDTH - 30,
+    height: 20,
+    color: brand.primary,
+  });
+  cols.forEach((col, i) => {
+    drawText(page, col, {
+      x: currentX + 5,
+      y: yPos,
+      size: 10,
+      font: fontBold,
+      color: brand.onPrimary,
+    });
+    currentX += colWidths[i];
+  });
+
+  yPos -= 25;
+
+  // Table Body
+  rows.forEach((row, i) => {
+    const failing = row.result ? !row.result.pass : false;
+    const pathLines = failing
+      ? row.hops.flatMap(hop =>
+          wrapText(`${hop.status_code}  ${hop.url}`, CONTENT_WIDTH - 70, fontNormal, 8)
+        )
+      : [];
+    ensureSpace(28 + pathLines.length * 10);
+
+    if (i % 2 === 0) {
+      page.drawRectangle({
+        x: 15,
+        y: yPos - 24 - pathLines.length * 10,
+        width: PAGE_WIDTH - 30,
+        height: 34 + pathLines.length * 10,
+        color: COLORS.light,
+      });
+    }
+
+    const label = row.result
+      ? t(row.result.pass ? 'mappingPass' : 'mappingFail').toLocaleUpperCase(languageTag)
+      : row.error
+        ? t('reportError').toLocaleUpperCase(languageTag)
+        : '-';
+    const labelColor = row.result
+      ? row.result.pass
+        ? COLORS.success
+        : COLORS.error
+      : COLORS.textSecondary;
+    const truncate = (text: string) => (text.length > 45 ? text.substring(0, 45) + '...' : text);
+
+    let cx = 15;
+    drawText(page, label, { x: cx + 5, y: yPos, size: 9, font: fontBold, color: labelColor });
+    cx += colWidths[0];
+
+    drawText(page, truncate(row.source), {
+      x: cx + 2,
+      y: yPos,
+      size: 8,
+      font: fontNormal,
+      color: COLORS.dark,
+    });
+    drawText(page, truncate(row.expected?.targetUrl ?? '-'), {
+      x: cx + 2,
+      y: yPos - 11,
+      size: 8,
+      font: fontNormal,
+      color: COLORS.textSecondary,
+    });
+    cx += colWidths[1];
+
+    const statusText = `${row.expected?.status ?? '-'} / ${row.result?.actualStatus ?? '-'}`;
+    drawText(page, statusText, {
+      x: cx + 2,
+      y: yPos,
+      size: 8,
+      font: fontBold,
+      color: row.result && !row.result.statusMatch ? COLORS.error : COLORS.dark,
+    });
+    cx += colWidths[2];
+
+    const actualText =
+      row.result?.actualTarget ??
+      (row.error ? getTraceErrorMessage(row.error, t, languageTag) : '-');
+    drawText(page, truncate(actualText), {
+      x: cx + 2,
+      y: yPos,
+      size: 8,
+      font: fontNormal,
+      color: row.result && !row.result.targetMatch ? COLORS.error : COLORS.dark,
+    });
+
+    yPos -= 22;
+
+    // Actual path for mismatches
+    pathLines.forEach(line => {
+      drawText(page, line, {
+        x: 15 + colWidths[0] + 2,
+        y: yPos,
+        size: 8,
+        font: fontNormal,
+        color: COLORS.textSecondary,
+      });
+      yPos -= 10;
+    });
+
+    yPos -= 6;
+  });
+
+  drawReportFooters(pdfDoc, brand, fontNormal, t);
+
+  const pdfBytes = await pdfDoc.save();
+  downloadPDF(pdfBytes, `redirectwise-mapping-${format(new Date(), 'yyyy-MM-dd')}.pdf`);
+}
+
 function downloadPDF(bytes: Uint8Array, filename: string) {
   const blob = new Blob([bytes as any], { type: 'application/pdf' });
   const link = document.createElement('a');
@@ -0,0 +1,32 @@
+// Font files behind PDF report text; kept free of fontkit so the build config can check them
+
+export interface FontFaceFiles {
+  regular: string;
+  bold?: string;
+  // Only fetched when the report contains these characters; the base face has none
+  script?: RegExp;
+}
+
+// Subsets bundled under public/fonts, in fallback order
+export const FONT_FACES: FontFaceFiles[] = [
+  // Latin, Greek, Cyrillic and Vietnamese
+  { regular: 'fonts/NotoSans-Regular.ttf', bold: 'fonts/NotoSans-Bold.ttf' },
+  {
+    regular: 'fonts/NotoSansArabic-Regular.ttf',
+    bold: 'fonts/NotoSansArabic-Bold.ttf',
+    script: /[\u0600-\u06ff\u0750-\u077f\u08a0-\u08ff\ufb50-\ufdff\ufe70-\ufeff]/,
+  },
+  {
+    regular: 'fonts/NotoSansDevanagari-Regular.ttf',
+    bold: 'fonts/NotoSansDevanagari-Bold.ttf',
+    script: /[\u0900-\u097f\ua8e0-\ua8ff]/,
+  },
+  // Han, kana and full-width forms
+  { regular: 'fonts/NotoSansSC-Regular.ttf', script: /[\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef]/ },
+  { regular: 'fonts/NotoSansKR-Regular.ttf', script: /[\u1100-\u11ff\u3130-\u318f\uac00-\ud7af]/ },
+];
+
+// Every file under public/ that FONT_FACES refers to
+export function getFontFacePaths(): string[] {
+  return FONT_FACES.flatMap(face => (face.bold ? [face.regular, face.bold] : [face.regular]));
+}
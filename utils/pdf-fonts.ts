@@ -0,0 +1,181 @@
+// Unicode text for PDF reports: bundled Noto fonts embedded through fontkit, with
+// per-character fallback and right-to-left run ordering
+import fontkit from '@pdf-lib/fontkit';
+// fontkit's Indic shaper (Devanagari) calls the global regeneratorRuntime
+import 'regenerator-runtime/runtime';
+import { Color, PDFDocument, PDFFont, PDFPage, StandardFonts } from 'pdf-lib';
+import { FONT_FACES } from './pdf-font-faces';
+
+export interface PdfFontFace {
+  font: PDFFont;
+  glyphs: Set<number>;
+}
+
+export interface PdfTextFont {
+  // Fallback chain, most preferred first; the last face is always a standard font
+  faces: PdfFontFace[];
+  widthOfTextAtSize: (text: string, size: number) => number;
+}
+
+export interface PdfFonts {
+  normal: PdfTextFont;
+  bold: PdfTextFont;
+}
+
+export interface DrawTextOptions {
+  x: number;
+  y: number;
+  size: number;
+  font: PdfTextFont;
+  color: Color;
+}
+
+interface TextRun {
+  text: string;
+  face: PdfFontFace;
+  rtl: boolean;
+}
+
+const RTL_CHAR = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufeff]/;
+const STRONG_CHAR = /[\p{L}\p{N}]/u;
+const REPLACEMENT_CHAR = '?';
+
+// Font files are fetched once per session and reused by every export
+const fontFileCache = new Map<string, Promise<ArrayBuffer | null>>();
+
+function loadFontFile(path: string): Promise<ArrayBuffer | null> {
+  let pending = fontFileCache.get(path);
+  if (!pending) {
+    pending = fetch(chrome.runtime.getURL(path))
+      .then(response => (response.ok ? response.arrayBuffer() : null))
+      .catch(() => null);
+    fontFileCache.set(path, pending);
+  }
+  return pending;
+}
+
+async function embedFace(pdfDoc: PDFDocument, path: string): Promise<PdfFontFace | null> {
+  const bytes = await loadFontFile(path);
+  if (!bytes) return null;
+  try {
+    const font = await pdfDoc.embedFont(bytes, { subset: true });
+    return { font, glyphs: new Set(font.getCharacterSet()) };
+  } catch (error) {
+    console.error('[RedirectWise] Failed to embed PDF font:', path, error);
+    return null;
+  }
+}
+
+function createTextFont(faces: PdfFontFace[]): PdfTextFont {
+  const textFont: PdfTextFont = {
+    faces,
+    widthOfTextAtSize: (text, size) =>
+      getTextRuns(textFont, text).reduce(
+        (width, run) => width + run.face.font.widthOfTextAtSize(run.text, size),
+        0
+      ),
+  };
+  return textFont;
+}
+
+// Embeds the base face plus every script face `text` needs; missing files fall back to Helvetica
+export async function embedPdfFonts(pdfDoc: PDFDocument, text: string): Promise<PdfFonts> {
+  pdfDoc.registerFontkit(fontkit);
+
+  const needed = FONT_FACES.filter(face => !face.script || face.script.test(text));
+  const regular: PdfFontFace[] = [];
+  const bold: PdfFontFace[] = [];
+  for (const files of needed) {
+    const regularFace = await embedFace(pdfDoc, files.regular);
+    if (!regularFace) continue;
+    const boldFace = files.bold ? await embedFace(pdfDoc, files.bold) : null;
+    regular.push(regularFace);
+    bold.push(boldFace ?? regularFace);
+  }
+
+  const helvetica = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const helveticaBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  regular.push({ font: helvetica, glyphs: new Set(helvetica.getCharacterSet()) });
+  bold.push({ font: helveticaBold, glyphs: new Set(helveticaBold.getCharacterSet()) });
+
+  const missing = [...new Set(Array.from(text))].filter(
+    char => char >= ' ' && !regular.some(face => face.glyphs.has(char.codePointAt(0)!))
+  );
+  if (missing.length > 0) {
+    console.warn('[RedirectWise] No PDF font covers:', missing.join(''));
+  }
+
+  return { normal: createTextFont(regular), bold: createTextFont(bold) };
+}
+
+export function getTextDirection(text: string): 'ltr' | 'rtl' {
+  for (const char of text) {
+    if (RTL_CHAR.test(char)) return 'rtl';
+    if (STRONG_CHAR.test(char)) return 'ltr';
+  }
+  return 'ltr';
+}
+
+// Splits text into runs of one face and direction, in visual order. Neutral characters
+// (spaces, punctuation) take the direction of the strong characters on both sides when
+// they agree and the line's direction otherwise; fontkit shapes and mirrors each RTL run.
+export function getTextRuns(font: PdfTextFont, text: string): TextRun[] {
+  const fallback = font.faces[font.faces.length - 1];
+  const base = getTextDirection(text);
+  const chars = Array.from(text, char => (char < ' ' ? ' ' : char));
+  const strong = chars.map(char =>
+    RTL_CHAR.test(char) ? true : STRONG_CHAR.test(char) ? false : null
+  );
+
+  const runs: TextRun[] = [];
+  let before = base === 'rtl';
+  chars.forEach((char, idx) => {
+    let rtl = strong[idx];
+    if (rtl == null) {
+      const next = strong.slice(idx + 1).find(dir => dir != null) ?? base === 'rtl';
+      rtl = before === next ? before : base === 'rtl';
+    } else {
+      before = rtl;
+    }
+
+    const code = char.codePointAt(0)!;
+    const previous = runs[runs.length - 1];
+    const face =
+      strong[idx] == null && previous?.face.glyphs.has(code)
+        ? previous.face
+        : font.faces.find(candidate => candidate.glyphs.has(code));
+    const glyph = face ? char : REPLACEMENT_CHAR;
+    const runFace = face ?? fallback;
+
+    if (previous && previous.face === runFace && previous.rtl === rtl) {
+      previous.text += glyph;
+    } else {
+      runs.push({ text: glyph, face: runFace, rtl });
+    }
+  });
+
+  // Runs against the base direction keep their own order inside the reversed line
+  if (base === 'rtl') runs.reverse();
+  const ordered: TextRun[] = [];
+  let embedded: TextRun[] = [];
+  for (const run of runs) {
+    if (run.rtl !== (base === 'rtl')) {
+      embedded.push(run);
+      continue;
+    }
+    ordered.push(...embedded.reverse(), run);
+    embedded = [];
+  }
+  ordered.push(...embedded.reverse());
+  return ordered;
+}
+
+// Drop-in for page.drawText that switches fonts mid-line as the text needs
+export function drawText(page: PDFPage, text: string, options: DrawTextOptions) {
+  const { size, font, color, y } = options;
+  let x = options.x;
+  for (const run of getTextRuns(font, text)) {
+    page.drawText(run.text, { x, y, size, font: run.face.font, color });
+    x += run.face.font.widthOfTextAtSize(run.text, size);
+  }
+}
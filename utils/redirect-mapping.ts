@@ -0,0 +1,217 @@
+// Expected-destination mappings for site migrations: source,expected_target,expected_status
+
+import { format } from 'date-fns';
+import { BatchJob, BatchJobItem, ExpectationResult, RedirectExpectation } from '../types/redirect';
+import { normalizeTraceUrl } from './url-tracer';
+
+export interface MappingRow {
+  url: string;
+  expected?: RedirectExpectation;
+}
+
+export interface MappingReportRow {
+  source: string;
+  expected?: RedirectExpectation;
+  result: ExpectationResult | null;
+  hops: NonNullable<BatchJobItem['hops']>;
+  error?: string;
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  return firstLine.includes('\t')
+    ? '\t'
+    : firstLine.includes(';') && !firstLine.includes(',')
+      ? ';'
+      : ',';
+}
+
+// RFC 4180: quoted cells may hold delimiters, line breaks and "" escapes, so exports re-import as-is
+function parseCsvRows(text: string): string[][] {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let wasQuoted = false;
+
+  const endCell = () => {
+    row.push(wasQuoted ? cell : cell.trim());
+    cell = '';
+    wasQuoted = false;
+  };
+  const endRow = () => {
+    endCell();
+    if (row.some(value => value)) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && !cell.trim()) {
+      quoted = true;
+      wasQuoted = true;
+      cell = '';
+    } else if (char === delimiter) {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else if (!wasQuoted || char.trim()) {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+function isHeaderRow(cells: string[]): boolean {
+  return (
+    /^(source|url|from|old)/i.test(cells[0] ?? '') || cells.some(cell => /^expected/i.test(cell))
+  );
+}
+
+function resolveTarget(target: string, sourceUrl: string): string {
+  try {
+    return new URL(target, sourceUrl).href;
+  } catch {
+    return target;
+  }
+}
+
+// Plain URL lists and mapping CSVs share one format; extra columns are the expectation
+export function parseMappingCsv(text: string): MappingRow[] {
+  const rows = new Map<string, MappingRow>();
+
+  parseCsvRows(text).forEach((cells, index) => {
+    if (index === 0 && isHeaderRow(cells)) return;
+
+    const url = normalizeTraceUrl(cells[0] ?? '');
+    if (!url) return;
+
+    const targetUrl = cells[1] || undefined;
+    const status = cells[2] ? parseInt(cells[2], 10) : undefined;
+    const expected: RedirectExpectation | undefined =
+      targetUrl || (status && !Number.isNaN(status))
+        ? {
+            targetUrl: targetUrl ? resolveTarget(targetUrl, url) : undefined,
+            status: status && !Number.isNaN(status) ? status : undefined,
+          }
+        : undefined;
+
+    rows.set(url, { url, expected });
+  });
+
+  return [...rows.values()];
+}
+
+// Compare URLs the way a migration audit would: ignore the fragment and a trailing slash
+function normalizeForCompare(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    const href = parsed.href;
+    return href.endsWith('/') ? href.slice(0, -1) : href;
+  } catch {
+    return url.trim();
+  }
+}
+
+export function checkExpectation(
+  expected: RedirectExpectation,
+  actual: { finalUrl: string; firstStatus: number }
+): ExpectationResult {
+  const targetMatch =
+    !expected.targetUrl ||
+    normalizeForCompare(expected.targetUrl) === normalizeForCompare(actual.finalUrl);
+  const statusMatch = expected.status == null || expected.status === actual.firstStatus;
+
+  return {
+    pass: targetMatch && statusMatch,
+    targetMatch,
+    statusMatch,
+    actualTarget: actual.finalUrl,
+    actualStatus: actual.firstStatus,
+  };
+}
+
+export function hasExpectations(job: BatchJob): boolean {
+  return job.items.some(item => item.expected);
+}
+
+export function buildMappingReport(job: BatchJob): MappingReportRow[] {
+  return job.items
+    .filter(item => item.expected)
+    .map(item => ({
+      source: item.url,
+      expected: item.expected,
+      result:
+        item.status === 'done' && item.finalUrl && item.statusCode != null
+          ? checkExpectation(item.expected!, {
+              finalUrl: item.finalUrl,
+              firstStatus: item.statusCode,
+            })
+          : null,
+      hops: item.hops ?? [],
+      error: item.error,
+    }));
+}
+
+function escapeCsv(value: string | number | undefined): string {
+  const text = value == null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function mappingReportToCsv(rows: MappingReportRow[]): string {
+  const header = [
+    'source',
+    'expected_target',
+    'expected_status',
+    'actual_target',
+    'actual_status',
+    'result',
+    'hops',
+    'actual_path',
+  ];
+
+  const lines = rows.map(row =>
+    [
+      row.source,
+      row.expected?.targetUrl,
+      row.expected?.status,
+      row.result?.actualTarget,
+      row.result?.actualStatus,
+      row.result ? (row.result.pass ? 'pass' : 'fail') : row.error ? 'error' : 'pending',
+      row.hops.length,
+      row.hops.map(hop => `${hop.status_code} ${hop.url}`).join(' -> '),
+    ]
+      .map(escapeCsv)
+      .join(',')
+  );
+
+  return [header.join(','), ...lines].join('\n');
+}
+
+export function downloadMappingCsv(job: BatchJob): void {
+  const csv = mappingReportToCsv(buildMappingReport(job));
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const link = document.createElement('a');
+  const href = URL.createObjectURL(blob);
+  link.href = href;
+  link.download = `redirectwise-mapping-${format(job.createdAt, 'yyyy-MM-dd')}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(href);
+}
@@ -0,0 +1,217 @@
+// Server redirect rules that collapse a chain into a single 301 from the source to the final URL
+
+import { HistoryEntry, RedirectItem, hasRedirectLoop } from '../types/redirect';
+
+export type RedirectRuleFormat =
+  'nginx' | 'apache' | 'htaccess' | 'netlify' | 'vercel' | 'cloudflare';
+
+export const REDIRECT_RULE_FORMATS: { id: RedirectRuleFormat; label: string }[] = [
+  { id: 'nginx', label: 'nginx' },
+  { id: 'apache', label: 'Apache' },
+  { id: 'htaccess', label: '.htaccess' },
+  { id: 'netlify', label: 'Netlify _redirects' },
+  { id: 'vercel', label: 'vercel.json' },
+  { id: 'cloudflare', label: 'Cloudflare CSV' },
+];
+
+export interface DirectRedirect {
+  sourceUrl: string;
+  targetUrl: string;
+  // Redirects the chain currently takes to get there
+  hops: number;
+}
+
+interface ParsedSource extends DirectRedirect {
+  host: string;
+  pathname: string;
+  search: string;
+}
+
+// The one-hop replacement for a chain, or null when there's nothing to collapse
+export function getDirectRedirect(path: RedirectItem[]): DirectRedirect | null {
+  const hops = path.filter(
+    item => item.type === 'server_redirect' || item.type === 'client_redirect'
+  ).length;
+  const last = path[path.length - 1];
+  if (!last || hops === 0 || hasRedirectLoop(path)) return null;
+  // A chain that ended on a redirect never reached its destination
+  if (last.type !== 'navigation' && last.redirect_url) return null;
+
+  const sourceUrl = path[0].url;
+  const targetUrl = last.url;
+  return sourceUrl === targetUrl ? null : { sourceUrl, targetUrl, hops };
+}
+
+// One rule per source URL; the first entry wins, so pass entries newest first
+export function getDirectRedirects(entries: HistoryEntry[]): DirectRedirect[] {
+  const bySource = new Map<string, DirectRedirect>();
+  for (const entry of entries) {
+    const redirect = getDirectRedirect(entry.path);
+    if (redirect && !bySource.has(redirect.sourceUrl)) bySource.set(redirect.sourceUrl, redirect);
+  }
+  return [...bySource.values()];
+}
+
+function parseSource(redirect: DirectRedirect): ParsedSource | null {
+  try {
+    const url = new URL(redirect.sourceUrl);
+    return { ...redirect, host: url.host, pathname: url.pathname, search: url.search.slice(1) };
+  } catch {
+    return null;
+  }
+}
+
+function groupByHost(sources: ParsedSource[]): Map<string, ParsedSource[]> {
+  const groups = new Map<string, ParsedSource[]>();
+  sources.forEach(source => groups.set(source.host, [...(groups.get(source.host) ?? []), source]));
+  return groups;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// mod_rewrite reads $N and %N in a substitution as back-references
+function escapeRewriteTarget(url: string): string {
+  return url.replace(/[$%]/g, '\\$&');
+}
+
+function quoteNginx(value: string): string {
+  return /[\s;{}"'$]/.test(value) ? `"${value.replace(/["\\]/g, '\\$&')}"` : value;
+}
+
+function hopComment(source: ParsedSource): string {
+  return `${source.sourceUrl} (was ${source.hops} ${source.hops === 1 ? 'hop' : 'hops'})`;
+}
+
+function toNginx(sources: ParsedSource[]): string {
+  const blocks = [...groupByHost(sources)].map(([host, hostSources]) => {
+    const rules = hostSources.map(source => {
+      // location matching ignores the query string, so those sources compare the full request URI
+      const match = source.search
+        ? `if ($request_uri = ${quoteNginx(`${source.pathname}?${source.search}`)})`
+        : `location = ${quoteNginx(source.pathname)}`;
+      return [
+        `    # ${hopComment(source)}`,
+        `    ${match} {`,
+        `        return 301 ${quoteNginx(source.targetUrl)};`,
+        '    }',
+      ].join('\n');
+    });
+    return [
+      'server {',
+      `    server_name ${host.replace(/:\d+$/, '')};`,
+      '',
+      rules.join('\n\n'),
+      '}',
+    ].join('\n');
+  });
+  return blocks.join('\n\n');
+}
+
+// mod_alias for plain paths, mod_rewrite where the query string has to match too
+function toApache(sources: ParsedSource[]): string {
+  const sections = [...groupByHost(sources)].map(([host, hostSources]) => {
+    const lines = [`# In the <VirtualHost> for ${host}`];
+    if (hostSources.some(source => source.search)) lines.push('RewriteEngine On');
+    hostSources.forEach(source => {
+      lines.push(`# ${hopComment(source)}`);
+      if (source.search) {
+        lines.push(
+          `RewriteCond %{QUERY_STRING} ^${escapeRegex(source.search)}$`,
+          `RewriteRule ^${escapeRegex(source.pathname)}$ ${escapeRewriteTarget(source.targetUrl)} [R=301,L,QSD]`
+        );
+      } else {
+        lines.push(`RedirectMatch 301 ^${escapeRegex(source.pathname)}$ ${source.targetUrl}`);
+      }
+    });
+    return lines.join('\n');
+  });
+  return sections.join('\n\n');
+}
+
+function toHtaccess(sources: ParsedSource[]): string {
+  const multipleHosts = groupByHost(sources).size > 1;
+  const rules = sources.map(source => {
+    const lines = [`# ${hopComment(source)}`];
+    if (multipleHosts) lines.push(`RewriteCond %{HTTP_HOST} ^${escapeRegex(source.host)}$ [NC]`);
+    if (source.search) lines.push(`RewriteCond %{QUERY_STRING} ^${escapeRegex(source.search)}$`);
+    // Per-directory patterns don't include the leading slash
+    lines.push(
+      `RewriteRule ^${escapeRegex(source.pathname.slice(1))}$ ${escapeRewriteTarget(source.targetUrl)} [R=301,L${source.search ? ',QSD' : ''}]`
+    );
+    return lines.join('\n');
+  });
+  return `RewriteEngine On\n\n${rules.join('\n\n')}`;
+}
+
+function toNetlify(sources: ParsedSource[]): string {
+  const multipleHosts = groupByHost(sources).size > 1;
+  return sources
+    .map(source => {
+      const from = multipleHosts
+        ? `${new URL(source.sourceUrl).origin}${source.pathname}`
+        : source.pathname;
+      // Netlify can only match query parameters with placeholders, so the rule covers the whole path
+      const note = source.search ? ` (query "${source.search}" not matched)` : '';
+      return `# ${hopComment(source)}${note}\n${from}  ${source.targetUrl}  301`;
+    })
+    .join('\n');
+}
+
+function escapePathPattern(pathname: string): string {
+  return pathname.replace(/[()[\]{}:*+?\\]/g, '\\$&');
+}
+
+function toVercel(sources: ParsedSource[]): string {
+  const multipleHosts = groupByHost(sources).size > 1;
+  const redirects = sources.map(source => {
+    const has = [
+      ...(multipleHosts ? [{ type: 'host', value: source.host.replace(/:\d+$/, '') }] : []),
+      ...[...new URLSearchParams(source.search)].map(([key, value]) => ({
+        type: 'query',
+        key,
+        value: escapeRegex(value),
+      })),
+    ];
+    return {
+      source: escapePathPattern(source.pathname),
+      ...(has.length > 0 ? { has } : {}),
+      destination: source.targetUrl,
+      statusCode: 301,
+    };
+  });
+  return JSON.stringify({ redirects }, null, 2);
+}
+
+// Bulk Redirect list rows: source without scheme, target, status
+function toCloudflare(sources: ParsedSource[]): string {
+  return sources
+    .map(source => {
+      const from = `${source.host}${source.pathname}${source.search ? `?${source.search}` : ''}`;
+      return [from, source.targetUrl, '301'].map(cell =>
+        /[",]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+      );
+    })
+    .map(row => row.join(','))
+    .join('\n');
+}
+
+const GENERATORS: Record<RedirectRuleFormat, (sources: ParsedSource[]) => string> = {
+  nginx: toNginx,
+  apache: toApache,
+  htaccess: toHtaccess,
+  netlify: toNetlify,
+  vercel: toVercel,
+  cloudflare: toCloudflare,
+};
+
+export function generateRedirectRules(
+  redirects: DirectRedirect[],
+  format: RedirectRuleFormat
+): string {
+  const sources = redirects
+    .map(parseSource)
+    .filter((source): source is ParsedSource => source !== null);
+  return sources.length > 0 ? GENERATORS[format](sources) : '';
+}
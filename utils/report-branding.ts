@@ -0,0 +1,124 @@
+// White-label branding for PDF reports, and section templates for single-chain reports
+
+export type ReportTemplate = 'executive' | 'technical' | 'migration';
+
+export interface ReportSections {
+  // Grade badge and numeric score
+  score: boolean;
+  // Issues with their impact, plus recommendations
+  issues: boolean;
+  // Response headers of every hop
+  headers: boolean;
+  // Per-hop time column and gaps between hops
+  timing: boolean;
+  // Tags and notes
+  notes: boolean;
+}
+
+export interface ReportBranding {
+  // Empty shows "RedirectWise"
+  companyName: string;
+  // PNG or JPEG data URL; empty uses the extension icon
+  logoDataUrl: string;
+  // #RRGGBB
+  primaryColor: string;
+  // Empty shows "Generated by RedirectWise"
+  footerText: string;
+  contactLine: string;
+}
+
+export const REPORT_TEMPLATES: ReportTemplate[] = ['executive', 'technical', 'migration'];
+
+export const REPORT_SECTIONS: (keyof ReportSections)[] = [
+  'score',
+  'issues',
+  'headers',
+  'timing',
+  'notes',
+];
+
+export const TEMPLATE_SECTIONS: Record<ReportTemplate, ReportSections> = {
+  executive: { score: true, issues: true, headers: false, timing: false, notes: true },
+  technical: { score: true, issues: true, headers: true, timing: true, notes: true },
+  // Status codes and Location headers matter for a migration, grades less so
+  migration: { score: false, issues: true, headers: true, timing: false, notes: true },
+};
+
+export const DEFAULT_REPORT_BRANDING: ReportBranding = {
+  companyName: '',
+  logoDataUrl: '',
+  primaryColor: '#3B82F6',
+  footerText: '',
+  contactLine: '',
+};
+
+// Logos live in the settings object, so keep them small
+export const MAX_LOGO_BYTES = 256 * 1024;
+const LOGO_TYPES = ['image/png', 'image/jpeg'];
+
+// Accepts "#abc", "abc" or "#aabbcc"; returns "#AABBCC" or null
+export function normalizeHexColor(value: string): string | null {
+  const hex = value.trim().replace(/^#/, '');
+  if (/^[0-9a-f]{3}$/i.test(hex)) {
+    return `#${Array.from(hex, char => char + char).join('')}`.toUpperCase();
+  }
+  return /^[0-9a-f]{6}$/i.test(hex) ? `#${hex}`.toUpperCase() : null;
+}
+
+// RGB channels in 0-1, as pdf-lib's rgb() takes them
+export function hexToRgbChannels(hex: string): [number, number, number] | null {
+  const normalized = normalizeHexColor(hex);
+  if (!normalized) return null;
+  return [1, 3, 5].map(start => parseInt(normalized.slice(start, start + 2), 16) / 255) as [
+    number,
+    number,
+    number,
+  ];
+}
+
+// Light brand colors get dark header text instead of white
+export function isLightColor(hex: string): boolean {
+  const channels = hexToRgbChannels(hex);
+  if (!channels) return false;
+  const [r, g, b] = channels.map(channel =>
+    channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4
+  );
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b > 0.5;
+}
+
+export function getReportSections(
+  template: ReportTemplate,
+  overrides: Partial<ReportSections> = {}
+): ReportSections {
+  return { ...TEMPLATE_SECTIONS[template], ...overrides };
+}
+
+// Reads an uploaded logo as a data URL; null for other types or files over MAX_LOGO_BYTES
+export function readLogoFile(file: File): Promise<string | null> {
+  if (!LOGO_TYPES.includes(file.type) || file.size > MAX_LOGO_BYTES) {
+    return Promise.resolve(null);
+  }
+  return new Promise(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : null);
+    reader.onerror = () => resolve(null);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Splits a logo data URL into its image type and bytes
+export function decodeLogoDataUrl(
+  dataUrl: string
+): { type: 'png' | 'jpeg'; bytes: Uint8Array } | null {
+  const match = dataUrl.match(/^data:image\/(png|jpeg);base64,(.+)$/);
+  if (!match) return null;
+  try {
+    const binary = atob(match[2]);
+    return {
+      type: match[1] as 'png' | 'jpeg',
+      bytes: Uint8Array.from(binary, char => char.charCodeAt(0)),
+    };
+  } catch {
+    return null;
+  }
+}
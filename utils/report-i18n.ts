@@ -0,0 +1,182 @@
+// Localized chain score text and report labels, in the UI language or a chosen report language
+
+import {
+  ChainIssue,
+  ChainIssueCode,
+  ChainRecommendation,
+  ChainRecommendationCode,
+  getChainIssueCode,
+} from '../types/redirect';
+
+export type Translate = (key: string, substitutions?: string[]) => string;
+
+export interface ReportTranslator {
+  translate: Translate;
+  // BCP 47 tag for Intl date and number formatting
+  languageTag: string;
+}
+
+type MessageCatalog = Record<string, { message: string }>;
+
+// Every locale in public/_locales, named in its own language for the report language picker
+export const REPORT_LOCALES: { locale: string; name: string }[] = [
+  { locale: 'ar', name: 'العربية' },
+  { locale: 'de', name: 'Deutsch' },
+  { locale: 'en', name: 'English' },
+  { locale: 'es', name: 'Español' },
+  { locale: 'fr', name: 'Français' },
+  { locale: 'hi', name: 'हिन्दी' },
+  { locale: 'id', name: 'Bahasa Indonesia' },
+  { locale: 'it', name: 'Italiano' },
+  { locale: 'ja', name: '日本語' },
+  { locale: 'ko', name: '한국어' },
+  { locale: 'nl', name: 'Nederlands' },
+  { locale: 'pl', name: 'Polski' },
+  { locale: 'pt_BR', name: 'Português (Brasil)' },
+  { locale: 'ru', name: 'Русский' },
+  { locale: 'sv', name: 'Svenska' },
+  { locale: 'tr', name: 'Türkçe' },
+  { locale: 'vi', name: 'Tiếng Việt' },
+  { locale: 'zh_CN', name: '简体中文' },
+];
+
+const ISSUE_MESSAGE_KEYS: Record<ChainIssueCode, string> = {
+  trackingRedirects: 'issueMsgTrackingRedirects',
+  redirectLoop: 'issueMsgRedirectLoop',
+  excessiveChain: 'issueMsgExcessiveChain',
+  longChain: 'issueMsgLongChain',
+  multipleRedirects: 'issueMsgMultipleRedirects',
+  temporaryRedirects: 'issueMsgTemporaryRedirects',
+  clientRedirects: 'issueMsgClientRedirects',
+  errorResponses: 'issueMsgErrorResponses',
+  insecureUrl: 'issueMsgInsecureUrl',
+  lostTrackingParams: 'issueMsgLostTrackingParams',
+  fastChain: 'issueMsgFastChain',
+  slowRedirects: 'issueMsgSlowRedirects',
+  directAccess: 'issueMsgDirectAccess',
+  singlePermanentRedirect: 'issueMsgSinglePermanentRedirect',
+};
+
+// Positions of the issue params that hold durations in milliseconds
+const ISSUE_DURATION_PARAMS: Partial<Record<ChainIssueCode, number[]>> = {
+  fastChain: [0],
+  slowRedirects: [1],
+};
+
+const RECOMMENDATION_MESSAGE_KEYS: Record<ChainRecommendationCode, string> = {
+  breakLoop: 'recBreakLoop',
+  pointToFinal: 'recPointToFinal',
+  reduceChain: 'recReduceChain',
+  usePermanent: 'recUsePermanent',
+  useServerRedirect: 'recUseServerRedirect',
+  useHttps: 'recUseHttps',
+  forwardQueryString: 'recForwardQueryString',
+};
+
+const IMPACT_KEYS: Record<ChainIssue['impact'], string> = {
+  high: 'impactHigh',
+  medium: 'impactMedium',
+  low: 'impactLow',
+};
+
+export const uiTranslate: Translate = (key, substitutions) =>
+  chrome.i18n.getMessage(key, substitutions);
+
+// Catalogs for languages other than the UI's are read from the packaged _locales files
+const catalogCache = new Map<string, Promise<MessageCatalog | null>>();
+
+function loadCatalog(locale: string): Promise<MessageCatalog | null> {
+  let pending = catalogCache.get(locale);
+  if (!pending) {
+    pending = fetch(chrome.runtime.getURL(`_locales/${locale}/messages.json`))
+      .then(response => (response.ok ? (response.json() as Promise<MessageCatalog>) : null))
+      .catch(() => null);
+    catalogCache.set(locale, pending);
+  }
+  return pending;
+}
+
+// Same $1-$9 substitution chrome.i18n applies, with $$ for a literal dollar sign
+function substitute(message: string, substitutions: string[] = []): string {
+  return message.replace(/\$(\$|[1-9])/g, (_, token: string) =>
+    token === '$' ? '$' : (substitutions[Number(token) - 1] ?? '')
+  );
+}
+
+export function toLanguageTag(locale: string): string {
+  return locale.replace('_', '-');
+}
+
+// Empty or unknown locales use the browser's UI language
+export async function getReportTranslator(locale?: string): Promise<ReportTranslator> {
+  const uiLanguage = chrome.i18n.getUILanguage();
+  if (!locale || !REPORT_LOCALES.some(option => option.locale === locale)) {
+    return { translate: uiTranslate, languageTag: uiLanguage };
+  }
+
+  const [catalog, fallback] = await Promise.all([loadCatalog(locale), loadCatalog('en')]);
+  if (!catalog) {
+    console.error('[RedirectWise] Failed to load report language:', locale);
+    return { translate: uiTranslate, languageTag: uiLanguage };
+  }
+  return {
+    translate: (key, substitutions) => {
+      const message = catalog[key]?.message ?? fallback?.[key]?.message;
+      return message != null ? substitute(message, substitutions) : uiTranslate(key, substitutions);
+    },
+    languageTag: toLanguageTag(locale),
+  };
+}
+
+// Same rounding as formatDuration, with the unit names of the given language
+export function formatLocalizedDuration(durationMs: number, languageTag: string): string {
+  const duration = Math.max(0, durationMs);
+  const [value, unit] =
+    duration < 1000
+      ? [Math.round(duration), 'millisecond']
+      : duration < 60000
+        ? [duration / 1000, 'second']
+        : [duration / 60000, 'minute'];
+  return new Intl.NumberFormat(languageTag, {
+    style: 'unit',
+    unit,
+    unitDisplay: 'short',
+    maximumFractionDigits: value < 10 ? 1 : 0,
+  }).format(value);
+}
+
+export function getIssueMessage(
+  issue: ChainIssue,
+  translate: Translate = uiTranslate,
+  languageTag: string = chrome.i18n.getUILanguage()
+): string {
+  const code = getChainIssueCode(issue);
+  // Entries scored before params were stored keep their English text
+  if (!code || !issue.params) return issue.message;
+  const durationParams = ISSUE_DURATION_PARAMS[code] ?? [];
+  // Entries scored before durations were stored raw already hold formatted English text
+  const params = issue.params.map((param, index) =>
+    durationParams.includes(index) && /^\d+(\.\d+)?$/.test(param)
+      ? formatLocalizedDuration(Number(param), languageTag)
+      : param
+  );
+  return translate(ISSUE_MESSAGE_KEYS[code], params) || issue.message;
+}
+
+export function getRecommendationMessage(
+  recommendation: ChainRecommendation | string,
+  translate: Translate = uiTranslate
+): string {
+  if (typeof recommendation === 'string') return recommendation;
+  return (
+    translate(RECOMMENDATION_MESSAGE_KEYS[recommendation.code], recommendation.params) ||
+    recommendation.message
+  );
+}
+
+export function getImpactLabel(
+  impact: ChainIssue['impact'],
+  translate: Translate = uiTranslate
+): string {
+  return translate(IMPACT_KEYS[impact]) || impact;
+}
@@ -0,0 +1,79 @@
+// History retention: prune by count, age and size on a schedule, keeping exempt entries
+
+import { measureHistory, pruneHistory } from './history-db';
+import { Settings, getSettings, isRetainedEntry } from './storage';
+
+export const RETENTION_ALARM = 'redirectwise-retention';
+const RETENTION_INTERVAL_MINUTES = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+export interface StorageUsage {
+  historyEntries: number;
+  // Serialized size of the history in IndexedDB
+  historyBytes: number;
+  // Settings, batch jobs and other data in storage.local
+  localBytes: number;
+  // Configured limit, or the browser's quota estimate when no limit is set
+  limitBytes: number | null;
+}
+
+export async function getStorageUsage(settings?: Settings): Promise<StorageUsage> {
+  const current = settings ?? (await getSettings());
+  const [history, localBytes, estimate] = await Promise.all([
+    measureHistory(),
+    chrome.storage.local.getBytesInUse(null),
+    navigator.storage?.estimate?.().catch(() => null) ?? Promise.resolve(null),
+  ]);
+
+  return {
+    historyEntries: history.count,
+    historyBytes: history.bytes,
+    localBytes,
+    limitBytes:
+      current.historyMaxStorageMb > 0
+        ? current.historyMaxStorageMb * MB
+        : (estimate?.quota ?? null),
+  };
+}
+
+// Apply the count, age and size limits; returns how many entries were removed
+export async function applyRetentionPolicy(settings?: Settings): Promise<number> {
+  try {
+    const current = settings ?? (await getSettings());
+    const maxEntries = Math.max(1, current.maxHistoryEntries);
+    const cutoff =
+      current.historyMaxAgeDays > 0 ? Date.now() - current.historyMaxAgeDays * DAY_MS : 0;
+    // Everything else in storage.local counts against the same size budget
+    const maxHistoryBytes =
+      current.historyMaxStorageMb > 0
+        ? current.historyMaxStorageMb * MB - (await chrome.storage.local.getBytesInUse(null))
+        : Infinity;
+
+    let keptCount = 0;
+    let keptBytes = 0;
+    const removed = await pruneHistory((entry, bytes) => {
+      const overLimit =
+        keptCount >= maxEntries || entry.timestamp < cutoff || keptBytes + bytes > maxHistoryBytes;
+      if (overLimit && !isRetainedEntry(entry, current)) return true;
+
+      keptCount++;
+      keptBytes += bytes;
+      return false;
+    });
+
+    if (removed > 0) console.log('[RedirectWise] Retention pruned history entries:', removed);
+    return removed;
+  } catch (error) {
+    console.error('[RedirectWise] Error applying retention policy:', error);
+    return 0;
+  }
+}
+
+// Create the hourly alarm if it's missing; safe to call on every service worker start
+export async function scheduleRetention(): Promise<void> {
+  const existing = await chrome.alarms.get(RETENTION_ALARM);
+  if (!existing) {
+    await chrome.alarms.create(RETENTION_ALARM, { periodInMinutes: RETENTION_INTERVAL_MINUTES });
+  }
+}
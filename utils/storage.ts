@@ -2,55 +2,168 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import {
+  DEFAULT_DOMAIN_REGISTRY,
+  DEFAULT_SCORING_PROFILE,
+  DomainRule,
   HistoryEntry,
   RedirectItem,
+  ScoringProfile,
+  TrackableResourceType,
   calculateChainScore,
   calculateTotalDuration,
+  getChainIssueCode,
+  getDomainCategory,
+  hasRedirectLoop,
 } from '../types/redirect';
+import { CaptureAction, CaptureRule, DEFAULT_CAPTURE_RULES } from './capture-rules';
+import {
+  HistoryPage,
+  HistoryQuery,
+  addHistoryEntry,
+  clearHistoryStore,
+  deleteHistoryRecord,
+  forEachHistoryEntry,
+  getAllHistoryEntries,
+  getHistoryCursor,
+  getHistoryEntryById,
+  importHistoryRecords,
+  mapHistoryEntries,
+  queryHistory,
+  updateHistoryRecord,
+} from './history-db';
+import { DEFAULT_REPORT_BRANDING, ReportBranding, ReportTemplate } from './report-branding';
 
-const HISTORY_STORAGE_KEY = 'redirectwise_history';
 const SETTINGS_STORAGE_KEY = 'redirectwise_settings';
 const MAX_HISTORY_ENTRIES = 2000;
 
 export interface Settings {
   darkMode: boolean;
   autoSaveHistory: boolean;
+  // Stops the background from recording navigations; explicit traces still run
+  capturePaused: boolean;
+  captureIncognito: boolean;
+  // For hosts no capture rule matches
+  captureDefaultAction: CaptureAction;
+  captureRules: CaptureRule[];
   maxHistoryEntries: number;
+  // Retention: 0 disables the age or size limit
+  historyMaxAgeDays: number;
+  historyMaxStorageMb: number;
+  retainFavorites: boolean;
+  retainTagged: boolean;
   showChainScoreInPopup: boolean;
   showChainScoreInSidepanel: boolean;
   showChainScoreInDashboard: boolean;
+  trackSubFrames: boolean;
+  trackedResourceTypes: TrackableResourceType[];
+  scoringProfile: ScoringProfile;
+  domainRegistry: DomainRule[];
+  // Locale for PDF reports; empty uses the browser's UI language
+  reportLanguage: string;
+  reportBranding: ReportBranding;
+  // Sections of single-chain PDF reports
+  reportTemplate: ReportTemplate;
 }
 
 const defaultSettings: Settings = {
   darkMode: false,
   autoSaveHistory: true,
+  capturePaused: false,
+  captureIncognito: false,
+  captureDefaultAction: 'save',
+  captureRules: DEFAULT_CAPTURE_RULES,
   maxHistoryEntries: MAX_HISTORY_ENTRIES,
+  historyMaxAgeDays: 0,
+  historyMaxStorageMb: 0,
+  retainFavorites: true,
+  retainTagged: false,
   showChainScoreInPopup: true,
   showChainScoreInSidepanel: true,
   showChainScoreInDashboard: true,
+  trackSubFrames: false,
+  trackedResourceTypes: [],
+  scoringProfile: DEFAULT_SCORING_PROFILE,
+  domainRegistry: DEFAULT_DOMAIN_REGISTRY,
+  reportLanguage: '',
+  reportBranding: DEFAULT_REPORT_BRANDING,
+  reportTemplate: 'technical',
 };
 
-// Get all history entries
+// Entries the retention policy never prunes
+export function isRetainedEntry(
+  entry: HistoryEntry,
+  settings: Pick<Settings, 'retainFavorites' | 'retainTagged'>
+): boolean {
+  return (
+    (settings.retainFavorites && entry.isFavorite) ||
+    (settings.retainTagged && !!entry.tags?.length)
+  );
+}
+
+// Get all history entries, newest first
 export async function getHistory(): Promise<HistoryEntry[]> {
   try {
-    const result = await chrome.storage.local.get(HISTORY_STORAGE_KEY);
-    return result[HISTORY_STORAGE_KEY] || [];
+    return await getAllHistoryEntries();
   } catch (error) {
     console.error('[RedirectWise] Error getting history:', error);
     return [];
   }
 }
 
+// Get one page of history, optionally filtered by grade, host or tag
+export async function getHistoryPage(query: HistoryQuery = {}): Promise<HistoryPage> {
+  try {
+    return await queryHistory(query);
+  } catch (error) {
+    console.error('[RedirectWise] Error querying history:', error);
+    return { entries: [], nextCursor: null };
+  }
+}
+
+// Every entry matching the query, read page by page; a cursor resumes after an already loaded page
+export async function getAllHistoryPages(query: HistoryQuery = {}): Promise<HistoryEntry[]> {
+  const entries: HistoryEntry[] = [];
+  let cursor = query.cursor ?? null;
+  do {
+    const page = await getHistoryPage({ ...query, cursor });
+    entries.push(...page.entries);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return entries;
+}
+
+// The run of the same URL saved just before this one
+export async function getPreviousRun(entry: HistoryEntry): Promise<HistoryEntry | null> {
+  const page = await getHistoryPage({
+    originalUrl: entry.originalUrl,
+    cursor: getHistoryCursor(entry),
+    limit: 1,
+  });
+  return page.entries[0] ?? null;
+}
+
+// Get a single history entry
+export async function getHistoryEntry(id: string): Promise<HistoryEntry | null> {
+  try {
+    return await getHistoryEntryById(id);
+  } catch (error) {
+    console.error('[RedirectWise] Error getting history entry:', error);
+    return null;
+  }
+}
+
 // Save a new history entry
-export async function saveHistoryEntry(path: RedirectItem[]): Promise<HistoryEntry | null> {
+export async function saveHistoryEntry(
+  path: RedirectItem[],
+  extras: Partial<Pick<HistoryEntry, 'tags' | 'batchId' | 'watchId' | 'expected'>> = {}
+): Promise<HistoryEntry | null> {
   if (!path || path.length === 0) return null;
 
   try {
-    const history = await getHistory();
-
     const originalUrl = path[0]?.url || '';
     const finalUrl = path[path.length - 1]?.url || originalUrl;
-    const chainScore = calculateChainScore(path);
+    const settings = await getSettings();
+    const chainScore = calculateChainScore(path, settings.scoringProfile);
 
     // Calculate total time
     const totalTime = calculateTotalDuration(path);
@@ -69,15 +182,13 @@ export async function saveHistoryEntry(path: RedirectItem[]): Promise<HistoryEnt
       totalTime,
       redirectCount,
       isFavorite: false,
+      loop: hasRedirectLoop(path) || undefined,
+      ...extras,
     };
 
-    // Add to beginning of array
-    history.unshift(entry);
-
-    // Limit history size
-    const trimmedHistory = history.slice(0, MAX_HISTORY_ENTRIES);
-
-    await chrome.storage.local.set({ [HISTORY_STORAGE_KEY]: trimmedHistory });
+    await addHistoryEntry(entry, Math.max(1, settings.maxHistoryEntries), existing =>
+      isRetainedEntry(existing, settings)
+    );
 
     console.log('[RedirectWise] Saved history entry:', entry.id);
     return entry;
@@ -87,12 +198,60 @@ export async function saveHistoryEntry(path: RedirectItem[]): Promise<HistoryEnt
   }
 }
 
+// Issues scored before params were stored only have English text; the params are re-derived
+// from the path so the message can be shown in the reader's language. The score is left as saved.
+function fillIssueParams(entry: HistoryEntry, profile: ScoringProfile): HistoryEntry {
+  if (entry.chainScore.issues.every(issue => issue.params)) return entry;
+
+  const fresh = calculateChainScore(entry.path, profile).issues;
+  const issues = entry.chainScore.issues.map(issue => {
+    if (issue.params) return issue;
+    const code = getChainIssueCode(issue);
+    const match = code && fresh.find(candidate => candidate.code === code);
+    return match ? { ...issue, code, params: match.params } : issue;
+  });
+  return { ...entry, chainScore: { ...entry.chainScore, issues } };
+}
+
+// Run once after an update so older entries are localized like new ones
+export async function migrateIssueParams(): Promise<number> {
+  try {
+    const { scoringProfile } = await getSettings();
+    let migrated = 0;
+    await mapHistoryEntries(entry => {
+      const filled = fillIssueParams(entry, scoringProfile);
+      if (filled !== entry) migrated++;
+      return filled;
+    });
+    if (migrated > 0) console.log('[RedirectWise] Filled legacy issue params:', migrated);
+    return migrated;
+  } catch (error) {
+    console.error('[RedirectWise] Error migrating issue params:', error);
+    return 0;
+  }
+}
+
+// Merge imported entries into history, skipping ids that already exist
+export async function importHistory(entries: HistoryEntry[]): Promise<number> {
+  try {
+    const settings = await getSettings();
+    const added = await importHistoryRecords(
+      entries.map(entry => fillIssueParams(entry, settings.scoringProfile)),
+      Math.max(1, settings.maxHistoryEntries),
+      existing => isRetainedEntry(existing, settings)
+    );
+    console.log('[RedirectWise] Imported history entries:', added);
+    return added;
+  } catch (error) {
+    console.error('[RedirectWise] Error importing history:', error);
+    return 0;
+  }
+}
+
 // Delete a history entry
 export async function deleteHistoryEntry(id: string): Promise<boolean> {
   try {
-    const history = await getHistory();
-    const filtered = history.filter(entry => entry.id !== id);
-    await chrome.storage.local.set({ [HISTORY_STORAGE_KEY]: filtered });
+    await deleteHistoryRecord(id);
     console.log('[RedirectWise] Deleted history entry:', id);
     return true;
   } catch (error) {
@@ -107,13 +266,8 @@ export async function updateHistoryEntry(
   updates: Partial<Pick<HistoryEntry, 'notes' | 'tags' | 'isFavorite'>>
 ): Promise<boolean> {
   try {
-    const history = await getHistory();
-    const index = history.findIndex(entry => entry.id === id);
-
-    if (index === -1) return false;
-
-    history[index] = { ...history[index], ...updates };
-    await chrome.storage.local.set({ [HISTORY_STORAGE_KEY]: history });
+    const updated = await updateHistoryRecord(id, updates);
+    if (!updated) return false;
 
     console.log('[RedirectWise] Updated history entry:', id);
     return true;
@@ -123,10 +277,32 @@ export async function updateHistoryEntry(
   }
 }
 
+// Recalculate the chain score of every saved entry, e.g. after the scoring rules changed
+export async function rescoreHistory(
+  profile: ScoringProfile,
+  registry: DomainRule[] = DEFAULT_DOMAIN_REGISTRY
+): Promise<number> {
+  try {
+    const count = await mapHistoryEntries(entry => {
+      // Registry edits change hop categories, which the score depends on
+      const path = entry.path.map(item => ({
+        ...item,
+        category: getDomainCategory(item.url, registry),
+      }));
+      return { ...entry, path, chainScore: calculateChainScore(path, profile) };
+    });
+    console.log('[RedirectWise] Re-scored history entries:', count);
+    return count;
+  } catch (error) {
+    console.error('[RedirectWise] Error re-scoring history:', error);
+    return 0;
+  }
+}
+
 // Clear all history
 export async function clearHistory(): Promise<boolean> {
   try {
-    await chrome.storage.local.set({ [HISTORY_STORAGE_KEY]: [] });
+    await clearHistoryStore();
     console.log('[RedirectWise] Cleared all history');
     return true;
   } catch (error) {
@@ -160,40 +336,36 @@ export async function saveSettings(settings: Partial<Settings>): Promise<boolean
   }
 }
 
-// Search history
-export async function searchHistory(query: string): Promise<HistoryEntry[]> {
-  const history = await getHistory();
-  const lowerQuery = query.toLowerCase();
-
-  return history.filter(
-    entry =>
-      entry.originalUrl.toLowerCase().includes(lowerQuery) ||
-      entry.finalUrl.toLowerCase().includes(lowerQuery) ||
-      entry.notes?.toLowerCase().includes(lowerQuery) ||
-      entry.tags?.some(tag => tag.toLowerCase().includes(lowerQuery))
-  );
+// Subscribe to settings changes made from any extension page
+export function onSettingsChanged(callback: (settings: Settings) => void): () => void {
+  const listener = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    if (areaName !== 'local' || !changes[SETTINGS_STORAGE_KEY]) return;
+    callback({ ...defaultSettings, ...changes[SETTINGS_STORAGE_KEY].newValue });
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
 }
 
-// Get history stats - optimized single pass
+// Get history stats - single cursor pass, entries aren't collected into an array
 export async function getHistoryStats() {
-  const history = await getHistory();
-
   const gradeDistribution: Record<string, number> = { A: 0, B: 0, C: 0, D: 0, F: 0 };
+  let totalEntries = 0;
   let totalRedirects = 0;
   let totalScore = 0;
   let favorites = 0;
 
-  for (const entry of history) {
+  await forEachHistoryEntry(entry => {
+    totalEntries++;
     totalRedirects += entry.redirectCount;
     totalScore += entry.chainScore.score;
     gradeDistribution[entry.chainScore.grade]++;
     if (entry.isFavorite) favorites++;
-  }
+  });
 
   return {
-    totalEntries: history.length,
+    totalEntries,
     totalRedirects,
-    avgScore: history.length > 0 ? Math.round(totalScore / history.length) : 0,
+    avgScore: totalEntries > 0 ? Math.round(totalScore / totalEntries) : 0,
     gradeDistribution,
     favorites,
   };
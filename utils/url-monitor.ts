@@ -0,0 +1,316 @@
+// Watched URLs: re-traced on a schedule, with a notification whenever the chain changes
+
+import {
+  HistoryEntry,
+  WatchChange,
+  WatchSchedule,
+  WatchSnapshot,
+  WatchedUrl,
+  generateId,
+} from '../types/redirect';
+import { BatchTraceFn, DEFAULT_BATCH_OPTIONS } from './batch-runner';
+import { saveHistoryEntry } from './storage';
+import { getTraceErrorMessage } from './url-tracer';
+
+const WATCHED_URLS_STORAGE_KEY = 'redirectwise_watched_urls';
+// Oldest snapshots are dropped beyond this; the linked history entries follow the retention settings
+const MAX_SNAPSHOTS = 200;
+
+// Wakes the service worker to re-check whichever watches are due
+export const URL_MONITOR_ALARM = 'redirectwise-url-monitor';
+const MONITOR_INTERVAL_MINUTES = 15;
+
+// Notification ids carry the watch id so a click can open the watched view
+export const WATCH_NOTIFICATION_PREFIX = 'redirectwise-watch:';
+
+export const WATCH_SCHEDULE_INTERVALS: Record<WatchSchedule, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+
+// The background keeps the authoritative copy in memory while it runs checks
+let watchesCache: WatchedUrl[] | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+let runnerPromise: Promise<void> | null = null;
+
+// Get all watched URLs, newest first
+export async function getWatchedUrls(): Promise<WatchedUrl[]> {
+  try {
+    const result = await chrome.storage.local.get(WATCHED_URLS_STORAGE_KEY);
+    return result[WATCHED_URLS_STORAGE_KEY] || [];
+  } catch (error) {
+    console.error('[RedirectWise] Error getting watched URLs:', error);
+    return [];
+  }
+}
+
+// Subscribe to new check results from any extension page
+export function onWatchedUrlsChanged(callback: (watches: WatchedUrl[]) => void): () => void {
+  const listener = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    if (areaName !== 'local' || !changes[WATCHED_URLS_STORAGE_KEY]) return;
+    callback(changes[WATCHED_URLS_STORAGE_KEY].newValue || []);
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
+
+export function findWatchedUrl(watches: WatchedUrl[], url: string): WatchedUrl | undefined {
+  return watches.find(watch => watch.url === url);
+}
+
+export function getLatestSnapshot(watch: WatchedUrl): WatchSnapshot | undefined {
+  return watch.snapshots[watch.snapshots.length - 1];
+}
+
+async function loadWatches(): Promise<WatchedUrl[]> {
+  if (!watchesCache) watchesCache = await getWatchedUrls();
+  return watchesCache;
+}
+
+function persistWatches(): Promise<void> {
+  writeQueue = writeQueue
+    .then(() => chrome.storage.local.set({ [WATCHED_URLS_STORAGE_KEY]: watchesCache ?? [] }))
+    .catch(error => console.error('[RedirectWise] Error saving watched URLs:', error));
+  return writeQueue;
+}
+
+function toSnapshot(entry: HistoryEntry, changes: WatchChange[], error?: string): WatchSnapshot {
+  return {
+    timestamp: entry.timestamp,
+    historyId: entry.id,
+    finalUrl: entry.finalUrl,
+    redirectCount: entry.redirectCount,
+    statusCodes: entry.path.map(hop => hop.status_code),
+    grade: entry.chainScore.grade,
+    score: entry.chainScore.score,
+    changes,
+    error,
+  };
+}
+
+// A check that couldn't trace anything still goes in the history, scored as a failure
+function toFailedSnapshot(error: string): WatchSnapshot {
+  return {
+    timestamp: Date.now(),
+    finalUrl: '',
+    redirectCount: 0,
+    statusCodes: [],
+    grade: 'F',
+    score: 0,
+    changes: [],
+    error,
+  };
+}
+
+// Latest snapshot before the index that has a traced chain to compare against
+export function findPreviousTrace(
+  snapshots: WatchSnapshot[],
+  index = snapshots.length
+): WatchSnapshot | undefined {
+  for (let i = Math.min(index, snapshots.length) - 1; i >= 0; i--) {
+    if (snapshots[i].historyId) return snapshots[i];
+  }
+  return undefined;
+}
+
+// Chain fields are compared with the last traced check; an error only counts when the previous check was fine
+function detectChanges(
+  previous: WatchSnapshot,
+  lastTrace: WatchSnapshot | undefined,
+  next: WatchSnapshot
+): WatchChange[] {
+  const changes: WatchChange[] = [];
+  if (lastTrace && next.historyId) {
+    if (lastTrace.finalUrl !== next.finalUrl) changes.push('finalUrl');
+    if (lastTrace.redirectCount !== next.redirectCount) changes.push('hopCount');
+    if (lastTrace.statusCodes.join(',') !== next.statusCodes.join(',')) changes.push('status');
+    if (lastTrace.grade !== next.grade) changes.push('grade');
+  }
+  if (next.error && !previous.error) changes.push('error');
+  return changes;
+}
+
+const WATCH_CHANGE_MESSAGES: Record<WatchChange, string> = {
+  finalUrl: 'watchChangeFinalUrl',
+  hopCount: 'watchChangeHopCount',
+  status: 'watchChangeStatus',
+  grade: 'watchChangeGrade',
+  error: 'watchChangeError',
+};
+
+export function getWatchChangeLabel(change: WatchChange): string {
+  return chrome.i18n.getMessage(WATCH_CHANGE_MESSAGES[change]);
+}
+
+// One line per change, e.g. "Grade: A → C"
+export function describeWatchChange(
+  change: WatchChange,
+  previous: WatchSnapshot,
+  next: WatchSnapshot
+): string {
+  const values: Record<WatchChange, string> = {
+    finalUrl: next.finalUrl,
+    hopCount: `${previous.redirectCount} → ${next.redirectCount}`,
+    status: `${previous.statusCodes.join(', ')} → ${next.statusCodes.join(', ')}`,
+    grade: `${previous.grade} → ${next.grade}`,
+    error: next.error ? getTraceErrorMessage(next.error) : '',
+  };
+  return `${getWatchChangeLabel(change)}: ${values[change]}`;
+}
+
+async function notifyChange(
+  watch: WatchedUrl,
+  previous: WatchSnapshot,
+  next: WatchSnapshot
+): Promise<void> {
+  try {
+    await chrome.notifications.create(`${WATCH_NOTIFICATION_PREFIX}${watch.id}`, {
+      type: 'basic',
+      iconUrl: chrome.runtime.getURL('/icons/icon-128.png'),
+      title: chrome.i18n.getMessage(
+        next.changes.includes('error') ? 'watchFailedTitle' : 'watchChangedTitle'
+      ),
+      message: next.changes.map(change => describeWatchChange(change, previous, next)).join('\n'),
+      contextMessage: watch.url,
+      priority: 1,
+    });
+  } catch (error) {
+    console.error('[RedirectWise] Error showing watch notification:', error);
+  }
+}
+
+function setSchedule(watch: WatchedUrl, schedule: WatchSchedule): void {
+  watch.schedule = schedule;
+  watch.nextCheckAt = (watch.lastCheckedAt ?? watch.createdAt) + WATCH_SCHEDULE_INTERVALS[schedule];
+}
+
+// Keep the alarm only while something is watched
+export async function scheduleUrlMonitor(): Promise<void> {
+  try {
+    if ((await loadWatches()).length > 0) {
+      const existing = await chrome.alarms.get(URL_MONITOR_ALARM);
+      if (!existing) {
+        await chrome.alarms.create(URL_MONITOR_ALARM, {
+          periodInMinutes: MONITOR_INTERVAL_MINUTES,
+        });
+      }
+    } else {
+      await chrome.alarms.clear(URL_MONITOR_ALARM);
+    }
+  } catch (error) {
+    console.error('[RedirectWise] Error scheduling URL monitor:', error);
+  }
+}
+
+// Watching a URL twice just updates its schedule; a baseline entry becomes the first snapshot
+export async function watchUrl(
+  url: string,
+  schedule: WatchSchedule,
+  baseline?: HistoryEntry | null
+): Promise<WatchedUrl> {
+  const watches = await loadWatches();
+  const now = Date.now();
+  let watch = findWatchedUrl(watches, url);
+
+  if (watch) {
+    setSchedule(watch, schedule);
+  } else {
+    watch = {
+      id: generateId(),
+      url,
+      schedule,
+      createdAt: now,
+      // Without a baseline the first check runs right away
+      nextCheckAt: baseline ? now + WATCH_SCHEDULE_INTERVALS[schedule] : now,
+      snapshots: baseline ? [toSnapshot(baseline, [])] : [],
+    };
+    watches.unshift(watch);
+  }
+
+  await persistWatches();
+  await scheduleUrlMonitor();
+  console.log('[RedirectWise] Watching URL:', url, schedule);
+  return watch;
+}
+
+export async function unwatchUrl(id: string): Promise<boolean> {
+  const watches = await loadWatches();
+  if (!watches.some(watch => watch.id === id)) return false;
+
+  watchesCache = watches.filter(watch => watch.id !== id);
+  await persistWatches();
+  await scheduleUrlMonitor();
+  return true;
+}
+
+export async function setWatchSchedule(id: string, schedule: WatchSchedule): Promise<boolean> {
+  const watch = (await loadWatches()).find(existing => existing.id === id);
+  if (!watch) return false;
+
+  setSchedule(watch, schedule);
+  await persistWatches();
+  return true;
+}
+
+// Make a watch due now; the caller then runs the due checks
+export async function markWatchDue(id: string): Promise<boolean> {
+  const watch = (await loadWatches()).find(existing => existing.id === id);
+  if (!watch) return false;
+
+  watch.nextCheckAt = Date.now();
+  await persistWatches();
+  return true;
+}
+
+async function checkWatch(watch: WatchedUrl, trace: BatchTraceFn): Promise<void> {
+  const previous = getLatestSnapshot(watch);
+  const lastTrace = findPreviousTrace(watch.snapshots);
+  let snapshot: WatchSnapshot;
+
+  try {
+    const result = await trace(watch.url, DEFAULT_BATCH_OPTIONS.timeoutMs);
+    const entry = await saveHistoryEntry(result.path, { watchId: watch.id });
+    snapshot = entry
+      ? toSnapshot(entry, [], result.error)
+      : toFailedSnapshot(result.error || chrome.i18n.getMessage('watchChangeError'));
+  } catch (error) {
+    snapshot = toFailedSnapshot(error instanceof Error ? error.message : String(error));
+  }
+  if (previous) snapshot.changes = detectChanges(previous, lastTrace, snapshot);
+
+  const now = Date.now();
+  watch.lastError = snapshot.error;
+  watch.lastCheckedAt = now;
+  watch.nextCheckAt = now + WATCH_SCHEDULE_INTERVALS[watch.schedule];
+  watch.snapshots = [...watch.snapshots, snapshot].slice(-MAX_SNAPSHOTS);
+
+  if (previous && snapshot.changes.length > 0) {
+    console.log('[RedirectWise] Watched URL changed:', watch.url, snapshot.changes);
+    await notifyChange(watch, lastTrace ?? previous, snapshot);
+  }
+}
+
+// Check due watches one at a time; calling again while busy joins the current run
+export function runDueWatches(trace: BatchTraceFn): Promise<void> {
+  if (runnerPromise) return runnerPromise;
+
+  const nextDue = (watches: WatchedUrl[]) => watches.find(watch => watch.nextCheckAt <= Date.now());
+
+  runnerPromise = (async () => {
+    try {
+      let watch = nextDue(await loadWatches());
+      while (watch) {
+        await checkWatch(watch, trace);
+        // Skip the write if the watch was removed while it was being checked
+        if (watchesCache?.includes(watch)) await persistWatches();
+        watch = nextDue(watchesCache ?? []);
+      }
+    } catch (error) {
+      console.error('[RedirectWise] URL monitor failed:', error);
+    } finally {
+      runnerPromise = null;
+    }
+  })();
+
+  return runnerPromise;
+}
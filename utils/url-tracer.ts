@@ -0,0 +1,202 @@
+// On-demand redirect tracer that follows a URL hop by hop without a user navigation
+
+import {
+  DomainRule,
+  MAX_REDIRECT_HOPS,
+  RedirectHeader,
+  RedirectItem,
+  generateId,
+  getDomainCategory,
+  getStatusObject,
+  markRedirectLoop,
+} from '../types/redirect';
+import { Translate, formatLocalizedDuration, uiTranslate } from './report-i18n';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_HOPS = MAX_REDIRECT_HOPS;
+
+export interface TraceOptions {
+  timeoutMs?: number;
+  maxHops?: number;
+  // Used when the browser hides the Location header behind an opaque redirect
+  fallback?: (url: string, timeoutMs: number) => Promise<RedirectItem[]>;
+  domainRegistry?: DomainRule[];
+}
+
+export interface TraceResult {
+  path: RedirectItem[];
+  // A TraceErrorCode from traceError(), or the browser's text for network failures
+  error?: string;
+}
+
+// Failures the tracer knows about are passed around as "code" or "code:param" and translated
+// where they're shown; network errors and errors saved before codes existed keep their text
+export type TraceErrorCode =
+  | 'invalidUrl'
+  | 'redirectLoop'
+  | 'invalidLocation'
+  | 'opaqueRedirect'
+  | 'tooManyRedirects'
+  | 'timeout'
+  | 'tabFailed';
+
+const TRACE_ERROR_MESSAGES: Record<TraceErrorCode, string> = {
+  invalidUrl: 'traceErrorInvalidUrl',
+  redirectLoop: 'traceErrorRedirectLoop',
+  invalidLocation: 'traceErrorInvalidLocation',
+  opaqueRedirect: 'traceErrorOpaqueRedirect',
+  tooManyRedirects: 'traceErrorTooManyRedirects',
+  timeout: 'traceErrorTimeout',
+  tabFailed: 'traceErrorTabFailed',
+};
+
+export function traceError(code: TraceErrorCode, param?: string | number): string {
+  return param == null ? code : `${code}:${param}`;
+}
+
+export function getTraceErrorMessage(
+  error: string,
+  translate: Translate = uiTranslate,
+  languageTag: string = chrome.i18n.getUILanguage()
+): string {
+  const separator = error.indexOf(':');
+  const code = separator < 0 ? error : error.slice(0, separator);
+  if (!Object.hasOwn(TRACE_ERROR_MESSAGES, code)) return error;
+
+  const param = separator < 0 ? undefined : error.slice(separator + 1);
+  // Timeouts carry raw milliseconds
+  const params =
+    param == null
+      ? []
+      : [code === 'timeout' ? formatLocalizedDuration(Number(param), languageTag) : param];
+  return translate(TRACE_ERROR_MESSAGES[code as TraceErrorCode], params) || error;
+}
+
+// Accept bare hostnames ("example.com/page") and reject anything that is not http(s)
+export function normalizeTraceUrl(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  const withScheme = /^[a-z][a-z\d+\-.]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const url = new URL(withScheme);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function getRedirectType(statusCode: number): RedirectItem['redirect_type'] {
+  return statusCode === 301 || statusCode === 308 ? 'permanent' : 'temporary';
+}
+
+// A malformed Location header ends the chain instead of throwing out of the trace
+function resolveLocation(location: string | null, base: string): string | undefined {
+  if (!location) return undefined;
+  try {
+    return new URL(location, base).href;
+  } catch {
+    return undefined;
+  }
+}
+
+function buildTracedItem(
+  url: string,
+  response: Response,
+  startTime: number,
+  endTime: number,
+  domainRegistry?: DomainRule[]
+): RedirectItem {
+  const headers: RedirectHeader[] = [];
+  response.headers.forEach((value, name) => headers.push({ name, value }));
+
+  const isRedirect = response.status >= 300 && response.status < 400;
+  const location = response.headers.get('location');
+  const statusText = response.statusText ? ` ${response.statusText}` : '';
+
+  return {
+    id: generateId(),
+    url,
+    status_code: response.status,
+    status_line: `HTTP/1.1 ${response.status}${statusText}`,
+    ip: 'Unknown',
+    type: isRedirect ? 'server_redirect' : 'navigation',
+    redirect_type: isRedirect ? getRedirectType(response.status) : undefined,
+    redirect_url: isRedirect ? resolveLocation(location, url) : undefined,
+    category: getDomainCategory(url, domainRegistry),
+    headers,
+    timestamp: endTime,
+    timing: {
+      startTime,
+      endTime,
+      duration: endTime - startTime,
+    },
+    statusObject: getStatusObject(response.status),
+  };
+}
+
+// Follow the chain with fetch(redirect: 'manual'), one request per hop
+export async function traceUrl(url: string, options: TraceOptions = {}): Promise<TraceResult> {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxHops = DEFAULT_MAX_HOPS,
+    fallback,
+    domainRegistry,
+  } = options;
+  const path: RedirectItem[] = [];
+  let currentUrl = url;
+
+  for (let hop = 0; hop < maxHops; hop++) {
+    const startTime = Date.now();
+    let response: Response;
+
+    try {
+      response = await fetch(currentUrl, {
+        redirect: 'manual',
+        cache: 'no-store',
+        credentials: 'omit',
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('[RedirectWise] Trace request failed:', currentUrl, error);
+      return { path, error: message };
+    }
+
+    if (response.type === 'opaqueredirect') {
+      if (!fallback) {
+        return { path, error: traceError('opaqueRedirect') };
+      }
+
+      try {
+        const fallbackPath = await fallback(currentUrl, timeoutMs);
+        return { path: [...path, ...fallbackPath] };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { path, error: message };
+      }
+    }
+
+    const item = buildTracedItem(currentUrl, response, startTime, Date.now(), domainRegistry);
+    path.push(item);
+
+    // Following a cycle again would only repeat the same hops until maxHops
+    if (markRedirectLoop(path)) {
+      return { path, error: traceError('redirectLoop') };
+    }
+
+    if (item.type !== 'server_redirect') {
+      return { path };
+    }
+    if (!item.redirect_url) {
+      return response.headers.has('location')
+        ? { path, error: traceError('invalidLocation') }
+        : { path };
+    }
+
+    currentUrl = item.redirect_url;
+  }
+
+  markRedirectLoop(path, true);
+  return { path, error: traceError('tooManyRedirects', maxHops) };
+}
@@ -1,14 +1,37 @@
 import tailwindcss from '@tailwindcss/vite';
+import { existsSync } from 'node:fs';
+import { resolve } from 'node:path';
 import { defineConfig } from 'wxt';
+import { getFontFacePaths } from './utils/pdf-font-faces';
 
 export default defineConfig({
   modules: ['@wxt-dev/module-react'],
+  hooks: {
+    // PDF exports quietly fall back to standard fonts, so a missing face has to fail the build instead
+    'build:before': wxt => {
+      const missing = getFontFacePaths().filter(
+        path => !existsSync(resolve(wxt.config.publicDir, path))
+      );
+      if (missing.length > 0) {
+        throw new Error(`Missing PDF font files in public/: ${missing.join(', ')}`);
+      }
+    },
+  },
   manifest: {
     default_locale: 'en',
     name: '__MSG_extensionName__',
     description: '__MSG_extensionDesc__',
     version: '1.4.2',
-    permissions: ['webRequest', 'webNavigation', 'tabs', 'storage', 'sidePanel'],
+    permissions: [
+      'webRequest',
+      'webNavigation',
+      'tabs',
+      'storage',
+      'unlimitedStorage',
+      'sidePanel',
+      'alarms',
+      'notifications',
+    ],
     host_permissions: ['<all_urls>'],
     icons: {
       '16': 'icons/icon-16.png',